@@ -42,7 +42,8 @@ export default tool({
         return `Error: ${data.error}`;
       }
 
-      return data.diff;
+      // Renames, mode changes and deletions aren't obvious from the hunks alone
+      return data.change ? `${args.file} (${data.change})\n\n${data.diff}` : data.diff;
     } catch (error) {
       return `Error fetching diff: ${error}`;
     }
@@ -0,0 +1,95 @@
+// =============================================================================
+// CODEOWNERS Parsing and Matching
+// =============================================================================
+
+import type { CodeOwnership } from "@better-review/shared";
+
+// One line of a CODEOWNERS file. A rule without owners makes its files unowned.
+interface CodeOwnersRule {
+  pattern: RegExp;
+  owners: string[];
+}
+
+// Translate a CODEOWNERS pattern (the gitignore syntax GitHub supports) to a RegExp:
+// patterns with a leading or inner slash are relative to the repo root, others match at
+// any depth, and a pattern naming a directory owns everything inside it
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.slice(0, -1).includes("/");
+  const dirOnly = pattern.endsWith("/");
+  const body = pattern.replace(/^\//, "").replace(/\/$/, "");
+
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "*" && body[i + 1] === "*") {
+      // "**/" matches zero or more directories, anything else with "**" crosses them
+      if (body[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  // "docs/*" only matches files directly inside docs/, while "docs" also matches below it
+  const lastSegment = body.slice(body.lastIndexOf("/") + 1);
+  const suffix = dirOnly ? "/" : lastSegment.includes("*") ? "$" : "(?:/|$)";
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}${suffix}`);
+}
+
+/**
+ * Parse a CODEOWNERS file into rules, in file order
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    // Comments start with an unescaped "#", at the start of a line or after whitespace
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern: patternToRegExp(pattern.replace(/\\#/g, "#")), owners });
+  }
+  return rules;
+}
+
+/**
+ * Owners of a file. The last matching rule wins, as on GitHub.
+ */
+export function getFileOwners(rules: readonly CodeOwnersRule[], path: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].pattern.test(path)) return rules[i].owners;
+  }
+  return [];
+}
+
+/**
+ * Owners of each changed file, and which files belong to the viewer. Handles are
+ * "@login" and "@org/team"; GitHub compares them case-insensitively.
+ */
+export function getCodeOwnership(
+  file: { path: string; content: string } | null,
+  files: readonly string[],
+  viewerHandles: readonly string[],
+): CodeOwnership {
+  if (!file) return { path: null, owners: {}, owned: [] };
+  const rules = parseCodeOwners(file.content);
+  const handles = new Set(viewerHandles.map((h) => h.toLowerCase()));
+
+  const owners: Record<string, string[]> = {};
+  const owned: string[] = [];
+  for (const path of files) {
+    const fileOwners = getFileOwners(rules, path);
+    if (fileOwners.length === 0) continue;
+    owners[path] = fileOwners;
+    if (fileOwners.some((o) => handles.has(o.toLowerCase()))) owned.push(path);
+  }
+  return { path: file.path, owners, owned };
+}
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseFullDiff } from "./diff";
+
+// One file's entry from a diff made of the given lines
+const parseOne = (lines: string[]) => {
+  const files = parseFullDiff(lines.join("\n"));
+  expect(files.size).toBe(1);
+  const [[path, meta]] = files;
+  return { path, ...meta };
+};
+
+const HUNK = ["@@ -1 +1 @@", "-old", "+new"];
+
+describe("parseFullDiff headers", () => {
+  test("splits an unquoted header in half when the path contains ' b/'", () => {
+    const file = parseOne([
+      "diff --git a/docs/a b/c.png b/docs/a b/c.png",
+      "index 8f3a1b2..c9d4e5f 100644",
+      "Binary files a/docs/a b/c.png and b/docs/a b/c.png differ",
+    ]);
+    expect(file).toMatchObject({ path: "docs/a b/c.png", changeType: "modified", oldPath: null });
+  });
+
+  test("decodes C-quoted paths with octal UTF-8 bytes and escapes", () => {
+    const file = parseOne([
+      'diff --git "a/caf\\303\\251 \\"menu\\".txt" "b/caf\\303\\251 \\"menu\\".txt"',
+      "index 3b18e51..a4c2f1d 100644",
+      '--- "a/caf\\303\\251 \\"menu\\".txt"',
+      '+++ "b/caf\\303\\251 \\"menu\\".txt"',
+      ...HUNK,
+    ]);
+    expect(file.path).toBe('café "menu".txt');
+    expect(file.totalAdded).toBe(1);
+  });
+
+  test("takes a quoted header's new path even when only the old side is quoted", () => {
+    const file = parseOne([
+      'diff --git "a/tab\\there.txt" b/plain.txt',
+      "similarity index 100%",
+      'rename from "tab\\there.txt"',
+      "rename to plain.txt",
+    ]);
+    expect(file).toMatchObject({
+      path: "plain.txt",
+      changeType: "renamed",
+      oldPath: "tab\there.txt",
+      similarity: 100,
+    });
+  });
+
+  test("reads renames from the rename lines", () => {
+    const file = parseOne([
+      "diff --git a/src/old name.ts b/src/new name.ts",
+      "similarity index 95%",
+      "rename from src/old name.ts",
+      "rename to src/new name.ts",
+      "index 3b18e51..a4c2f1d 100644",
+      "--- a/src/old name.ts",
+      "+++ b/src/new name.ts",
+      ...HUNK,
+    ]);
+    expect(file).toMatchObject({
+      path: "src/new name.ts",
+      changeType: "renamed",
+      oldPath: "src/old name.ts",
+      similarity: 95,
+      oldMode: "100644",
+      newMode: "100644",
+    });
+  });
+
+  test("reads copies from the copy lines", () => {
+    const file = parseOne([
+      "diff --git a/src/base.ts b/src/copy.ts",
+      "similarity index 88%",
+      "copy from src/base.ts",
+      "copy to src/copy.ts",
+    ]);
+    expect(file).toMatchObject({
+      path: "src/copy.ts",
+      changeType: "copied",
+      oldPath: "src/base.ts",
+      similarity: 88,
+    });
+  });
+
+  test("records mode changes from old mode/new mode lines", () => {
+    const file = parseOne([
+      "diff --git a/bin/run.sh b/bin/run.sh",
+      "old mode 100644",
+      "new mode 100755",
+    ]);
+    expect(file).toMatchObject({
+      path: "bin/run.sh",
+      changeType: "modified",
+      oldMode: "100644",
+      newMode: "100755",
+      hunks: [],
+    });
+  });
+
+  test("treats /dev/null as the missing side of added and deleted files", () => {
+    const files = parseFullDiff(
+      [
+        "diff --git a/src/added.ts b/src/added.ts",
+        "new file mode 100644",
+        "index 0000000..5d1e2c3",
+        "--- /dev/null",
+        "+++ b/src/added.ts",
+        "@@ -0,0 +1 @@",
+        "+export {};",
+        "diff --git a/src/deleted.ts b/src/deleted.ts",
+        "deleted file mode 100755",
+        "index 5d1e2c3..0000000",
+        "--- a/src/deleted.ts",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-export {};",
+      ].join("\n"),
+    );
+    expect(files.get("src/added.ts")).toMatchObject({
+      changeType: "added",
+      oldMode: null,
+      newMode: "100644",
+      totalAdded: 1,
+    });
+    // Deleted files are keyed by the path they had
+    expect(files.get("src/deleted.ts")).toMatchObject({
+      changeType: "deleted",
+      oldMode: "100755",
+      newMode: null,
+      totalRemoved: 1,
+    });
+  });
+
+  test("marks 'Binary files ... differ' entries as binary without hunks", () => {
+    const file = parseOne([
+      "diff --git a/assets/logo.png b/assets/logo.png",
+      "new file mode 100644",
+      "index 0000000..c9d4e5f",
+      "Binary files /dev/null and b/assets/logo.png differ",
+    ]);
+    expect(file).toMatchObject({
+      path: "assets/logo.png",
+      changeType: "added",
+      binary: true,
+      hunks: [],
+      totalAdded: 0,
+      totalRemoved: 0,
+    });
+  });
+});
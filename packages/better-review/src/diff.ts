@@ -2,6 +2,8 @@
 // Diff Parsing and Filtering Utilities
 // =============================================================================
 
+import { type BlobInfo, getBinaryDiffPaths } from "@better-review/shared";
+
 // Hunk info extracted from diff headers
 export interface HunkInfo {
   newStart: number; // Starting line in new file
@@ -10,12 +12,25 @@ export interface HunkInfo {
   oldCount: number;
 }
 
+// How a file changed, from the extended header lines of its diff
+export type FileChangeType = "added" | "deleted" | "modified" | "renamed" | "copied";
+
 // Metadata for a file's diff
 export interface FileDiffMeta {
   diff: string;
   hunks: HunkInfo[];
   totalAdded: number;
   totalRemoved: number;
+  /** Binary files have no hunks, just a "Binary files ... differ" line */
+  binary: boolean;
+  changeType: FileChangeType;
+  /** Path the file was renamed or copied from */
+  oldPath: string | null;
+  /** Git file modes ("100644", "100755", "120000" for symlinks), null on a side without the file */
+  oldMode: string | null;
+  newMode: string | null;
+  /** Percentage from the "similarity index" line of renames and copies */
+  similarity: number | null;
 }
 
 // Parse line counts from a unified diff
@@ -30,7 +45,9 @@ export function getLineChanges(diff: string): { added: number; removed: number }
 }
 
 // Parse a diff string to extract hunk info and line counts
-export function parseDiffMeta(diff: string): Omit<FileDiffMeta, "diff"> {
+export function parseDiffMeta(
+  diff: string,
+): Pick<FileDiffMeta, "hunks" | "totalAdded" | "totalRemoved" | "binary"> {
   const hunks: HunkInfo[] = [];
   let totalAdded = 0;
   let totalRemoved = 0;
@@ -52,7 +69,70 @@ export function parseDiffMeta(diff: string): Omit<FileDiffMeta, "diff"> {
     }
   }
 
-  return { hunks, totalAdded, totalRemoved };
+  return { hunks, totalAdded, totalRemoved, binary: getBinaryDiffPaths(diff).size > 0 };
+}
+
+// Blobs of a binary file on both sides of the PR (null where the file doesn't exist)
+export interface BinaryFileBlobs {
+  old: BlobInfo | null;
+  new: BlobInfo | null;
+}
+
+// Binary files among a PR's parsed diffs, with the path each had on the base side
+export const binaryFiles = (fileDiffs: ReadonlyMap<string, FileDiffMeta>) =>
+  [...fileDiffs]
+    .filter(([, meta]) => meta.binary)
+    .map(([path, meta]) => ({ path, oldPath: meta.oldPath }));
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatBlob = (blob: BlobInfo | null) =>
+  blob ? `${formatBytes(blob.size)} [${blob.oid.slice(0, 7)}]` : "none";
+
+// What changed about a file besides its lines, e.g. "renamed from a.ts (95% similar), mode 100644 -> 100755"
+export function describeFileChange(meta: FileDiffMeta): string | null {
+  const parts: string[] = [];
+  const similarity = meta.similarity === null ? "" : ` (${meta.similarity}% similar)`;
+  if (meta.changeType === "renamed") parts.push(`renamed from ${meta.oldPath}${similarity}`);
+  else if (meta.changeType === "copied") parts.push(`copied from ${meta.oldPath}${similarity}`);
+  else if (meta.changeType !== "modified") parts.push(meta.changeType);
+  if (meta.oldMode && meta.newMode && meta.oldMode !== meta.newMode) {
+    parts.push(`mode ${meta.oldMode} -> ${meta.newMode}`);
+  }
+  if (meta.binary) parts.push("binary");
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+// Structured change fields returned alongside a file's diff
+export const fileChangeInfo = (meta: FileDiffMeta) => ({
+  change: describeFileChange(meta),
+  changeType: meta.changeType,
+  oldPath: meta.oldPath,
+  oldMode: meta.oldMode,
+  newMode: meta.newMode,
+  binary: meta.binary,
+});
+
+// One line of the pr_metadata file list: line counts, plus hunk ranges for large files.
+// Binary files have no lines, so they show their sizes and blob hashes instead.
+export function formatFileStat(file: string, meta: FileDiffMeta, blobs?: BinaryFileBlobs): string {
+  const change = describeFileChange(meta);
+  const name = change ? `${file} (${change})` : file;
+  if (meta.binary) {
+    return blobs ? `${name} ${formatBlob(blobs.old)} -> ${formatBlob(blobs.new)}` : name;
+  }
+  const { totalAdded, totalRemoved, hunks } = meta;
+  // Show hunk ranges for large files (>1k lines changed)
+  if (totalAdded + totalRemoved > 1000 && hunks.length > 0) {
+    const ranges = hunks.map((h) => `${h.newStart}-${h.newStart + h.newCount - 1}`).join(", ");
+    return `${name} +${totalAdded} -${totalRemoved} [hunks: ${ranges}]`;
+  }
+  return `${name} +${totalAdded} -${totalRemoved}`;
 }
 
 // Filter a unified diff to only include lines within the specified line range
@@ -205,34 +285,140 @@ export function filterDiffByLineRange(diff: string, startLine?: number, endLine?
   return result.join("\n");
 }
 
-// Parse a full unified diff (from `gh pr diff`) into per-file diffs with metadata
+// Undo git's C-style quoting of paths with special characters: "a/caf\303\251.txt".
+// Octal escapes are UTF-8 bytes, so decode through a byte buffer.
+function unquotePath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"')) return path;
+  const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13 };
+  const bytes: number[] = [];
+  const inner = path.slice(1, -1);
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char !== "\\") {
+      bytes.push(...new TextEncoder().encode(char));
+      continue;
+    }
+    const next = inner[++i];
+    const octal = inner.slice(i, i + 3);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 2;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+// Strip the a/ or b/ prefix from a (possibly quoted) diff path
+const stripPrefix = (path: string, prefix: "a/" | "b/") => {
+  const unquoted = unquotePath(path.replace(/\t$/, ""));
+  return unquoted.startsWith(prefix) ? unquoted.slice(prefix.length) : unquoted;
+};
+
+// Old and new paths from "diff --git a/<old> b/<new>". Unquoted paths may themselves
+// contain " b/", so the split is only trusted when both halves name the same file;
+// renames and copies get their paths from the "rename from/to" lines instead.
+function parseGitHeaderPaths(rest: string): { oldPath: string; newPath: string } {
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*")$/);
+  const quotedOld = rest.match(/^("(?:[^"\\]|\\.)*") (.+)$/);
+  if (quoted || quotedOld) {
+    const [, oldPath, newPath] = (quoted ?? quotedOld)!;
+    return { oldPath: stripPrefix(oldPath, "a/"), newPath: stripPrefix(newPath, "b/") };
+  }
+  // "a/<path> b/<path>" is 2n + 5 characters, with the " b/" separator starting at n + 2
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest.startsWith("a/") && rest.slice(half, half + 3) === " b/") {
+    const oldPath = rest.slice(2, half);
+    const newPath = rest.slice(half + 3);
+    if (oldPath === newPath) return { oldPath, newPath };
+  }
+  const split = rest.indexOf(" b/");
+  return split === -1
+    ? { oldPath: rest, newPath: rest }
+    : { oldPath: rest.slice(2, split), newPath: rest.slice(split + 3) };
+}
+
+// Change type, paths and modes from the header lines of one file's diff (everything before
+// the first hunk or binary marker)
+function parseFileHeader(lines: readonly string[]): Pick<
+  FileDiffMeta,
+  "changeType" | "oldPath" | "oldMode" | "newMode" | "similarity"
+> & {
+  path: string;
+} {
+  let { oldPath, newPath } = parseGitHeaderPaths(lines[0].slice("diff --git ".length));
+  let changeType: FileChangeType = "modified";
+  let oldMode: string | null = null;
+  let newMode: string | null = null;
+  let similarity: number | null = null;
+
+  for (const line of lines.slice(1)) {
+    if (line.startsWith("@@") || line.startsWith("Binary files ")) break;
+    if (line === "GIT binary patch") break;
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(/^new file mode (\d+)$/))) {
+      changeType = "added";
+      newMode = match[1];
+    } else if ((match = line.match(/^deleted file mode (\d+)$/))) {
+      changeType = "deleted";
+      oldMode = match[1];
+    } else if ((match = line.match(/^old mode (\d+)$/))) {
+      oldMode = match[1];
+    } else if ((match = line.match(/^new mode (\d+)$/))) {
+      newMode = match[1];
+    } else if ((match = line.match(/^(rename|copy) from (.+)$/))) {
+      changeType = match[1] === "rename" ? "renamed" : "copied";
+      oldPath = unquotePath(match[2]);
+    } else if ((match = line.match(/^(?:rename|copy) to (.+)$/))) {
+      newPath = unquotePath(match[1]);
+    } else if ((match = line.match(/^similarity index (\d+)%$/))) {
+      similarity = parseInt(match[1], 10);
+    } else if ((match = line.match(/^index [0-9a-f]+\.\.[0-9a-f]+ (\d+)$/))) {
+      // An unchanged mode is printed once at the end of the index line
+      oldMode = newMode = match[1];
+    } else if (line.startsWith("--- ") && line !== "--- /dev/null") {
+      oldPath = stripPrefix(line.slice(4), "a/");
+    } else if (line.startsWith("+++ ") && line !== "+++ /dev/null") {
+      newPath = stripPrefix(line.slice(4), "b/");
+    } else if (line === "--- /dev/null") {
+      changeType = "added";
+    } else if (line === "+++ /dev/null") {
+      changeType = "deleted";
+    }
+  }
+
+  const moved = changeType === "renamed" || changeType === "copied";
+  return {
+    // Deleted files only exist on the old side
+    path: changeType === "deleted" ? oldPath : newPath,
+    changeType,
+    oldPath: moved ? oldPath : null,
+    oldMode: changeType === "added" ? null : oldMode,
+    newMode: changeType === "deleted" ? null : newMode,
+    similarity,
+  };
+}
+
+// Parse a full unified diff (from `gh pr diff`) into per-file diffs with metadata,
+// keyed by the file's new path (or its old path if deleted)
 export function parseFullDiff(fullDiff: string): Map<string, FileDiffMeta> {
   const fileDiffs = new Map<string, FileDiffMeta>();
-  const lines = fullDiff.split("\n");
-  let currentFile: string | null = null;
   let currentDiff: string[] = [];
 
   const saveCurrentFile = () => {
-    if (currentFile && currentDiff.length > 0) {
-      const diff = currentDiff.join("\n");
-      const meta = parseDiffMeta(diff);
-      fileDiffs.set(currentFile, { diff, ...meta });
-    }
+    if (currentDiff.length === 0) return;
+    const diff = currentDiff.join("\n");
+    const { path, ...header } = parseFileHeader(currentDiff);
+    fileDiffs.set(path, { diff, ...parseDiffMeta(diff), ...header });
   };
 
-  for (const line of lines) {
-    // Check for diff header: "diff --git a/path/to/file b/path/to/file"
+  for (const line of fullDiff.split("\n")) {
     if (line.startsWith("diff --git ")) {
       // Save previous file's diff
       saveCurrentFile();
-
-      // Extract new file path
-      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
-      if (match) {
-        currentFile = match[2]; // Use the "b" path (new file name)
-        currentDiff = [line];
-      }
-    } else if (currentFile) {
+      currentDiff = [line];
+    } else if (currentDiff.length > 0) {
       currentDiff.push(line);
     }
   }
@@ -0,0 +1,113 @@
+// =============================================================================
+// Fixture transport - Record GitHub responses to disk and replay them offline
+// =============================================================================
+
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+
+import { Effect, Layer } from "effect";
+
+import { DEFAULT_GITHUB_HOST } from "@better-review/shared";
+
+import { type GhRequest, GhTransport, GhTransportError, GhTransportLive } from "./transport";
+
+export interface FixtureOptions {
+  /** Directory holding one subdirectory of fixtures per host */
+  dir: string;
+  /** "record" passes requests through to GitHub and saves the responses */
+  mode: "replay" | "record";
+}
+
+const DIFF_ACCEPT = "application/vnd.github.diff";
+
+// Fixtures are keyed by endpoint. GraphQL always posts to the same path, so the
+// request body is part of the key too; the hash keeps different queries apart.
+const fixturePath = (dir: string, req: GhRequest, pages: boolean) => {
+  const method = req.method ?? "GET";
+  const hash = createHash("sha256")
+    .update(JSON.stringify([method, req.path, req.accept ?? null, req.body ?? null]))
+    .digest("hex")
+    .slice(0, 8);
+  const slug = `${method}_${req.path}`.replace(/[^\w.-]+/g, "_").slice(0, 100);
+  // Diffs are stored raw so they're readable and editable by hand
+  const ext = pages ? "pages.json" : req.accept === DIFF_ACCEPT ? "diff" : "json";
+  return join(dir, req.host ?? DEFAULT_GITHUB_HOST, `${slug}.${hash}.${ext}`);
+};
+
+const readFixture = (path: string, req: GhRequest) =>
+  Effect.tryPromise({
+    try: () => Bun.file(path).text(),
+    catch: () =>
+      new GhTransportError({
+        status: null,
+        message: `No fixture for ${req.method ?? "GET"} ${req.path} (expected ${path})`,
+      }),
+  });
+
+const writeFixture = (path: string, text: string) =>
+  Effect.tryPromise({
+    try: () => Bun.write(path, text),
+    catch: (error) =>
+      new GhTransportError({ status: null, message: `Failed to write ${path}: ${error}` }),
+  });
+
+const parsePages = (text: string, path: string) =>
+  Effect.try({
+    try: (): readonly unknown[] => JSON.parse(text),
+    catch: () => new GhTransportError({ status: null, message: `Invalid fixture ${path}` }),
+  });
+
+// Recorded fixtures never report rate limits, so getRateLimit falls back to the
+// rate_limit endpoint (which can itself be recorded)
+const noRateLimit = (host?: string) =>
+  Effect.succeed({ host: host ?? DEFAULT_GITHUB_HOST, resources: [], throttledUntil: null });
+
+const replay = ({ dir }: FixtureOptions) =>
+  Layer.succeed(GhTransport, {
+    request: (req) => readFixture(fixturePath(dir, req, false), req),
+    requestPages: (req) => {
+      const path = fixturePath(dir, req, true);
+      return readFixture(path, req).pipe(Effect.flatMap((text) => parsePages(text, path)));
+    },
+    rateLimit: noRateLimit,
+  });
+
+const record = ({ dir }: FixtureOptions) =>
+  Layer.effect(
+    GhTransport,
+    Effect.gen(function* () {
+      const live = yield* GhTransport;
+      return {
+        request: (req) =>
+          live
+            .request(req)
+            .pipe(Effect.tap((text) => writeFixture(fixturePath(dir, req, false), text))),
+        requestPages: (req) =>
+          live
+            .requestPages(req)
+            .pipe(
+              Effect.tap((pages) =>
+                writeFixture(fixturePath(dir, req, true), JSON.stringify(pages, null, 2)),
+              ),
+            ),
+        rateLimit: live.rateLimit,
+      };
+    }),
+  ).pipe(Layer.provide(GhTransportLive));
+
+/**
+ * Serve GitHub requests from recorded fixtures, or record them while talking to GitHub.
+ * Replay fails any request without a fixture, so a missing recording is never a network call.
+ */
+export const GhTransportFixtures = (options: FixtureOptions) =>
+  options.mode === "record" ? record(options) : replay(options);
+
+/**
+ * Fixture options from the environment: BETTER_REVIEW_GH_FIXTURES=<dir> replays, and
+ * BETTER_REVIEW_GH_RECORD=1 records into the same directory.
+ */
+export const fixtureOptionsFromEnv = (): FixtureOptions | null => {
+  const dir = process.env.BETTER_REVIEW_GH_FIXTURES;
+  if (!dir) return null;
+  return { dir, mode: process.env.BETTER_REVIEW_GH_RECORD === "1" ? "record" : "replay" };
+};
@@ -0,0 +1,222 @@
+import { describe, expect, test } from "bun:test";
+
+import { Effect, Layer } from "effect";
+
+import { getErrorMessage } from "../response";
+import { GhTransportFixtures, fixtureOptionsFromEnv } from "./fixtures";
+import { GhService, GhServiceLive, GhServiceWithTransport, type SuggestionEdit } from "./gh";
+import { GhTransport, GhTransportError } from "./transport";
+
+const run = <A, E>(f: (gh: GhService["Type"]) => Effect.Effect<A, E>) =>
+  Effect.runPromise(GhService.pipe(Effect.flatMap(f), Effect.provide(GhServiceLive)));
+
+// The message a failed call would show in the UI
+const runError = <A, E>(f: (gh: GhService["Type"]) => Effect.Effect<A, E>) =>
+  run((gh) => f(gh).pipe(Effect.flip, Effect.map(getErrorMessage)));
+
+// PR 8's fixtures are recorded across several Link-header pages (100 items per page)
+const PAGED_PR_URL = "https://github.com/acme/widgets/pull/8";
+
+describe("paginated REST lists", () => {
+  test("listComments concatenates every page", async () => {
+    const comments = await run((gh) => gh.listComments(PAGED_PR_URL));
+    expect(comments).toHaveLength(237);
+    expect(comments.map((c) => c.id)).toEqual(Array.from({ length: 237 }, (_, i) => 10000 + i));
+  });
+
+  test("listIssueComments concatenates every page", async () => {
+    const comments = await run((gh) => gh.listIssueComments(PAGED_PR_URL));
+    expect(comments).toHaveLength(120);
+    expect(comments.at(0)?.body).toBe("Issue comment 0");
+    expect(comments.at(-1)?.body).toBe("Issue comment 119");
+  });
+
+  test("listCommits concatenates every page, in order", async () => {
+    const commits = await run((gh) => gh.listCommits(PAGED_PR_URL));
+    expect(commits).toHaveLength(250);
+    // Each commit's parent is the one before it, so order survives the page boundaries
+    expect(commits.slice(1).map((c) => c.parentSha)).toEqual(
+      commits.slice(0, -1).map((c) => c.sha),
+    );
+    expect(commits.at(-1)?.message).toBe("Commit 250");
+  });
+});
+
+describe("applySuggestions", () => {
+  const PR_URL = "https://github.com/acme/widgets/pull/7";
+  const params = (suggestion: Omit<SuggestionEdit, "filePath">, filePath = "src/my widget.ts") => ({
+    prUrl: PR_URL,
+    suggestions: [{ filePath, ...suggestion }],
+  });
+
+  test("commits the edit when the lines are still what the reviewer saw", async () => {
+    // The PUT fixture is keyed by its body, so it only matches the correctly edited file
+    const commits = await run((gh) =>
+      gh.applySuggestions(
+        params({
+          startLine: 2,
+          endLine: 2,
+          baseLines: ["export const size = 1;"],
+          replacement: "export const size = 2;",
+        }),
+      ),
+    );
+    expect(commits).toEqual(["3333333333333333333333333333333333333333"]);
+  });
+
+  test("refuses to splice when the branch changed under the suggestion", async () => {
+    const error = await runError((gh) =>
+      gh.applySuggestions(
+        params({
+          startLine: 2,
+          endLine: 2,
+          baseLines: ["export const size = 0;"],
+          replacement: "export const size = 2;",
+        }),
+      ),
+    );
+    expect(error).toBe("Suggestion is out of date for src/my widget.ts:2");
+  });
+
+  test("refuses files the contents API returns without content", async () => {
+    const error = await runError((gh) =>
+      gh.applySuggestions(
+        params({ startLine: 1, endLine: 1, baseLines: ["{"], replacement: "[" }, "data/big.json"),
+      ),
+    );
+    expect(error).toBe("data/big.json is too large to apply suggestions to (over 1MB)");
+  });
+});
+
+describe("getCompareDiff", () => {
+  const PR_URL = "https://github.com/acme/widgets/pull/7";
+  const OLD_HEAD = "1111111111111111111111111111111111111111";
+  const REBASED_HEAD = "4444444444444444444444444444444444444444";
+  const HEAD = "2222222222222222222222222222222222222222";
+
+  test("diffs the trees directly when the new head builds on the old one", async () => {
+    const result = await run((gh) =>
+      gh.getCompareDiff({ prUrl: PR_URL, base: OLD_HEAD, head: HEAD }),
+    );
+    expect(result.rebased).toBe(false);
+    expect(result.diff).toStartWith("diff --git a/src/app.ts b/src/app.ts");
+  });
+
+  test("after a rebase, keeps only files whose PR changes differ", async () => {
+    const result = await run((gh) =>
+      gh.getCompareDiff({ prUrl: PR_URL, base: REBASED_HEAD, head: HEAD }),
+    );
+    expect(result.rebased).toBe(true);
+    // src/app.ts has the same PR change at both heads (only its position moved) and
+    // src/server.ts only changed upstream
+    expect(result.diff).toBe(`diff --git a/src/registry.ts b/src/registry.ts
+index 7a1b2c3..5d1e2c3 100644
+--- a/src/registry.ts
++++ b/src/registry.ts
+@@ -7,3 +7,3 @@ export class WidgetRegistry {
+ 
+-  get = (name: string) => this.widgets.get(name) ?? null;
++  get = (name: string) => this.widgets.get(name);
+ }
+`);
+  });
+});
+
+describe("GraphQL reads", () => {
+  const PR_URL = "https://github.com/acme/widgets/pull/7";
+
+  test("getPrCiStatus counts passing check runs and statuses", async () => {
+    const status = await run((gh) => gh.getPrCiStatus(PR_URL));
+    expect(status).toEqual({ passed: 2, total: 3, state: "FAILURE" });
+  });
+
+  // The thread's first page only holds its first comment
+  test("listReviewThreads pages through each thread's comments", async () => {
+    const threads = await run((gh) => gh.listReviewThreads(PR_URL));
+    expect(threads).toEqual([
+      { id: "PRRT_kwDOthread1", isResolved: true, isOutdated: false, commentIds: [9001, 9002] },
+    ]);
+  });
+});
+
+describe("getPrStatus", () => {
+  const PR_URL = "https://github.com/acme/widgets/pull/7";
+
+  // The recorded fixtures, except that GitHub rate limits the check runs
+  const RateLimitedChecks = Layer.effect(
+    GhTransport,
+    Effect.map(GhTransport, (transport) => ({
+      ...transport,
+      requestPages: (req: Parameters<typeof transport.requestPages>[0]) =>
+        req.path.includes("/check-runs")
+          ? Effect.fail(
+              new GhTransportError({ status: 403, message: "rate limited", retryAfter: 60 }),
+            )
+          : transport.requestPages(req),
+    })),
+  ).pipe(Layer.provide(GhTransportFixtures(fixtureOptionsFromEnv()!)));
+
+  test("flags rate limited checks instead of reporting none", async () => {
+    const status = await Effect.runPromise(
+      GhService.pipe(
+        Effect.flatMap((gh) => gh.getPrStatus(PR_URL)),
+        Effect.provide(GhServiceWithTransport.pipe(Layer.provide(RateLimitedChecks))),
+      ),
+    );
+    expect(status.checks).toEqual([]);
+    expect(status.checksRateLimited).toBe(true);
+  });
+});
+
+describe("getPrBatch", () => {
+  // PR 7's batch response has more labels, thread comments and check suites than its
+  // first page holds
+  const PR_URL = "https://github.com/acme/widgets/pull/7";
+
+  test("follows a connection of the pull request past its first page", async () => {
+    const batch = await run((gh) => gh.getPrBatch(PR_URL));
+    expect(batch.status.labels).toEqual([
+      { name: "enhancement", color: "a2eeef" },
+      { name: "needs-docs", color: "0075ca" },
+    ]);
+  });
+
+  test("follows a review thread's comments past their first page", async () => {
+    const batch = await run((gh) => gh.getPrBatch(PR_URL));
+    expect(batch.threads).toEqual([
+      { id: "PRRT_kwDOthread1", isResolved: true, isOutdated: false, commentIds: [9001, 9002] },
+    ]);
+    expect(batch.comments.map((c) => [c.id, c.in_reply_to_id])).toEqual([
+      [9001, undefined],
+      [9002, 9001],
+    ]);
+  });
+
+  test("keeps the viewer's approval as their review after a later comment", async () => {
+    const batch = await run((gh) => gh.getPrBatch(PR_URL));
+    expect(batch.status.myReview).toEqual({ id: 501, state: "APPROVED" });
+  });
+
+  test("lists checks over REST when the head commit has more suites than fit", async () => {
+    const batch = await run((gh) => gh.getPrBatch(PR_URL));
+    expect(batch.status.checks.map((c) => [c.name, c.conclusion])).toEqual([
+      ["build", "success"],
+      ["lint", "failure"],
+    ]);
+  });
+});
+
+describe("searchPrs", () => {
+  const searches = [
+    { id: "inbox", name: "Inbox", query: "is:pr is:open review-requested:@me" },
+    { id: "mine", name: "Mine", query: "is:pr is:open author:@me -review-requested:@me" },
+  ];
+
+  test("only counts review-requested qualifiers that aren't negated", async () => {
+    const { prs } = await run((gh) => gh.searchPrs(searches));
+    expect(prs.map((pr) => [pr.number, pr.matchedSearches, pr.reviewRequested])).toEqual([
+      [9, ["mine"], false],
+      [7, ["inbox"], true],
+    ]);
+  });
+});
@@ -7,29 +7,75 @@ import type {
   PrState,
   PrStatus,
   CheckRun,
+  CheckAnnotation,
+  CheckRunLog,
   ReviewState,
+  ReviewEvent,
+  MyReview,
   CiStatus,
+  CompareDiff,
+  PrSearchResults,
   SearchedPr,
   PRComment,
   PrCommit,
+  ForcePush,
+  ReviewThreadState,
+  RateLimitStatus,
+  SavedSearch,
+  ViewedFile,
+  DiffRefs,
+  BlobInfo,
+  TimelineEvent,
+  MergeBlocker,
+  MergeMethod,
+  MergeState,
+  PrLabel,
+  PrReviewer,
+  ReviewCandidates,
 } from "@better-review/shared";
+import { parsePrUrl } from "@better-review/shared";
+
+import { type FileDiffMeta, parseFullDiff } from "../diff";
+import { type FixtureOptions, GhTransportFixtures, fixtureOptionsFromEnv } from "./fixtures";
+import { type GhRequest, GhTransport, GhTransportError, GhTransportLive } from "./transport";
 
 class GhError extends Data.TaggedError("GhError")<{
   readonly command: string;
   readonly cause: unknown;
 }> {}
 
+/** Whether a GhService failure was GitHub rate limiting us (worth retrying later) */
+export const isRateLimited = (error: GhError) => isRateLimitError(error.cause);
+
+const isRateLimitError = (cause: unknown) =>
+  cause instanceof GhTransportError && cause.retryAfter !== undefined;
+
 // Re-export shared types for convenience
 export type {
   PrInfo,
   PrState,
   PrStatus,
   CheckRun,
+  CheckAnnotation,
+  CheckRunLog,
   ReviewState,
+  ReviewEvent,
+  MyReview,
   CiStatus,
+  CompareDiff,
+  PrSearchResults,
   SearchedPr,
   PRComment,
   PrCommit,
+  ReviewThreadState,
+  ViewedFile,
+  DiffRefs,
+  MergeMethod,
+  MergeState,
+  PrLabel,
+  PrReviewer,
+  ReviewCandidates,
+  TimelineEvent,
 };
 
 // ============================================================================
@@ -53,6 +99,9 @@ const PRCommentSchema = Schema.Struct({
   line: Schema.NullOr(Schema.Number),
   original_line: Schema.NullOr(Schema.Number),
   side: Schema.Literal("LEFT", "RIGHT"),
+  start_line: Schema.optional(Schema.NullOr(Schema.Number)),
+  original_start_line: Schema.optional(Schema.NullOr(Schema.Number)),
+  start_side: Schema.optional(Schema.NullOr(Schema.Literal("LEFT", "RIGHT"))),
   body: Schema.String,
   html_url: Schema.String,
   user: UserSchema,
@@ -80,6 +129,11 @@ export interface AddCommentParams {
   line: number;
   body: string;
   side?: "LEFT" | "RIGHT";
+  /** First line of a multi-line comment; `line` is the last line */
+  startLine?: number;
+  startSide?: "LEFT" | "RIGHT";
+  /** Commit the line numbers refer to (defaults to the PR head) */
+  commitSha?: string;
 }
 
 export interface AddReplyParams {
@@ -99,14 +153,49 @@ export interface DeleteCommentParams {
   commentId: number;
 }
 
-export interface ApprovePrParams {
+/** A review comment submitted as part of a review (same shape as a single comment) */
+export type ReviewCommentParams = Omit<AddCommentParams, "prUrl" | "commitSha">;
+
+export interface SubmitReviewParams {
   prUrl: string;
+  event: ReviewEvent;
   body?: string;
+  comments: readonly ReviewCommentParams[];
+}
+
+export interface ResolveThreadParams {
+  /** Host the thread lives on (GraphQL node ids are per-instance) */
+  host: string;
+  threadId: string;
+  resolved: boolean;
+}
+
+export interface DismissReviewParams {
+  prUrl: string;
+  reviewId: number;
+  message: string;
+}
+
+/** Replace lines startLine..endLine (1-based, inclusive) of a file at the PR head */
+export interface SuggestionEdit {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  /** The lines being replaced, as the reviewer saw them; the edit fails if the file has moved on */
+  baseLines: readonly string[];
+  replacement: string;
+}
+
+export interface ApplySuggestionsParams {
+  prUrl: string;
+  suggestions: readonly SuggestionEdit[];
+  message?: string;
 }
 
 const PrStateSchema = Schema.Literal("open", "closed", "merged");
 
 const CheckRunSchema = Schema.Struct({
+  id: Schema.Number,
   name: Schema.String,
   status: Schema.Literal("queued", "in_progress", "completed", "pending"),
   conclusion: Schema.NullOr(
@@ -120,8 +209,36 @@ const CheckRunSchema = Schema.Struct({
       "action_required",
     ),
   ),
+  detailsUrl: Schema.NullOr(Schema.String),
+  checkSuiteId: Schema.NullOr(Schema.Number),
+  summary: Schema.NullOr(Schema.String),
+});
+
+// GitHub's review states, as both REST and GraphQL spell them
+const ReviewStateLiteralSchema = Schema.Literal(
+  "PENDING",
+  "APPROVED",
+  "CHANGES_REQUESTED",
+  "COMMENTED",
+  "DISMISSED",
+);
+
+const ReviewStateSchema = Schema.NullOr(ReviewStateLiteralSchema);
+
+const MyReviewSchema = Schema.Struct({
+  id: Schema.Number,
+  state: ReviewStateSchema,
 });
 
+const PrReviewerSchema = Schema.Struct({
+  name: Schema.String,
+  isTeam: Schema.Boolean,
+  requested: Schema.Boolean,
+  state: ReviewStateSchema,
+});
+
+const PrLabelSchema = Schema.Struct({ name: Schema.String, color: Schema.String });
+
 const PrStatusSchema = Schema.Struct({
   state: PrStateSchema,
   draft: Schema.Boolean,
@@ -132,12 +249,13 @@ const PrStatusSchema = Schema.Struct({
   url: Schema.String,
   headRef: Schema.String,
   checks: Schema.Array(CheckRunSchema),
+  checksRateLimited: Schema.Boolean,
+  myReview: Schema.NullOr(MyReviewSchema),
+  reviewers: Schema.Array(PrReviewerSchema),
+  assignees: Schema.Array(Schema.String),
+  labels: Schema.Array(PrLabelSchema),
 });
 
-const ReviewStateSchema = Schema.NullOr(
-  Schema.Literal("PENDING", "APPROVED", "CHANGES_REQUESTED", "COMMENTED", "DISMISSED"),
-);
-
 const RepositorySchema = Schema.Struct({
   name: Schema.String,
   nameWithOwner: Schema.String,
@@ -167,23 +285,233 @@ const SearchedPrSchema = Schema.Struct({
   additions: Schema.Number,
   deletions: Schema.Number,
   ciStatus: Schema.NullOr(CiStatusSchema),
+  matchedSearches: Schema.Array(Schema.String),
 });
 
 // ============================================================================
 // Internal API Response Schemas
 // ============================================================================
 
-// Schema for getPrStatus API response (before transformation)
-const PrDataResponseSchema = Schema.Struct({
+// Pull request from the REST API (only the fields we read)
+const RawPullRequestSchema = Schema.Struct({
   state: Schema.String,
   draft: Schema.Boolean,
   mergeable: Schema.NullOr(Schema.Boolean),
   title: Schema.String,
   body: Schema.NullOr(Schema.String),
-  author: Schema.String,
+  user: Schema.Struct({ login: Schema.String }),
   merged: Schema.Boolean,
   html_url: Schema.String,
-  head_ref: Schema.String,
+  base: Schema.Struct({ sha: Schema.String }),
+  // The head repo is null when the fork it lived in was deleted
+  head: Schema.Struct({
+    ref: Schema.String,
+    sha: Schema.String,
+    repo: Schema.NullOr(Schema.Struct({ full_name: Schema.String })),
+  }),
+  requested_reviewers: Schema.Array(Schema.Struct({ login: Schema.String })),
+  requested_teams: Schema.Array(Schema.Struct({ slug: Schema.String })),
+  assignees: Schema.Array(Schema.Struct({ login: Schema.String })),
+  labels: Schema.Array(PrLabelSchema),
+});
+
+// Review from the REST reviews API, with the head commit it was submitted against
+const RawReviewSchema = Schema.Struct({
+  id: Schema.Number,
+  state: ReviewStateLiteralSchema,
+  user: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+  commit_id: Schema.NullOr(Schema.String),
+});
+
+// Check run from the REST checks API; annotations_count says whether annotations are worth fetching
+const RawCheckRunSchema = Schema.Struct({
+  id: Schema.Number,
+  name: Schema.String,
+  status: Schema.String,
+  conclusion: Schema.NullOr(Schema.String),
+  details_url: Schema.NullOr(Schema.String),
+  check_suite: Schema.NullOr(Schema.Struct({ id: Schema.Number })),
+  output: Schema.Struct({
+    summary: Schema.NullOr(Schema.String),
+    annotations_count: Schema.Number,
+  }),
+});
+
+// A page of a commit's check runs, which GitHub wraps with their total count
+const RawCheckRunsPageSchema = Schema.Struct({
+  total_count: Schema.Number,
+  check_runs: Schema.Array(RawCheckRunSchema),
+});
+
+const RawCheckAnnotationSchema = Schema.Struct({
+  path: Schema.String,
+  start_line: Schema.Number,
+  end_line: Schema.Number,
+  annotation_level: Schema.Literal("notice", "warning", "failure"),
+  title: Schema.NullOr(Schema.String),
+  message: Schema.String,
+});
+
+// File from the contents API. Content is base64 encoded up to 1MB; larger files come
+// back with encoding "none" and no content.
+const ContentsFileSchema = Schema.Struct({
+  sha: Schema.String,
+  content: Schema.String,
+  encoding: Schema.String,
+});
+
+// Three-dot compare, for the merge base a PR's diff is taken against
+const CompareMergeBaseSchema = Schema.Struct({
+  merge_base_commit: Schema.Struct({ sha: Schema.String }),
+});
+
+// How head relates to base: "ahead" or "identical" when base is one of head's ancestors
+const CompareStatusSchema = Schema.Struct({
+  status: Schema.Literal("ahead", "behind", "diverged", "identical"),
+});
+
+// Blob metadata from GraphQL. Trees and missing paths come back as empty objects or null.
+const GraphQLBlobSchema = Schema.NullOr(
+  Schema.Union(Schema.Struct({ oid: Schema.String, byteSize: Schema.Number }), Schema.Struct({})),
+);
+
+// Blob from the git data API (content is base64, wrapped at 60 columns)
+const GitBlobSchema = Schema.Struct({ content: Schema.String });
+
+// Result of writing a file through the contents API
+const ContentsCommitSchema = Schema.Struct({
+  commit: Schema.Struct({ sha: Schema.String }),
+});
+
+const LoginSchema = Schema.Struct({ login: Schema.String });
+
+const TeamSchema = Schema.Struct({ slug: Schema.String });
+
+// Cursor state of a GraphQL connection
+const PageInfoSchema = Schema.Struct({
+  hasNextPage: Schema.Boolean,
+  endCursor: Schema.NullOr(Schema.String),
+});
+
+const connectionSchema = <A, I, R>(nodeSchema: Schema.Schema<A, I, R>) =>
+  Schema.Struct({ pageInfo: PageInfoSchema, nodes: Schema.Array(nodeSchema) });
+
+const GraphQLThreadCommentIdSchema = Schema.Struct({ databaseId: Schema.Number });
+
+// Review threads from GraphQL, with the REST ids of their comments for merging
+const GraphQLReviewThreadSchema = Schema.Struct({
+  id: Schema.String,
+  isResolved: Schema.Boolean,
+  isOutdated: Schema.Boolean,
+  comments: connectionSchema(GraphQLThreadCommentIdSchema),
+});
+
+/** A review thread and the REST ids of its comments */
+export interface ReviewThread extends ReviewThreadState {
+  commentIds: readonly number[];
+}
+
+// Changed file with the viewer's "Viewed" checkbox state
+const GraphQLViewedFileSchema = Schema.Struct({
+  path: Schema.String,
+  viewerViewedState: Schema.Literal("VIEWED", "UNVIEWED", "DISMISSED"),
+});
+
+const GraphQLMergeMethodSchema = Schema.Literal("MERGE", "SQUASH", "REBASE");
+
+// Check runs and commit statuses on the head commit, with whether branch protection requires them
+const GraphQLRollupContextSchema = Schema.Union(
+  Schema.Struct({
+    name: Schema.String,
+    status: Schema.String,
+    conclusion: Schema.NullOr(Schema.String),
+    isRequired: Schema.Boolean,
+  }),
+  Schema.Struct({ context: Schema.String, state: Schema.String, isRequired: Schema.Boolean }),
+);
+
+const GraphQLMergeStateSchema = Schema.Struct({
+  repository: Schema.Struct({
+    mergeCommitAllowed: Schema.Boolean,
+    squashMergeAllowed: Schema.Boolean,
+    rebaseMergeAllowed: Schema.Boolean,
+    autoMergeAllowed: Schema.Boolean,
+    deleteBranchOnMerge: Schema.Boolean,
+    viewerDefaultMergeMethod: GraphQLMergeMethodSchema,
+    pullRequest: Schema.Struct({
+      isDraft: Schema.Boolean,
+      mergeable: Schema.Literal("MERGEABLE", "CONFLICTING", "UNKNOWN"),
+      reviewDecision: Schema.NullOr(
+        Schema.Literal("APPROVED", "CHANGES_REQUESTED", "REVIEW_REQUIRED"),
+      ),
+      headRefOid: Schema.String,
+      autoMergeRequest: Schema.NullOr(
+        Schema.Struct({
+          mergeMethod: GraphQLMergeMethodSchema,
+          enabledBy: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+        }),
+      ),
+      mergeHeadline: Schema.String,
+      mergeBody: Schema.String,
+      squashHeadline: Schema.String,
+      squashBody: Schema.String,
+      headCommit: Schema.Struct({
+        nodes: Schema.Array(
+          Schema.Struct({
+            commit: Schema.Struct({
+              statusCheckRollup: Schema.NullOr(
+                Schema.Struct({
+                  contexts: Schema.Struct({ nodes: Schema.Array(GraphQLRollupContextSchema) }),
+                }),
+              ),
+            }),
+          }),
+        ),
+      }),
+    }),
+  }),
+});
+
+// A rollup context is either a commit status or a check run
+const GraphQLCiContextSchema = Schema.Union(
+  Schema.Struct({ __typename: Schema.Literal("StatusContext"), state: Schema.String }),
+  Schema.Struct({
+    __typename: Schema.Literal("CheckRun"),
+    status: Schema.String,
+    conclusion: Schema.NullOr(Schema.String),
+  }),
+);
+
+const GraphQLCiStatusSchema = Schema.Struct({
+  repository: Schema.Struct({
+    pullRequest: Schema.Struct({
+      commits: Schema.Struct({
+        nodes: Schema.Array(
+          Schema.Struct({
+            commit: Schema.Struct({
+              statusCheckRollup: Schema.NullOr(
+                Schema.Struct({
+                  state: Schema.Literal(
+                    "SUCCESS",
+                    "FAILURE",
+                    "PENDING",
+                    "EXPECTED",
+                    "ERROR",
+                    "NEUTRAL",
+                  ),
+                  contexts: Schema.Struct({ nodes: Schema.Array(GraphQLCiContextSchema) }),
+                }),
+              ),
+            }),
+          }),
+        ),
+      }),
+    }),
+  }),
+});
+
+const GraphQLPullRequestIdSchema = Schema.Struct({
+  repository: Schema.Struct({ pullRequest: Schema.Struct({ id: Schema.String }) }),
 });
 
 // Schema for raw commit from listCommits API
@@ -199,12 +527,71 @@ const RawCommitSchema = Schema.Struct({
       avatar_url: Schema.String,
     }),
   ),
+  parents: Schema.Array(Schema.Struct({ sha: Schema.String })),
+});
+
+// Force-push timeline events from GraphQL
+const GraphQLForcePushSchema = Schema.Struct({
+  createdAt: Schema.String,
+  actor: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+  beforeCommit: Schema.NullOr(Schema.Struct({ oid: Schema.String })),
+  afterCommit: Schema.NullOr(Schema.Struct({ oid: Schema.String })),
 });
 
-// Schema for GraphQL PR in searchReviewRequested
+// One node for every timeline item type; each type only fills in its own fields
+const GraphQLTimelineItemSchema = Schema.Struct({
+  __typename: Schema.String,
+  createdAt: Schema.optional(Schema.String),
+  actor: Schema.optional(Schema.NullOr(Schema.Struct({ login: Schema.String }))),
+  // PullRequestCommit
+  commit: Schema.optional(
+    Schema.Struct({
+      oid: Schema.String,
+      messageHeadline: Schema.String,
+      committedDate: Schema.String,
+      author: Schema.NullOr(
+        Schema.Struct({
+          name: Schema.NullOr(Schema.String),
+          user: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+        }),
+      ),
+    }),
+  ),
+  // PullRequestReview
+  databaseId: Schema.optional(Schema.NullOr(Schema.Number)),
+  state: Schema.optional(ReviewStateLiteralSchema),
+  body: Schema.optional(Schema.String),
+  submittedAt: Schema.optional(Schema.NullOr(Schema.String)),
+  url: Schema.optional(Schema.String),
+  author: Schema.optional(Schema.NullOr(Schema.Struct({ login: Schema.String }))),
+  comments: Schema.optional(
+    Schema.Struct({
+      nodes: Schema.Array(Schema.Struct({ databaseId: Schema.NullOr(Schema.Number) })),
+    }),
+  ),
+  // HeadRefForcePushedEvent
+  beforeCommit: Schema.optional(Schema.NullOr(Schema.Struct({ oid: Schema.String }))),
+  afterCommit: Schema.optional(Schema.NullOr(Schema.Struct({ oid: Schema.String }))),
+  // ReviewRequestedEvent and ReviewRequestRemovedEvent (a user's login or a team's slug)
+  requestedReviewer: Schema.optional(
+    Schema.NullOr(
+      Schema.Struct({
+        login: Schema.optional(Schema.String),
+        slug: Schema.optional(Schema.String),
+      }),
+    ),
+  ),
+  // LabeledEvent and UnlabeledEvent
+  label: Schema.optional(Schema.Struct({ name: Schema.String, color: Schema.String })),
+  // MergedEvent
+  mergeCommit: Schema.optional(Schema.NullOr(Schema.Struct({ oid: Schema.String }))),
+  mergeRefName: Schema.optional(Schema.String),
+});
+
+// Schema for GraphQL PR in searchPrs
 const GraphQLReviewSchema = Schema.Struct({
   author: Schema.Struct({ login: Schema.String }),
-  state: Schema.String,
+  state: ReviewStateLiteralSchema,
 });
 
 const GraphQLPrSchema = Schema.Struct({
@@ -223,20 +610,472 @@ const GraphQLPrSchema = Schema.Struct({
   reviews: Schema.Struct({ nodes: Schema.Array(GraphQLReviewSchema) }),
 });
 
-const GraphQLSearchResponseSchema = Schema.Struct({
-  data: Schema.Struct({
-    requested: Schema.Struct({
-      nodes: Schema.Array(Schema.NullOr(GraphQLPrSchema)),
-    }),
-    reviewed: Schema.Struct({
-      nodes: Schema.Array(Schema.NullOr(GraphQLPrSchema)),
+// One page of a search connection (non-PR results come back as empty objects)
+const GraphQLSearchNodeSchema = Schema.Union(GraphQLPrSchema, Schema.Struct({}));
+
+// GitHub's search API stops at 1000 results; an inbox search that big isn't useful anyway
+const MAX_RESULTS_PER_SEARCH = 500;
+
+// Qualifiers that match PRs awaiting a review (direct or through a team). A leading "-"
+// negates a qualifier, so `-review-requested:@me` excludes those PRs instead.
+const REVIEW_REQUESTED_QUALIFIER = /^(user-|team-)?review-requested:/;
+
+const requestsReview = (query: string) =>
+  query.split(/\s+/).some((term) => REVIEW_REQUESTED_QUALIFIER.test(term));
+
+// =============================================================================
+// PR batch (everything the PR page needs except the diff, in one GraphQL query)
+// =============================================================================
+
+const GraphQLActorSchema = Schema.NullOr(
+  Schema.Struct({ login: Schema.String, avatarUrl: Schema.String }),
+);
+
+const GraphQLPageInfoFields = "pageInfo { hasNextPage endCursor }";
+
+const BATCH_THREAD_COMMENT_FRAGMENT = `
+  fragment BatchThreadComment on PullRequestReviewComment {
+    databaseId
+    body
+    url
+    createdAt
+    author { login avatarUrl }
+    replyTo { databaseId }
+  }
+`;
+
+// One fragment per connection of the batch query, keyed by name. GraphQL rejects
+// fragments a query doesn't use, so follow-up queries only include their own.
+const BATCH_FRAGMENTS = {
+  BatchCommit: `
+    fragment BatchCommit on PullRequestCommit {
+      commit {
+        oid
+        message
+        authoredDate
+        author { user { login avatarUrl } }
+        parents(first: 1) { nodes { oid } }
+      }
+    }
+  `,
+  BatchThread: `
+    fragment BatchThread on PullRequestReviewThread {
+      id
+      isResolved
+      isOutdated
+      path
+      line
+      originalLine
+      startLine
+      originalStartLine
+      diffSide
+      startDiffSide
+      comments(first: 100) {
+        ${GraphQLPageInfoFields}
+        nodes { ...BatchThreadComment }
+      }
+    }
+    ${BATCH_THREAD_COMMENT_FRAGMENT}
+  `,
+  BatchIssueComment: `
+    fragment BatchIssueComment on IssueComment {
+      databaseId
+      body
+      url
+      createdAt
+      updatedAt
+      author { login avatarUrl }
+    }
+  `,
+  BatchReviewRequest: `
+    fragment BatchReviewRequest on ReviewRequest {
+      requestedReviewer {
+        ... on User { login }
+        ... on Bot { login }
+        ... on Team { slug }
+      }
+    }
+  `,
+  BatchLatestReview: `
+    fragment BatchLatestReview on PullRequestReview {
+      author { login }
+      state
+    }
+  `,
+  BatchOpinionatedReview: `
+    fragment BatchOpinionatedReview on PullRequestReview {
+      databaseId
+      author { login }
+      state
+    }
+  `,
+  BatchAssignee: `
+    fragment BatchAssignee on User {
+      login
+    }
+  `,
+  BatchLabel: `
+    fragment BatchLabel on Label {
+      name
+      color
+    }
+  `,
+};
+
+type BatchFragment = keyof typeof BATCH_FRAGMENTS;
+
+const GraphQLBatchCommitSchema = Schema.Struct({
+  commit: Schema.Struct({
+    oid: Schema.String,
+    message: Schema.String,
+    authoredDate: Schema.String,
+    author: Schema.NullOr(Schema.Struct({ user: GraphQLActorSchema })),
+    parents: Schema.Struct({ nodes: Schema.Array(Schema.Struct({ oid: Schema.String })) }),
+  }),
+});
+
+const DiffSideSchema = Schema.Literal("LEFT", "RIGHT");
+
+const GraphQLBatchThreadCommentSchema = Schema.Struct({
+  databaseId: Schema.Number,
+  body: Schema.String,
+  url: Schema.String,
+  createdAt: Schema.String,
+  author: GraphQLActorSchema,
+  replyTo: Schema.NullOr(Schema.Struct({ databaseId: Schema.Number })),
+});
+
+const GraphQLBatchThreadSchema = Schema.Struct({
+  id: Schema.String,
+  isResolved: Schema.Boolean,
+  isOutdated: Schema.Boolean,
+  path: Schema.String,
+  line: Schema.NullOr(Schema.Number),
+  originalLine: Schema.NullOr(Schema.Number),
+  startLine: Schema.NullOr(Schema.Number),
+  originalStartLine: Schema.NullOr(Schema.Number),
+  diffSide: DiffSideSchema,
+  startDiffSide: Schema.NullOr(DiffSideSchema),
+  comments: connectionSchema(GraphQLBatchThreadCommentSchema),
+});
+
+const GraphQLBatchIssueCommentSchema = Schema.Struct({
+  databaseId: Schema.Number,
+  body: Schema.String,
+  url: Schema.String,
+  createdAt: Schema.String,
+  updatedAt: Schema.String,
+  author: GraphQLActorSchema,
+});
+
+// Users and bots have a login, teams a slug; mannequins and others have neither
+const GraphQLBatchReviewRequestSchema = Schema.Struct({
+  requestedReviewer: Schema.NullOr(
+    Schema.Struct({
+      login: Schema.optional(Schema.String),
+      slug: Schema.optional(Schema.String),
     }),
-    authored: Schema.Struct({
-      nodes: Schema.Array(Schema.NullOr(GraphQLPrSchema)),
+  ),
+});
+
+const GraphQLBatchLatestReviewSchema = Schema.Struct({
+  author: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+  state: ReviewStateLiteralSchema,
+});
+
+const GraphQLBatchOpinionatedReviewSchema = Schema.Struct({
+  databaseId: Schema.NullOr(Schema.Number),
+  author: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+  state: ReviewStateLiteralSchema,
+});
+
+const GraphQLBatchAssigneeSchema = Schema.Struct({ login: Schema.String });
+
+const GraphQLBatchCheckRunSchema = Schema.Struct({
+  databaseId: Schema.Number,
+  name: Schema.String,
+  status: Schema.String,
+  conclusion: Schema.NullOr(Schema.String),
+  detailsUrl: Schema.NullOr(Schema.String),
+  summary: Schema.NullOr(Schema.String),
+});
+
+const GraphQLBatchSchema = Schema.Struct({
+  viewer: Schema.Struct({ login: Schema.String }),
+  repository: Schema.Struct({
+    pullRequest: Schema.Struct({
+      state: Schema.Literal("OPEN", "CLOSED", "MERGED"),
+      isDraft: Schema.Boolean,
+      mergeable: Schema.Literal("MERGEABLE", "CONFLICTING", "UNKNOWN"),
+      title: Schema.String,
+      body: Schema.String,
+      url: Schema.String,
+      headRefName: Schema.String,
+      author: Schema.NullOr(Schema.Struct({ login: Schema.String })),
+      viewerLatestReview: Schema.NullOr(
+        Schema.Struct({
+          databaseId: Schema.NullOr(Schema.Number),
+          state: ReviewStateLiteralSchema,
+        }),
+      ),
+      reviewRequests: connectionSchema(GraphQLBatchReviewRequestSchema),
+      latestReviews: connectionSchema(GraphQLBatchLatestReviewSchema),
+      // Each user's latest approval or change request, skipping comment-only reviews
+      latestOpinionatedReviews: connectionSchema(GraphQLBatchOpinionatedReviewSchema),
+      assignees: connectionSchema(GraphQLBatchAssigneeSchema),
+      labels: Schema.NullOr(connectionSchema(PrLabelSchema)),
+      commits: connectionSchema(GraphQLBatchCommitSchema),
+      reviewThreads: connectionSchema(GraphQLBatchThreadSchema),
+      comments: connectionSchema(GraphQLBatchIssueCommentSchema),
+      headCommit: Schema.Struct({
+        nodes: Schema.Array(
+          Schema.Struct({
+            commit: Schema.Struct({
+              oid: Schema.String,
+              checkSuites: Schema.NullOr(
+                connectionSchema(
+                  Schema.Struct({
+                    databaseId: Schema.NullOr(Schema.Number),
+                    checkRuns: Schema.NullOr(connectionSchema(GraphQLBatchCheckRunSchema)),
+                  }),
+                ),
+              ),
+            }),
+          }),
+        ),
+      }),
     }),
   }),
 });
 
+// Follow-up query for one connection of the batch once the first page is known
+const batchConnectionQuery = (field: string, fragment: BatchFragment) => `
+  query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        ${field}(first: 100, after: $endCursor) {
+          ${GraphQLPageInfoFields}
+          nodes { ...${fragment} }
+        }
+      }
+    }
+  }
+  ${BATCH_FRAGMENTS[fragment]}
+`;
+
+// Follow-up query for a review thread's comments past the first page
+const threadCommentsQuery = (nodes: string, fragments = "") => `
+  query($id: ID!, $endCursor: String) {
+    node(id: $id) {
+      ... on PullRequestReviewThread {
+        comments(first: 100, after: $endCursor) {
+          ${GraphQLPageInfoFields}
+          nodes { ${nodes} }
+        }
+      }
+    }
+  }
+  ${fragments}
+`;
+
+const toUser = (actor: typeof GraphQLActorSchema.Type) => ({
+  login: actor?.login ?? "ghost",
+  avatar_url: actor?.avatarUrl ?? "",
+});
+
+// GraphQL enums are upper case, and both APIs have a few states older REST versions fold
+// into others
+const toCheckRun = (run: {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  detailsUrl: string | null;
+  checkSuiteId: number | null;
+  summary: string | null;
+}) => {
+  const status = run.status.toLowerCase();
+  const conclusion = run.conclusion?.toLowerCase() ?? null;
+  return Schema.decodeUnknown(CheckRunSchema)({
+    id: run.id,
+    name: run.name,
+    status: ["queued", "in_progress", "completed"].includes(status) ? status : "pending",
+    conclusion:
+      conclusion === "stale"
+        ? "neutral"
+        : conclusion === "startup_failure"
+          ? "failure"
+          : conclusion,
+    detailsUrl: run.detailsUrl,
+    checkSuiteId: run.checkSuiteId,
+    summary: run.summary || null,
+  });
+};
+
+const SIMPLE_TIMELINE_EVENTS: Record<
+  string,
+  "closed" | "reopened" | "ready-for-review" | "converted-to-draft"
+> = {
+  ClosedEvent: "closed",
+  ReopenedEvent: "reopened",
+  ReadyForReviewEvent: "ready-for-review",
+  ConvertToDraftEvent: "converted-to-draft",
+};
+
+// Pending reviews (only ever the viewer's own) haven't happened yet, so they're left out
+const toTimelineEvent = (item: typeof GraphQLTimelineItemSchema.Type): TimelineEvent | null => {
+  const base = { createdAt: item.createdAt ?? "", actor: item.actor?.login ?? null };
+  switch (item.__typename) {
+    case "PullRequestCommit":
+      return item.commit
+        ? {
+            type: "commit",
+            createdAt: item.commit.committedDate,
+            actor: item.commit.author?.user?.login ?? item.commit.author?.name ?? null,
+            sha: item.commit.oid,
+            message: item.commit.messageHeadline,
+          }
+        : null;
+    case "PullRequestReview":
+      if (!item.submittedAt || !item.databaseId || !item.state || item.state === "PENDING") {
+        return null;
+      }
+      return {
+        type: "review",
+        createdAt: item.submittedAt,
+        actor: item.author?.login ?? null,
+        id: item.databaseId,
+        state: item.state,
+        body: item.body ?? "",
+        url: item.url ?? "",
+        commentIds: (item.comments?.nodes ?? []).flatMap((c) => c.databaseId ?? []),
+      };
+    case "HeadRefForcePushedEvent":
+      return {
+        ...base,
+        type: "force-push",
+        beforeSha: item.beforeCommit?.oid ?? null,
+        afterSha: item.afterCommit?.oid ?? null,
+      };
+    case "ReviewRequestedEvent":
+    case "ReviewRequestRemovedEvent": {
+      const reviewer = item.requestedReviewer?.login ?? item.requestedReviewer?.slug;
+      if (!reviewer) return null;
+      return {
+        ...base,
+        type:
+          item.__typename === "ReviewRequestedEvent"
+            ? "review-requested"
+            : "review-request-removed",
+        reviewer,
+        isTeam: !item.requestedReviewer?.login,
+      };
+    }
+    case "LabeledEvent":
+    case "UnlabeledEvent":
+      if (!item.label) return null;
+      return {
+        ...base,
+        type: item.__typename === "LabeledEvent" ? "labeled" : "unlabeled",
+        label: item.label,
+      };
+    case "MergedEvent":
+      return {
+        ...base,
+        type: "merged",
+        sha: item.mergeCommit?.oid ?? null,
+        baseRef: item.mergeRefName ?? "",
+      };
+    default: {
+      const type = SIMPLE_TIMELINE_EVENTS[item.__typename];
+      return type ? { ...base, type } : null;
+    }
+  }
+};
+
+/** Everything the PR page loads besides the diff, shaped like the REST methods return it */
+export interface PrBatch {
+  info: PrInfo;
+  commits: readonly PrCommit[];
+  comments: readonly RawPRComment[];
+  threads: readonly ReviewThread[];
+  issueComments: readonly RawIssueComment[];
+  status: PrStatus;
+  currentUser: string;
+}
+
+export interface SetFileViewedParams {
+  prUrl: string;
+  path: string;
+  viewed: boolean;
+}
+
+export interface GetFileContentsParams {
+  host: string;
+  owner: string;
+  repo: string;
+  path: string;
+  /** Commit SHA (or any ref) to read the file at */
+  ref: string;
+}
+
+export interface GetBlobsParams {
+  host: string;
+  owner: string;
+  repo: string;
+  /** Paths at commits; each resolves to a blob, or null if there's no file there */
+  specs: readonly { ref: string; path: string }[];
+}
+
+export interface GetBlobContentParams {
+  host: string;
+  owner: string;
+  repo: string;
+  oid: string;
+}
+
+export interface BinaryFileSpec {
+  path: string;
+  /** Path on the base side, if the file was renamed or copied */
+  oldPath: string | null;
+}
+
+export interface MergePrParams {
+  prUrl: string;
+  method: MergeMethod;
+  title?: string;
+  body?: string;
+  /** Head commit the merge must match, so commits pushed since loading aren't merged unseen */
+  sha?: string;
+  deleteBranch?: boolean;
+}
+
+export interface SetAutoMergeParams {
+  prUrl: string;
+  enabled: boolean;
+  method?: MergeMethod;
+  title?: string;
+  body?: string;
+}
+
+export interface UpdatePullRequestParams {
+  prUrl: string;
+  title?: string;
+  body?: string;
+}
+
+export interface ReviewersParams {
+  prUrl: string;
+  users: readonly string[];
+  /** Team slugs */
+  teams: readonly string[];
+}
+
+export interface CodeOwnersFile {
+  path: string;
+  content: string;
+}
+
 export interface AddIssueCommentParams {
   prUrl: string;
   body: string;
@@ -258,17 +1097,73 @@ interface GhCli {
   editIssueComment: (params: EditCommentParams) => Effect.Effect<RawIssueComment, GhError, never>;
   deleteComment: (params: DeleteCommentParams) => Effect.Effect<void, GhError, never>;
   deleteIssueComment: (params: DeleteCommentParams) => Effect.Effect<void, GhError, never>;
-  getCurrentUser: () => Effect.Effect<string, GhError, never>;
-  approvePr: (params: ApprovePrParams) => Effect.Effect<void, GhError, never>;
-  searchReviewRequested: () => Effect.Effect<readonly SearchedPr[], GhError, never>;
+  getCurrentUser: (host?: string) => Effect.Effect<string, GhError, never>;
+  listReviewThreads: (prUrl: string) => Effect.Effect<readonly ReviewThread[], GhError, never>;
+  resolveThread: (params: ResolveThreadParams) => Effect.Effect<void, GhError, never>;
+  listViewedFiles: (prUrl: string) => Effect.Effect<readonly ViewedFile[], GhError, never>;
+  setFileViewed: (params: SetFileViewedParams) => Effect.Effect<void, GhError, never>;
+  submitReview: (params: SubmitReviewParams) => Effect.Effect<void, GhError, never>;
+  dismissReview: (params: DismissReviewParams) => Effect.Effect<void, GhError, never>;
+  applySuggestions: (
+    params: ApplySuggestionsParams,
+  ) => Effect.Effect<readonly string[], GhError, never>;
+  searchPrs: (
+    searches: readonly SavedSearch[],
+    host?: string,
+  ) => Effect.Effect<PrSearchResults, GhError, never>;
   listCommits: (prUrl: string) => Effect.Effect<readonly PrCommit[], GhError, never>;
+  listForcePushes: (prUrl: string) => Effect.Effect<readonly ForcePush[], GhError, never>;
   getCommitDiff: (params: {
+    host: string;
     owner: string;
     repo: string;
     sha: string;
   }) => Effect.Effect<string, GhError, never>;
+  getCompareDiff: (params: {
+    prUrl: string;
+    base: string;
+    head: string;
+  }) => Effect.Effect<CompareDiff, GhError, never>;
+  getLastReviewedSha: (prUrl: string) => Effect.Effect<string | null, GhError, never>;
   getPrCiStatus: (prUrl: string) => Effect.Effect<CiStatus | null, GhError, never>;
   getHeadSha: (prUrl: string) => Effect.Effect<string, GhError, never>;
+  getDiffRefs: (prUrl: string) => Effect.Effect<DiffRefs, GhError, never>;
+  getFileContents: (params: GetFileContentsParams) => Effect.Effect<string | null, GhError, never>;
+  getMergeState: (prUrl: string) => Effect.Effect<MergeState, GhError, never>;
+  getTimeline: (prUrl: string) => Effect.Effect<TimelineEvent[], GhError, never>;
+  mergePr: (params: MergePrParams) => Effect.Effect<{ branchDeleted: boolean }, GhError, never>;
+  setAutoMerge: (params: SetAutoMergeParams) => Effect.Effect<void, GhError, never>;
+  getCheckAnnotations: (prUrl: string) => Effect.Effect<CheckAnnotation[], GhError, never>;
+  getCheckRunLog: (
+    prUrl: string,
+    checkRunId: number,
+  ) => Effect.Effect<CheckRunLog | null, GhError, never>;
+  rerunCheckSuite: (prUrl: string, checkSuiteId: number) => Effect.Effect<void, GhError, never>;
+  setDraft: (prUrl: string, draft: boolean) => Effect.Effect<void, GhError, never>;
+  updatePullRequest: (params: UpdatePullRequestParams) => Effect.Effect<void, GhError, never>;
+  requestReviewers: (params: ReviewersParams) => Effect.Effect<void, GhError, never>;
+  removeReviewers: (params: ReviewersParams) => Effect.Effect<void, GhError, never>;
+  setAssignees: (
+    prUrl: string,
+    assignees: readonly string[],
+  ) => Effect.Effect<void, GhError, never>;
+  setLabels: (prUrl: string, labels: readonly string[]) => Effect.Effect<void, GhError, never>;
+  listReviewCandidates: (prUrl: string) => Effect.Effect<ReviewCandidates, GhError, never>;
+  listLabels: (prUrl: string) => Effect.Effect<readonly PrLabel[], GhError, never>;
+  getCodeOwnersFile: (prUrl: string) => Effect.Effect<CodeOwnersFile | null, GhError, never>;
+  getViewerOwnerHandles: (prUrl: string) => Effect.Effect<readonly string[], GhError, never>;
+  getBlobs: (params: GetBlobsParams) => Effect.Effect<readonly (BlobInfo | null)[], GhError, never>;
+  getBlobContent: (params: GetBlobContentParams) => Effect.Effect<string, GhError, never>;
+  getBinaryFileBlobs: (
+    prUrl: string,
+    files: readonly BinaryFileSpec[],
+  ) => Effect.Effect<
+    ReadonlyMap<string, { old: BlobInfo | null; new: BlobInfo | null }>,
+    GhError,
+    never
+  >;
+  getPrBatch: (prUrl: string) => Effect.Effect<PrBatch, GhError, never>;
+  getRateLimit: (host?: string) => Effect.Effect<RateLimitStatus, GhError, never>;
 }
 
 export class GhService extends Context.Tag("GHService")<GhService, GhCli>() {}
@@ -290,517 +1185,1244 @@ const validatePrUrl = (url: string): Effect.Effect<void, GhError> => {
   );
 };
 
-// Parse PR URL or get repo info from gh CLI
-const getPrInfo = (urlOrNumber: string) =>
-  Effect.gen(function* () {
-    yield* validatePrUrl(urlOrNumber);
+// Pick a user's latest review from a chronologically ordered list
+const findLatestReview = <R extends { state: string }>(
+  reviews: readonly R[],
+  login: string,
+  getLogin: (review: R) => string | null,
+): R | null => {
+  const mine = reviews.filter((r) => getLogin(r) === login);
+  return mine.length > 0 ? mine[mine.length - 1] : null;
+};
 
-    // If it's a full URL, parse it
-    const urlMatch = urlOrNumber.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-    if (urlMatch) {
-      return { owner: urlMatch[1], repo: urlMatch[2], number: urlMatch[3] };
+const isStandingReview = (review: { state: string }) =>
+  review.state === "APPROVED" || review.state === "CHANGES_REQUESTED";
+
+// The review that counts as a user's: an approval or change request stays in force through
+// later comments (and is what can be dismissed), so it wins over a newer review of another kind
+const findMyReview = <R extends { state: string }>(
+  reviews: readonly R[],
+  login: string,
+  getLogin: (review: R) => string | null,
+): R | null =>
+  reviews.findLast((r) => getLogin(r) === login && isStandingReview(r)) ??
+  findLatestReview(reviews, login, getLogin);
+
+// Requested reviewers first, then everyone else who reviewed, each with their latest review.
+// Requesting a review again clears nothing, so a reviewer can be both requested and reviewed.
+const toReviewers = (
+  requestedUsers: readonly string[],
+  requestedTeams: readonly string[],
+  reviews: readonly { login: string; state: ReviewState }[],
+): PrReviewer[] => {
+  const latest = new Map<string, ReviewState>();
+  for (const review of reviews) {
+    // Pending reviews are drafts nobody else can see yet
+    if (review.state === "PENDING") continue;
+    // A comment doesn't take back an approval or change request (see findMyReview)
+    const current = latest.get(review.login);
+    if (review.state === "COMMENTED" && current && isStandingReview({ state: current })) continue;
+    latest.set(review.login, review.state);
+  }
+  const requested = new Set(requestedUsers);
+  return [
+    ...requestedUsers.map((name) => ({
+      name,
+      isTeam: false,
+      requested: true,
+      state: latest.get(name) ?? null,
+    })),
+    ...requestedTeams.map((name) => ({ name, isTeam: true, requested: true, state: null })),
+    ...[...latest]
+      .filter(([name]) => !requested.has(name))
+      .map(([name, state]) => ({ name, isTeam: false, requested: false, state })),
+  ];
+};
+
+// GitHub rejects start_line unless it precedes line, so single-line ranges omit it
+const toCommentRange = (c: ReviewCommentParams) => {
+  const side = c.side ?? "RIGHT";
+  if (c.startLine === undefined || c.startLine >= c.line) return { line: c.line, side };
+  return { start_line: c.startLine, start_side: c.startSide ?? side, line: c.line, side };
+};
+
+// Apply suggestions to file content bottom-up so earlier line numbers stay valid
+const applySuggestionEdits = (content: string, edits: readonly SuggestionEdit[]) => {
+  const lines = content.split("\n");
+  const sorted = [...edits].sort((a, b) => b.startLine - a.startLine);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].endLine >= sorted[i - 1].startLine) {
+      return Effect.fail(`Overlapping suggestions in ${edits[0].filePath}`);
+    }
+  }
+  for (const edit of sorted) {
+    // The branch may have moved since the diff was loaded; never splice over other lines
+    const current = lines.slice(edit.startLine - 1, edit.endLine).map((l) => l.replace(/\r$/, ""));
+    if (
+      edit.endLine > lines.length ||
+      current.length !== edit.baseLines.length ||
+      current.some((line, i) => line !== edit.baseLines[i])
+    ) {
+      return Effect.fail(`Suggestion is out of date for ${edit.filePath}:${edit.endLine}`);
     }
+    const replacement = edit.replacement === "" ? [] : edit.replacement.split("\n");
+    lines.splice(edit.startLine - 1, edit.endLine - edit.startLine + 1, ...replacement);
+  }
+  return Effect.succeed(lines.join("\n"));
+};
 
-    // Otherwise, use gh to get the repo info from the current directory
-    const repoCmd = Command.make(
-      "gh",
-      "repo",
-      "view",
-      "--json",
-      "owner,name",
-      "--jq",
-      '.owner.login + "/" + .name',
-    );
-    const repoInfo = (yield* Command.string(repoCmd)).trim();
-    const [owner, repo] = repoInfo.split("/");
+// What a file's diff changes: its added and removed lines, without the positions, context
+// lines and blob hashes that shift when the same change is rebased onto a different base
+const prChangeKey = (meta: FileDiffMeta) => {
+  const lines = meta.diff.split("\n");
+  if (meta.binary) return lines.find((line) => line.startsWith("index ")) ?? meta.diff;
+  const firstHunk = lines.findIndex((line) => line.startsWith("@@"));
+  return firstHunk === -1
+    ? lines.filter((line) => !line.startsWith("index ")).join("\n")
+    : lines
+        .slice(firstHunk)
+        .filter((line) => /^[-+@]/.test(line))
+        .map((line) => (line.startsWith("@@") ? "@@" : line))
+        .join("\n");
+};
 
-    return { owner, repo, number: urlOrNumber };
-  }).pipe(Effect.provide(BunContext.layer));
+// Make a request and decode its JSON body
+const api = <A, I, R>(schema: Schema.Schema<A, I, R>, req: GhRequest) =>
+  GhTransport.pipe(
+    Effect.flatMap((transport) => transport.request(req)),
+    Effect.flatMap(parseJsonPreserve(schema)),
+  );
 
-export const GhServiceLive = Layer.succeed(GhService, {
-  getPrInfo: (urlOrNumber: string) =>
-    getPrInfo(urlOrNumber).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getPrInfo", cause })),
-      Effect.withSpan("GhService.getPrInfo", { attributes: { urlOrNumber } }),
-    ),
+// Make a request whose response body doesn't matter
+const apiVoid = (req: GhRequest) =>
+  GhTransport.pipe(Effect.flatMap((transport) => transport.request(req)));
+
+// Follow REST pagination and join the items from every page
+const fetchAllPages = <A, I, R>(itemSchema: Schema.Schema<A, I, R>, req: GhRequest) =>
+  fetchAllWrappedPages(Schema.Array(itemSchema), req, (items) => items);
+
+// Same, for endpoints that wrap their list in an object: each page is decoded with
+// `pageSchema` and `select` picks the list out of it
+const fetchAllWrappedPages = <P, I, R, A>(
+  pageSchema: Schema.Schema<P, I, R>,
+  req: GhRequest,
+  select: (page: P) => readonly A[],
+) =>
+  Effect.gen(function* () {
+    const transport = yield* GhTransport;
+    const pages = yield* transport.requestPages(req);
+    const decoded = yield* Schema.decodeUnknown(Schema.Array(pageSchema), {
+      onExcessProperty: "preserve",
+    })(pages);
+    return decoded.flatMap(select);
+  });
 
-  getDiff: (urlOrNumber: string) =>
-    Effect.gen(function* () {
-      yield* validatePrUrl(urlOrNumber);
-      const cmd = Command.make("gh", "pr", "diff", urlOrNumber);
-      return yield* Command.string(cmd);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getDiff", cause })),
-      Effect.withSpan("GhService.getDiff", { attributes: { urlOrNumber } }),
-      Effect.provide(BunContext.layer),
-    ),
+const GraphQLErrorsSchema = Schema.Struct({
+  errors: Schema.optional(Schema.Array(Schema.Struct({ message: Schema.String }))),
+});
 
-  getPrStatus: (urlOrNumber: string) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(urlOrNumber);
-
-      // Get PR details
-      const prCmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/pulls/${number}`,
-        "--jq",
-        "{ state, draft, mergeable, title, body, author: .user.login, merged: .merged, html_url, head_ref: .head.ref }",
-      );
-      const prResult = (yield* Command.string(prCmd)).trim();
-      if (!prResult) {
-        return yield* Effect.fail(new GhError({ command: "getPrStatus", cause: "PR not found" }));
-      }
-      const prData = yield* parseJsonPreserve(PrDataResponseSchema)(prResult);
-
-      // Get check runs for the PR's head commit
-      const checksCmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/commits/${yield* Effect.tryPromise(() =>
-          Bun.$`gh api repos/${owner}/${repo}/pulls/${number} --jq '.head.sha'`
-            .text()
-            .then((s) => s.trim()),
-        )}/check-runs`,
-        "--jq",
-        ".check_runs | map({ name, status, conclusion })",
-      );
-      const checksResult = yield* Command.string(checksCmd).pipe(
-        Effect.catchAll(() => Effect.succeed("[]")),
-      );
-      const checks = yield* parseJsonPreserve(Schema.Array(CheckRunSchema))(checksResult);
-
-      // Determine actual state (open/closed/merged)
-      const state = prData.merged ? "merged" : prData.state;
-
-      return yield* Schema.decodeUnknown(PrStatusSchema)({
-        state,
-        draft: prData.draft,
-        mergeable: prData.mergeable,
-        title: prData.title,
-        body: prData.body ?? "",
-        author: prData.author,
-        url: prData.html_url,
-        headRef: prData.head_ref,
-        checks,
-      });
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getPrStatus", cause })),
-      Effect.withSpan("GhService.getPrStatus", { attributes: { urlOrNumber } }),
-      Effect.provide(BunContext.layer),
-    ),
+// Run a GraphQL query and decode its data. GraphQL reports failures (e.g. missing
+// permissions) in the response body with a 200 status, so those are failed here.
+const graphql = <A, I, R>(
+  dataSchema: Schema.Schema<A, I, R>,
+  host: string | undefined,
+  query: string,
+  variables: Record<string, unknown> = {},
+) =>
+  Effect.gen(function* () {
+    const transport = yield* GhTransport;
+    const text = yield* transport.request({
+      host,
+      method: "POST",
+      path: "graphql",
+      body: { query, variables },
+    });
+    const { errors } = yield* parseJsonPreserve(GraphQLErrorsSchema)(text);
+    if (errors?.length) {
+      return yield* Effect.fail(errors[0].message);
+    }
+    const { data } = yield* parseJsonPreserve(Schema.Struct({ data: dataSchema }))(text);
+    return data;
+  });
 
-  listComments: (urlOrNumber: string) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(urlOrNumber);
-      const cmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/pulls/${number}/comments`,
-        "--jq",
-        ".",
-      );
-      const result = (yield* Command.string(cmd)).trim();
-      if (!result) return [];
-      return yield* parseJsonPreserve(Schema.Array(PRCommentSchema))(result);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getComments", cause })),
-      Effect.withSpan("GhService.getComments", { attributes: { urlOrNumber } }),
-      Effect.provide(BunContext.layer),
-    ),
+// Follow a GraphQL connection through `$endCursor` and join the nodes of every page.
+// `connection` locates the paginated connection inside the query's decoded data;
+// `after` resumes a connection whose first page was already fetched elsewhere.
+const graphqlPages = <A, D, I, R>(
+  dataSchema: Schema.Schema<D, I, R>,
+  connection: (data: D) => { pageInfo: typeof PageInfoSchema.Type; nodes: readonly A[] },
+  host: string,
+  query: string,
+  variables: Record<string, unknown>,
+  after: string | null = null,
+) =>
+  Effect.gen(function* () {
+    const nodes: A[] = [];
+    let endCursor = after;
+    do {
+      const data = yield* graphql(dataSchema, host, query, { ...variables, endCursor });
+      const page = connection(data);
+      nodes.push(...page.nodes);
+      endCursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (endCursor);
+    return nodes;
+  });
 
-  listIssueComments: (urlOrNumber: string) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(urlOrNumber);
-      // PRs are issues in GitHub's API, so we use the issues endpoint for top-level comments
-      const cmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/issues/${number}/comments`,
-        "--jq",
-        ".",
-      );
-      const result = (yield* Command.string(cmd)).trim();
-      if (!result) return [];
-      return yield* parseJsonPreserve(Schema.Array(IssueCommentSchema))(result);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getIssueComments", cause })),
-      Effect.withSpan("GhService.getIssueComments", {
-        attributes: { urlOrNumber },
+// Pages through `field`, a connection on the pull request a query selects
+const pullRequestPages = <A, I, R>(
+  nodeSchema: Schema.Schema<A, I, R>,
+  field: string,
+  host: string,
+  query: string,
+  variables: Record<string, unknown>,
+  after: string | null = null,
+) =>
+  graphqlPages(
+    Schema.Struct({
+      repository: Schema.Struct({
+        pullRequest: Schema.Struct({ [field]: connectionSchema(nodeSchema) }),
       }),
-      Effect.provide(BunContext.layer),
-    ),
+    }),
+    (data) => data.repository.pullRequest[field],
+    host,
+    query,
+    variables,
+    after,
+  );
 
-  addIssueComment: (params: AddIssueCommentParams) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(params.prUrl);
+// Every comment of a review thread; long discussions spill past the first page
+const threadComments = <A, I, R>(
+  nodeSchema: Schema.Schema<A, I, R>,
+  host: string,
+  query: string,
+  thread: { id: string; comments: { pageInfo: typeof PageInfoSchema.Type; nodes: readonly A[] } },
+) =>
+  thread.comments.pageInfo.hasNextPage
+    ? graphqlPages(
+        Schema.Struct({ node: Schema.Struct({ comments: connectionSchema(nodeSchema) }) }),
+        (data) => data.node.comments,
+        host,
+        query,
+        { id: thread.id },
+        thread.comments.pageInfo.endCursor,
+      ).pipe(Effect.map((more) => [...thread.comments.nodes, ...more]))
+    : Effect.succeed(thread.comments.nodes);
 
-      const payload = JSON.stringify({ body: params.body });
+// Parse PR URL or get repo info from gh CLI
+const getPrInfo = (urlOrNumber: string) =>
+  Effect.gen(function* () {
+    yield* validatePrUrl(urlOrNumber);
 
-      // Use the issues endpoint for top-level PR comments
-      const result = yield* Effect.tryPromise(() =>
-        Bun.$`echo ${payload} | gh api repos/${owner}/${repo}/issues/${number}/comments -X POST -H "Accept: application/vnd.github+json" --input -`.text(),
-      );
-      return yield* parseJsonPreserve(IssueCommentSchema)(result);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "addIssueComment", cause })),
-      Effect.withSpan("GhService.addIssueComment", {
-        attributes: {
-          prUrl: params.prUrl,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+    // If it's a full URL, parse it
+    const parsed = parsePrUrl(urlOrNumber);
+    if (parsed) {
+      return parsed;
+    }
 
-  addComment: (params: AddCommentParams) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(params.prUrl);
-
-      // Get the HEAD commit SHA
-      const shaCmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/pulls/${number}`,
-        "--jq",
-        ".head.sha",
-      );
-      const commitSha = (yield* Command.string(shaCmd)).trim();
-
-      // Create the comment using raw JSON body
-      const payload = JSON.stringify({
-        body: params.body,
-        commit_id: commitSha,
-        path: params.filePath,
-        line: params.line,
-        side: params.side ?? "RIGHT",
-      });
-
-      // Use Bun shell directly for easier stdin handling
-      const result = yield* Effect.tryPromise(() =>
-        Bun.$`echo ${payload} | gh api repos/${owner}/${repo}/pulls/${number}/comments -X POST -H "Accept: application/vnd.github+json" --input -`.text(),
-      );
-      return yield* parseJsonPreserve(PRCommentSchema)(result);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "addComment", cause })),
-      Effect.withSpan("GhService.addComment", {
-        attributes: {
-          prUrl: params.prUrl,
-          filePath: params.filePath,
-          line: params.line,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+    // Otherwise, use gh to get the repo info from the current directory
+    const repoCmd = Command.make("gh", "repo", "view", "--json", "url", "--jq", ".url");
+    const repoUrl = (yield* Command.string(repoCmd)).trim();
+    const { host, pathname } = new URL(repoUrl);
+    const [owner, repo] = pathname.split("/").filter(Boolean);
 
-  replyToComment: (params: AddReplyParams) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(params.prUrl);
+    return { host, owner, repo, number: urlOrNumber };
+  }).pipe(Effect.provide(BunContext.layer));
 
-      const payload = JSON.stringify({ body: params.body });
+// Quota for one resource from the rate_limit endpoint
+const RateLimitResourceSchema = Schema.Struct({
+  limit: Schema.Number,
+  remaining: Schema.Number,
+  reset: Schema.Number,
+});
 
-      // Use the dedicated reply endpoint
-      const result = yield* Effect.tryPromise(() =>
-        Bun.$`echo ${payload} | gh api repos/${owner}/${repo}/pulls/${number}/comments/${params.commentId}/replies -X POST -H "Accept: application/vnd.github+json" --input -`.text(),
-      );
-      return yield* parseJsonPreserve(PRCommentSchema)(result);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "replyToComment", cause })),
-      Effect.withSpan("GhService.replyToComment", {
-        attributes: {
-          prUrl: params.prUrl,
-          commentId: params.commentId,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+const RateLimitResponseSchema = Schema.Struct({
+  resources: Schema.Record({ key: Schema.String, value: RateLimitResourceSchema }),
+});
 
-  editComment: (params: EditCommentParams) =>
-    Effect.gen(function* () {
-      const { owner, repo } = yield* getPrInfo(params.prUrl);
+// Resources shown to the user; the rest (code scanning, SCIM, ...) aren't used here
+const RATE_LIMIT_RESOURCES = ["core", "graphql", "search"];
+
+// Current user on a host (reviews and comments are matched against it)
+const getLogin = (host: string | undefined) =>
+  api(LoginSchema, { host, path: "user" }).pipe(Effect.map((user) => user.login));
+
+const getPullRequest = ({ host, owner, repo, number }: PrInfo) =>
+  api(RawPullRequestSchema, { host, path: `repos/${owner}/${repo}/pulls/${number}` });
+
+// GraphQL mutations take the PR's node id rather than owner/repo/number
+const getPullRequestId = ({ host, owner, repo, number }: PrInfo) =>
+  graphql(
+    GraphQLPullRequestIdSchema,
+    host,
+    `
+    query($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) { id }
+      }
+    }
+  `,
+    { owner, repo, number: Number(number) },
+  ).pipe(Effect.map((data) => data.repository.pullRequest.id));
+
+const MERGE_METHODS: Record<typeof GraphQLMergeMethodSchema.Type, MergeMethod> = {
+  MERGE: "merge",
+  SQUASH: "squash",
+  REBASE: "rebase",
+};
 
-      // Use gh api with field flag for the body
-      const result = yield* Effect.tryPromise(() =>
-        Bun.$`gh api repos/${owner}/${repo}/pulls/comments/${params.commentId} -X PATCH -f body=${params.body}`.text(),
-      );
-      return yield* parseJsonPreserve(PRCommentSchema)(result);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "editComment", cause })),
-      Effect.withSpan("GhService.editComment", {
-        attributes: {
-          prUrl: params.prUrl,
-          commentId: params.commentId,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+const toMergeMethod = (method: typeof GraphQLMergeMethodSchema.Type) => MERGE_METHODS[method];
 
-  deleteComment: (params: DeleteCommentParams) =>
-    Effect.gen(function* () {
-      const { owner, repo } = yield* getPrInfo(params.prUrl);
+// What keeps a PR from merging. Only required checks block; GitHub doesn't say which
+// required checks haven't reported yet, so those can't be listed.
+const getMergeBlockers = (
+  pr: typeof GraphQLMergeStateSchema.Type.repository.pullRequest,
+): MergeBlocker[] => {
+  const blockers: MergeBlocker[] = [];
+  if (pr.isDraft) {
+    blockers.push({ kind: "draft", message: "Draft pull requests can't be merged" });
+  }
+  if (pr.mergeable === "CONFLICTING") {
+    blockers.push({ kind: "conflicts", message: "Merge conflicts must be resolved" });
+  }
+  if (pr.reviewDecision === "REVIEW_REQUIRED") {
+    blockers.push({ kind: "review-required", message: "An approving review is required" });
+  } else if (pr.reviewDecision === "CHANGES_REQUESTED") {
+    blockers.push({ kind: "changes-requested", message: "Changes were requested" });
+  }
 
-      yield* Effect.tryPromise(() =>
-        Bun.$`gh api repos/${owner}/${repo}/pulls/comments/${params.commentId} -X DELETE`.text(),
-      );
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "deleteComment", cause })),
-      Effect.withSpan("GhService.deleteComment", {
-        attributes: {
-          prUrl: params.prUrl,
-          commentId: params.commentId,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+  const contexts = pr.headCommit.nodes[0]?.commit.statusCheckRollup?.contexts.nodes ?? [];
+  const failing: string[] = [];
+  const pending: string[] = [];
+  for (const c of contexts.filter((c) => c.isRequired)) {
+    if ("context" in c) {
+      if (c.state === "ERROR" || c.state === "FAILURE") failing.push(c.context);
+      else if (c.state !== "SUCCESS") pending.push(c.context);
+    } else if (c.status !== "COMPLETED") {
+      pending.push(c.name);
+    } else if (!["SUCCESS", "NEUTRAL", "SKIPPED"].includes(c.conclusion ?? "")) {
+      failing.push(c.name);
+    }
+  }
+  if (failing.length > 0) {
+    blockers.push({
+      kind: "failing-checks",
+      message: `Required checks failing: ${failing.join(", ")}`,
+    });
+  }
+  if (pending.length > 0) {
+    blockers.push({
+      kind: "pending-checks",
+      message: `Required checks pending: ${pending.join(", ")}`,
+    });
+  }
+  return blockers;
+};
 
-  editIssueComment: (params: EditCommentParams) =>
-    Effect.gen(function* () {
-      const { owner, repo } = yield* getPrInfo(params.prUrl);
+// Commits the PR diff compares. It's three-dot, so its old side is the merge base rather
+// than the base branch's tip. per_page=1 keeps the commit and file lists out of the response.
+const getDiffRefs = (info: PrInfo) =>
+  Effect.gen(function* () {
+    const { host, owner, repo } = info;
+    const pr = yield* getPullRequest(info);
+    const compare = yield* api(CompareMergeBaseSchema, {
+      host,
+      path: `repos/${owner}/${repo}/compare/${pr.base.sha}...${pr.head.sha}?per_page=1`,
+    });
+    return { base: compare.merge_base_commit.sha, head: pr.head.sha };
+  });
 
-      // Issue comments use a different endpoint than PR review comments
-      const result = yield* Effect.tryPromise(() =>
-        Bun.$`gh api repos/${owner}/${repo}/issues/comments/${params.commentId} -X PATCH -f body=${params.body}`.text(),
-      );
-      return yield* parseJsonPreserve(IssueCommentSchema)(result);
+// Repository paths go into URLs segment by segment, keeping their slashes
+const encodePath = (path: string) => path.split("/").map(encodeURIComponent).join("/");
+
+// A file's raw contents at a commit, or null if there's no file at that path
+const getFileContents = (params: GetFileContentsParams) =>
+  Effect.gen(function* () {
+    const { host, owner, repo, ref } = params;
+    const path = encodePath(params.path);
+    return yield* apiVoid({
+      host,
+      path: `repos/${owner}/${repo}/contents/${path}?ref=${encodeURIComponent(ref)}`,
+      accept: "application/vnd.github.raw",
     }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "editIssueComment", cause })),
-      Effect.withSpan("GhService.editIssueComment", {
-        attributes: {
-          prUrl: params.prUrl,
-          commentId: params.commentId,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+      Effect.catchIf(
+        (error) => error instanceof GhTransportError && error.status === 404,
+        () => Effect.succeed(null),
+      ),
+    );
+  });
 
-  deleteIssueComment: (params: DeleteCommentParams) =>
-    Effect.gen(function* () {
-      const { owner, repo } = yield* getPrInfo(params.prUrl);
+const getCheckRuns = (info: PrInfo, sha: string) =>
+  fetchAllWrappedPages(
+    RawCheckRunsPageSchema,
+    {
+      host: info.host,
+      path: `repos/${info.owner}/${info.repo}/commits/${sha}/check-runs?per_page=100`,
+    },
+    (page) => page.check_runs,
+  );
 
-      yield* Effect.tryPromise(() =>
-        Bun.$`gh api repos/${owner}/${repo}/issues/comments/${params.commentId} -X DELETE`.text(),
-      );
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "deleteIssueComment", cause })),
-      Effect.withSpan("GhService.deleteIssueComment", {
-        attributes: {
-          prUrl: params.prUrl,
-          commentId: params.commentId,
-        },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+const fromRawCheckRun = (run: typeof RawCheckRunSchema.Type) => ({
+  id: run.id,
+  name: run.name,
+  status: run.status,
+  conclusion: run.conclusion,
+  detailsUrl: run.details_url,
+  checkSuiteId: run.check_suite?.id ?? null,
+  summary: run.output.summary,
+});
 
-  getCurrentUser: () =>
-    Effect.gen(function* () {
-      const cmd = Command.make("gh", "api", "user", "--jq", ".login");
-      return (yield* Command.string(cmd)).trim();
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getCurrentUser", cause })),
-      Effect.withSpan("GhService.getCurrentUser"),
-      Effect.provide(BunContext.layer),
-    ),
+// A rate limited fetch leaves the checks unknown rather than absent, so it's flagged for the
+// UI to show as paused instead of failing the whole status
+const getHeadChecks = (info: PrInfo, sha: string) =>
+  getCheckRuns(info, sha).pipe(
+    Effect.flatMap((runs) => Effect.forEach(runs, (run) => toCheckRun(fromRawCheckRun(run)))),
+    Effect.map((checks) => ({ checks, checksRateLimited: false })),
+    Effect.catchIf(isRateLimitError, () => Effect.succeed({ checks: [], checksRateLimited: true })),
+  );
 
-  approvePr: (params: ApprovePrParams) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(params.prUrl);
+// How much of a job's log to show; failures are almost always explained at the end
+const CHECK_LOG_TAIL_LINES = 200;
 
-      const payload = JSON.stringify({
-        event: "APPROVE",
-        body: params.body ?? "",
-      });
+// Actions starts every log line with a timestamp like 2024-01-01T00:00:00.0000000Z
+const ACTIONS_LOG_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T[\d:.]+Z /;
 
-      // Create a review with APPROVE event
-      yield* Effect.tryPromise(() =>
-        Bun.$`echo ${payload} | gh api repos/${owner}/${repo}/pulls/${number}/reviews -X POST -H "Accept: application/vnd.github+json" --input -`.text(),
-      );
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "approvePr", cause })),
-      Effect.withSpan("GhService.approvePr", {
-        attributes: { prUrl: params.prUrl },
-      }),
-      Effect.provide(BunContext.layer),
-    ),
+// Where GitHub looks for CODEOWNERS, in the order it checks them
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
 
-  listCommits: (prUrl: string) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(prUrl);
-      const cmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/pulls/${number}/commits`,
-        "--jq",
-        ".",
-      );
-      const result = yield* Command.string(cmd);
-      const rawCommits = yield* parseJsonPreserve(Schema.Array(RawCommitSchema))(result);
-
-      return rawCommits.map((c) => ({
-        sha: c.sha,
-        message: c.commit.message,
-        author: {
-          login: c.author?.login ?? "unknown",
-          avatar_url: c.author?.avatar_url ?? "",
-        },
-        date: c.commit.author.date,
-      })) satisfies readonly PrCommit[];
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "listCommits", cause })),
-      Effect.withSpan("GhService.listCommits", { attributes: { prUrl } }),
-      Effect.provide(BunContext.layer),
-    ),
+// GraphQL complexity limits cap how many objects one query can look up
+const BLOBS_PER_QUERY = 100;
 
-  getCommitDiff: (params: { owner: string; repo: string; sha: string }) =>
-    Effect.gen(function* () {
-      // Use Accept header to get diff format
-      const cmd = Command.make(
-        "gh",
-        "api",
-        `repos/${params.owner}/${params.repo}/commits/${params.sha}`,
-        "-H",
-        "Accept: application/vnd.github.diff",
-      );
-      return yield* Command.string(cmd);
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getCommitDiff", cause })),
-      Effect.withSpan("GhService.getCommitDiff", {
-        attributes: { sha: params.sha },
-      }),
-      Effect.provide(BunContext.layer),
+// Look up blobs by path and commit, one aliased `object` field per path
+const getBlobs = (params: GetBlobsParams) =>
+  Effect.forEach(
+    Array.from({ length: Math.ceil(params.specs.length / BLOBS_PER_QUERY) }, (_, i) =>
+      params.specs.slice(i * BLOBS_PER_QUERY, (i + 1) * BLOBS_PER_QUERY),
     ),
-
-  searchReviewRequested: () =>
-    Effect.gen(function* () {
-      // Get current user login
-      const userCmd = Command.make("gh", "api", "user", "--jq", ".login");
-      const currentUser = (yield* Command.string(userCmd)).trim();
-
-      // GraphQL query to get PRs with review state, CI status, and line counts
-      const prFields = `
-        number
-        title
-        url
-        isDraft
-        createdAt
-        additions
-        deletions
-        repository { name, nameWithOwner }
-        author { login }
-        reviews(last: 20) {
-          nodes { author { login }, state }
+    (specs) =>
+      Effect.gen(function* () {
+        const fields = specs.map(
+          (_, i) => `b${i}: object(expression: $e${i}) { ... on Blob { oid byteSize } }`,
+        );
+        const query = `
+        query($owner: String!, $repo: String!, ${specs.map((_, i) => `$e${i}: String!`).join(", ")}) {
+          repository(owner: $owner, name: $repo) {
+            ${fields.join("\n")}
+          }
         }
-
       `;
+        const variables = Object.fromEntries(specs.map((s, i) => [`e${i}`, `${s.ref}:${s.path}`]));
+        const { repository } = yield* graphql(
+          Schema.Struct({
+            repository: Schema.Record({ key: Schema.String, value: GraphQLBlobSchema }),
+          }),
+          params.host,
+          query,
+          { owner: params.owner, repo: params.repo, ...variables },
+        );
+        return specs.map((_, i): BlobInfo | null => {
+          const blob = repository[`b${i}`];
+          return blob && "oid" in blob ? { oid: blob.oid, size: blob.byteSize } : null;
+        });
+      }),
+  ).pipe(Effect.map((chunks) => chunks.flat()));
 
-      const query = `
-        query($requestedQuery: String!, $reviewedQuery: String!, $authoredQuery: String!) {
-          requested: search(query: $requestedQuery, type: ISSUE, first: 100) {
-            nodes {
-              ... on PullRequest { ${prFields} }
+/** GhService over whichever GhTransport is provided */
+export const GhServiceWithTransport = Layer.effect(
+  GhService,
+  Effect.gen(function* () {
+    const transport = yield* GhTransport;
+
+    return {
+      getPrInfo: (urlOrNumber: string) =>
+        getPrInfo(urlOrNumber).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getPrInfo", cause })),
+          Effect.withSpan("GhService.getPrInfo", { attributes: { urlOrNumber } }),
+        ),
+
+      getDiff: (urlOrNumber: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(urlOrNumber);
+          return yield* apiVoid({
+            host,
+            path: `repos/${owner}/${repo}/pulls/${number}`,
+            accept: "application/vnd.github.diff",
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getDiff", cause })),
+          Effect.withSpan("GhService.getDiff", { attributes: { urlOrNumber } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getPrStatus: (urlOrNumber: string) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(urlOrNumber);
+          const { host, owner, repo, number } = info;
+
+          // Get PR details
+          const prData = yield* getPullRequest(info);
+
+          // Get check runs for the PR's head commit
+          const { checks, checksRateLimited } = yield* getHeadChecks(info, prData.head.sha).pipe(
+            Effect.catchAll(() => Effect.succeed({ checks: [], checksRateLimited: false })),
+          );
+
+          // Get the current user's latest review
+          const currentUser = yield* getLogin(host);
+          const reviews = yield* fetchAllPages(RawReviewSchema, {
+            host,
+            path: `repos/${owner}/${repo}/pulls/${number}/reviews?per_page=100`,
+          });
+          const latestReview = findMyReview(reviews, currentUser, (r) => r.user?.login ?? null);
+          const myReview = latestReview ? { id: latestReview.id, state: latestReview.state } : null;
+
+          // Determine actual state (open/closed/merged)
+          const state = prData.merged ? "merged" : prData.state;
+
+          return yield* Schema.decodeUnknown(PrStatusSchema)({
+            state,
+            draft: prData.draft,
+            mergeable: prData.mergeable,
+            title: prData.title,
+            body: prData.body ?? "",
+            author: prData.user.login,
+            url: prData.html_url,
+            headRef: prData.head.ref,
+            checks,
+            checksRateLimited,
+            myReview,
+            reviewers: toReviewers(
+              prData.requested_reviewers.map((r) => r.login),
+              prData.requested_teams.map((t) => t.slug),
+              reviews.flatMap((r) => (r.user ? [{ login: r.user.login, state: r.state }] : [])),
+            ),
+            assignees: prData.assignees.map((a) => a.login),
+            labels: prData.labels,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getPrStatus", cause })),
+          Effect.withSpan("GhService.getPrStatus", { attributes: { urlOrNumber } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listComments: (urlOrNumber: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(urlOrNumber);
+          return yield* fetchAllPages(PRCommentSchema, {
+            host,
+            path: `repos/${owner}/${repo}/pulls/${number}/comments?per_page=100`,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getComments", cause })),
+          Effect.withSpan("GhService.getComments", { attributes: { urlOrNumber } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listIssueComments: (urlOrNumber: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(urlOrNumber);
+          // PRs are issues in GitHub's API, so we use the issues endpoint for top-level comments
+          return yield* fetchAllPages(IssueCommentSchema, {
+            host,
+            path: `repos/${owner}/${repo}/issues/${number}/comments?per_page=100`,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getIssueComments", cause })),
+          Effect.withSpan("GhService.getIssueComments", {
+            attributes: { urlOrNumber },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      addIssueComment: (params: AddIssueCommentParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(params.prUrl);
+
+          // Use the issues endpoint for top-level PR comments
+          return yield* api(IssueCommentSchema, {
+            host,
+            method: "POST",
+            path: `repos/${owner}/${repo}/issues/${number}/comments`,
+            body: { body: params.body },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "addIssueComment", cause })),
+          Effect.withSpan("GhService.addIssueComment", {
+            attributes: {
+              prUrl: params.prUrl,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      addComment: (params: AddCommentParams) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const { host, owner, repo, number } = info;
+
+          // Get the HEAD commit SHA unless the comment targets an earlier commit
+          const commitSha = params.commitSha ?? (yield* getPullRequest(info)).head.sha;
+
+          return yield* api(PRCommentSchema, {
+            host,
+            method: "POST",
+            path: `repos/${owner}/${repo}/pulls/${number}/comments`,
+            body: {
+              body: params.body,
+              commit_id: commitSha,
+              path: params.filePath,
+              ...toCommentRange(params),
+            },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "addComment", cause })),
+          Effect.withSpan("GhService.addComment", {
+            attributes: {
+              prUrl: params.prUrl,
+              filePath: params.filePath,
+              line: params.line,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      replyToComment: (params: AddReplyParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(params.prUrl);
+
+          // Use the dedicated reply endpoint
+          return yield* api(PRCommentSchema, {
+            host,
+            method: "POST",
+            path: `repos/${owner}/${repo}/pulls/${number}/comments/${params.commentId}/replies`,
+            body: { body: params.body },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "replyToComment", cause })),
+          Effect.withSpan("GhService.replyToComment", {
+            attributes: {
+              prUrl: params.prUrl,
+              commentId: params.commentId,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      editComment: (params: EditCommentParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(params.prUrl);
+
+          return yield* api(PRCommentSchema, {
+            host,
+            method: "PATCH",
+            path: `repos/${owner}/${repo}/pulls/comments/${params.commentId}`,
+            body: { body: params.body },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "editComment", cause })),
+          Effect.withSpan("GhService.editComment", {
+            attributes: {
+              prUrl: params.prUrl,
+              commentId: params.commentId,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      deleteComment: (params: DeleteCommentParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(params.prUrl);
+
+          yield* apiVoid({
+            host,
+            method: "DELETE",
+            path: `repos/${owner}/${repo}/pulls/comments/${params.commentId}`,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "deleteComment", cause })),
+          Effect.withSpan("GhService.deleteComment", {
+            attributes: {
+              prUrl: params.prUrl,
+              commentId: params.commentId,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      editIssueComment: (params: EditCommentParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(params.prUrl);
+
+          // Issue comments use a different endpoint than PR review comments
+          return yield* api(IssueCommentSchema, {
+            host,
+            method: "PATCH",
+            path: `repos/${owner}/${repo}/issues/comments/${params.commentId}`,
+            body: { body: params.body },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "editIssueComment", cause })),
+          Effect.withSpan("GhService.editIssueComment", {
+            attributes: {
+              prUrl: params.prUrl,
+              commentId: params.commentId,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      deleteIssueComment: (params: DeleteCommentParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(params.prUrl);
+
+          yield* apiVoid({
+            host,
+            method: "DELETE",
+            path: `repos/${owner}/${repo}/issues/comments/${params.commentId}`,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "deleteIssueComment", cause })),
+          Effect.withSpan("GhService.deleteIssueComment", {
+            attributes: {
+              prUrl: params.prUrl,
+              commentId: params.commentId,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getCurrentUser: (host?: string) =>
+        getLogin(host).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getCurrentUser", cause })),
+          Effect.withSpan("GhService.getCurrentUser", { attributes: { host } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listReviewThreads: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+
+          const query = `
+        query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              reviewThreads(first: 100, after: $endCursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                  id
+                  isResolved
+                  isOutdated
+                  comments(first: 100) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { databaseId }
+                  }
+                }
+              }
             }
           }
-          reviewed: search(query: $reviewedQuery, type: ISSUE, first: 100) {
-            nodes {
-              ... on PullRequest { ${prFields} }
-            }
+        }
+      `;
+
+          const threads = yield* pullRequestPages(
+            GraphQLReviewThreadSchema,
+            "reviewThreads",
+            host,
+            query,
+            { owner, repo, number: Number(number) },
+          );
+
+          return yield* Effect.forEach(
+            threads,
+            (thread) =>
+              Effect.map(
+                threadComments(
+                  GraphQLThreadCommentIdSchema,
+                  host,
+                  threadCommentsQuery("databaseId"),
+                  thread,
+                ),
+                (comments): ReviewThread => ({
+                  id: thread.id,
+                  isResolved: thread.isResolved,
+                  isOutdated: thread.isOutdated,
+                  commentIds: comments.map((c) => c.databaseId),
+                }),
+              ),
+            { concurrency: 4 },
+          );
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "listReviewThreads", cause })),
+          Effect.withSpan("GhService.listReviewThreads", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      resolveThread: (params: ResolveThreadParams) =>
+        Effect.gen(function* () {
+          const { host } = params;
+          const mutation = params.resolved ? "resolveReviewThread" : "unresolveReviewThread";
+          const query = `
+        mutation($threadId: ID!) {
+          ${mutation}(input: { threadId: $threadId }) {
+            thread { id }
           }
-          authored: search(query: $authoredQuery, type: ISSUE, first: 100) {
-            nodes {
-              ... on PullRequest { ${prFields} }
+        }
+      `;
+
+          yield* graphql(Schema.Unknown, host, query, { threadId: params.threadId });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "resolveThread", cause })),
+          Effect.withSpan("GhService.resolveThread", {
+            attributes: { threadId: params.threadId, resolved: params.resolved },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listViewedFiles: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+          const query = `
+        query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              files(first: 100, after: $endCursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes { path viewerViewedState }
+              }
             }
           }
         }
       `;
 
-      const graphqlCmd = Command.make(
-        "gh",
-        "api",
-        "graphql",
-        "-f",
-        `query=${query}`,
-        "-f",
-        "requestedQuery=is:pr is:open review-requested:@me",
-        "-f",
-        "reviewedQuery=is:pr is:open reviewed-by:@me",
-        "-f",
-        "authoredQuery=is:pr is:open author:@me",
-      );
-      const result = yield* Command.string(graphqlCmd);
-      const data = yield* parseJsonPreserve(GraphQLSearchResponseSchema)(result);
-
-      type GraphQLPr = typeof GraphQLPrSchema.Type;
-
-      // Helper to get user's latest review state
-      const getMyReviewState = (pr: GraphQLPr): ReviewState => {
-        const myReviews = pr.reviews.nodes.filter((r) => r.author.login === currentUser);
-        if (myReviews.length === 0) return null;
-        // Return the last review state
-        return myReviews[myReviews.length - 1].state as ReviewState;
-      };
-
-      // Track which PRs came from which query
-      const requestedUrls = new Set(
-        data.data.requested.nodes.filter((pr): pr is GraphQLPr => pr !== null).map((pr) => pr.url),
-      );
-
-      // Helper to convert GraphQL PR to SearchedPr (ciStatus loaded lazily)
-      const toSearchedPr = (pr: GraphQLPr) =>
-        Schema.decodeUnknownSync(SearchedPrSchema)({
-          number: pr.number,
-          title: pr.title,
-          url: pr.url,
-          isDraft: pr.isDraft,
-          createdAt: pr.createdAt,
-          additions: pr.additions,
-          deletions: pr.deletions,
-          repository: pr.repository,
-          author: pr.author,
-          myReviewState: getMyReviewState(pr),
-          isAuthor: pr.author.login === currentUser,
-          reviewRequested: requestedUrls.has(pr.url),
-          ciStatus: null, // Loaded lazily via /api/prs/ci-status
-        });
-
-      // Merge and deduplicate by URL
-      const seen = new Set<string>();
-      const merged: SearchedPr[] = [];
-
-      for (const pr of data.data.requested.nodes) {
-        if (pr && !seen.has(pr.url)) {
-          seen.add(pr.url);
-          merged.push(toSearchedPr(pr));
+          const files = yield* pullRequestPages(GraphQLViewedFileSchema, "files", host, query, {
+            owner,
+            repo,
+            number: Number(number),
+          });
+
+          return files.map((f): ViewedFile => ({ path: f.path, state: f.viewerViewedState }));
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "listViewedFiles", cause })),
+          Effect.withSpan("GhService.listViewedFiles", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      setFileViewed: (params: SetFileViewedParams) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const pullRequestId = yield* getPullRequestId(info);
+
+          const mutation = params.viewed ? "markFileAsViewed" : "unmarkFileAsViewed";
+          const query = `
+        mutation($pullRequestId: ID!, $path: String!) {
+          ${mutation}(input: { pullRequestId: $pullRequestId, path: $path }) {
+            pullRequest { id }
+          }
         }
-      }
+      `;
 
-      for (const pr of data.data.reviewed.nodes) {
-        if (pr && !seen.has(pr.url)) {
-          seen.add(pr.url);
-          merged.push(toSearchedPr(pr));
-        }
-      }
+          yield* graphql(Schema.Unknown, info.host, query, { pullRequestId, path: params.path });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "setFileViewed", cause })),
+          Effect.withSpan("GhService.setFileViewed", {
+            attributes: { prUrl: params.prUrl, path: params.path, viewed: params.viewed },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      submitReview: (params: SubmitReviewParams) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const { host, owner, repo, number } = info;
+
+          // Pin the review to the current HEAD so all comments resolve against the same diff
+          const commitSha = (yield* getPullRequest(info)).head.sha;
+
+          // All comments are created atomically together with the review
+          yield* apiVoid({
+            host,
+            method: "POST",
+            path: `repos/${owner}/${repo}/pulls/${number}/reviews`,
+            body: {
+              commit_id: commitSha,
+              event: params.event,
+              body: params.body ?? "",
+              comments: params.comments.map((c) => ({
+                path: c.filePath,
+                ...toCommentRange(c),
+                body: c.body,
+              })),
+            },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "submitReview", cause })),
+          Effect.withSpan("GhService.submitReview", {
+            attributes: {
+              prUrl: params.prUrl,
+              event: params.event,
+              comments: params.comments.length,
+            },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      dismissReview: (params: DismissReviewParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(params.prUrl);
+
+          yield* apiVoid({
+            host,
+            method: "PUT",
+            path: `repos/${owner}/${repo}/pulls/${number}/reviews/${params.reviewId}/dismissals`,
+            body: { message: params.message, event: "DISMISS" },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "dismissReview", cause })),
+          Effect.withSpan("GhService.dismissReview", {
+            attributes: { prUrl: params.prUrl, reviewId: params.reviewId },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      applySuggestions: (params: ApplySuggestionsParams) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const { host } = info;
+
+          // Commit to the head branch, which may be in a fork
+          const { head } = yield* getPullRequest(info);
+          if (!head.repo) {
+            return yield* Effect.fail("The head repository of this PR no longer exists");
+          }
+          const headRepo = head.repo.full_name;
+
+          const byFile = new Map<string, SuggestionEdit[]>();
+          for (const suggestion of params.suggestions) {
+            byFile.set(suggestion.filePath, [
+              ...(byFile.get(suggestion.filePath) ?? []),
+              suggestion,
+            ]);
+          }
 
-      for (const pr of data.data.authored.nodes) {
-        if (pr && !seen.has(pr.url)) {
-          seen.add(pr.url);
-          merged.push(toSearchedPr(pr));
+          // The contents API commits one file at a time, so each file gets its own commit
+          const commitShas: string[] = [];
+          for (const [filePath, edits] of byFile) {
+            const contentsPath = `repos/${headRepo}/contents/${encodePath(filePath)}`;
+            const file = yield* api(ContentsFileSchema, {
+              host,
+              path: `${contentsPath}?ref=${encodeURIComponent(head.ref)}`,
+            });
+            if (file.encoding !== "base64") {
+              return yield* Effect.fail(
+                `${filePath} is too large to apply suggestions to (over 1MB)`,
+              );
+            }
+            const original = Buffer.from(file.content, "base64").toString("utf8");
+            const updated = yield* applySuggestionEdits(original, edits);
+
+            const result = yield* api(ContentsCommitSchema, {
+              host,
+              method: "PUT",
+              path: contentsPath,
+              body: {
+                message:
+                  params.message ??
+                  (edits.length === 1
+                    ? "Apply suggestion from code review"
+                    : `Apply ${edits.length} suggestions from code review`),
+                content: Buffer.from(updated, "utf8").toString("base64"),
+                sha: file.sha,
+                branch: head.ref,
+              },
+            });
+            commitShas.push(result.commit.sha);
+          }
+          return commitShas;
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "applySuggestions", cause })),
+          Effect.withSpan("GhService.applySuggestions", {
+            attributes: { prUrl: params.prUrl, suggestions: params.suggestions.length },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listCommits: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+          // GitHub caps this endpoint at 250 commits regardless of pagination
+          const rawCommits = yield* fetchAllPages(RawCommitSchema, {
+            host,
+            path: `repos/${owner}/${repo}/pulls/${number}/commits?per_page=100`,
+          });
+
+          return rawCommits.map((c) => ({
+            sha: c.sha,
+            message: c.commit.message,
+            author: {
+              login: c.author?.login ?? "unknown",
+              avatar_url: c.author?.avatar_url ?? "",
+            },
+            date: c.commit.author.date,
+            parentSha: c.parents[0]?.sha ?? null,
+          })) satisfies readonly PrCommit[];
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "listCommits", cause })),
+          Effect.withSpan("GhService.listCommits", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listForcePushes: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+
+          const query = `
+        query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              timelineItems(itemTypes: [HEAD_REF_FORCE_PUSHED_EVENT], first: 100, after: $endCursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                  ... on HeadRefForcePushedEvent {
+                    createdAt
+                    actor { login }
+                    beforeCommit { oid }
+                    afterCommit { oid }
+                  }
+                }
+              }
+            }
+          }
         }
-      }
-
-      // Sort by createdAt descending (newest first)
-      merged.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      `;
 
-      return merged;
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "searchReviewRequested", cause })),
-      Effect.withSpan("GhService.searchReviewRequested"),
-      Effect.provide(BunContext.layer),
-    ),
+          const events = yield* pullRequestPages(
+            GraphQLForcePushSchema,
+            "timelineItems",
+            host,
+            query,
+            { owner, repo, number: Number(number) },
+          );
+
+          return events.flatMap((e): ForcePush[] =>
+            e.afterCommit
+              ? [
+                  {
+                    beforeSha: e.beforeCommit?.oid ?? null,
+                    afterSha: e.afterCommit.oid,
+                    actor: e.actor?.login ?? null,
+                    createdAt: e.createdAt,
+                  },
+                ]
+              : [],
+          );
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "listForcePushes", cause })),
+          Effect.withSpan("GhService.listForcePushes", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getCommitDiff: (params: { host: string; owner: string; repo: string; sha: string }) =>
+        Effect.gen(function* () {
+          const { host } = params;
+          // Use Accept header to get diff format
+          return yield* apiVoid({
+            host,
+            path: `repos/${params.owner}/${params.repo}/commits/${params.sha}`,
+            accept: "application/vnd.github.diff",
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getCommitDiff", cause })),
+          Effect.withSpan("GhService.getCommitDiff", {
+            attributes: { sha: params.sha },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getCompareDiff: (params: { prUrl: string; base: string; head: string }) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const { host, owner, repo } = info;
+          const compareDiff = (basehead: string) =>
+            apiVoid({
+              host,
+              path: `repos/${owner}/${repo}/compare/${basehead}`,
+              accept: "application/vnd.github.diff",
+            });
+
+          // Two-dot compare diffs the two trees directly. When the old head is an ancestor
+          // of the new one, that's exactly what the new commits changed.
+          const { status } = yield* api(CompareStatusSchema, {
+            host,
+            path: `repos/${owner}/${repo}/compare/${params.base}...${params.head}?per_page=1`,
+          });
+          if (status === "ahead" || status === "identical") {
+            return { diff: yield* compareDiff(`${params.base}..${params.head}`), rebased: false };
+          }
 
-  getPrCiStatus: (prUrl: string) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(prUrl);
+          // After a rebase the trees also differ by everything that landed on the base
+          // branch in between. Diff the PR's diff at each head (against its merge base)
+          // and keep only the files whose PR changes differ.
+          const pr = yield* getPullRequest(info);
+          const [twoDot, before, after] = yield* Effect.all(
+            [
+              compareDiff(`${params.base}..${params.head}`),
+              compareDiff(`${pr.base.sha}...${params.base}`).pipe(Effect.map(parseFullDiff)),
+              compareDiff(`${pr.base.sha}...${params.head}`).pipe(Effect.map(parseFullDiff)),
+            ],
+            { concurrency: "unbounded" },
+          );
+          const changed = (path: string) => {
+            const a = before.get(path);
+            const b = after.get(path);
+            if (!a || !b) return a !== b;
+            return prChangeKey(a) !== prChangeKey(b);
+          };
+          const diff = [...parseFullDiff(twoDot)]
+            .filter(
+              ([path, meta]) => changed(path) || (meta.oldPath !== null && changed(meta.oldPath)),
+            )
+            .map(([, meta]) => `${meta.diff.replace(/\n$/, "")}\n`)
+            .join("");
+          return { diff, rebased: true };
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getCompareDiff", cause })),
+          Effect.withSpan("GhService.getCompareDiff", {
+            attributes: { base: params.base, head: params.head },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getLastReviewedSha: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+          const currentUser = yield* getLogin(host);
+          const reviews = yield* fetchAllPages(RawReviewSchema, {
+            host,
+            path: `repos/${owner}/${repo}/pulls/${number}/reviews?per_page=100`,
+          });
+          // A pending review hasn't been submitted yet, so it doesn't mark anything as reviewed
+          const submitted = reviews.filter((r) => r.state !== "PENDING");
+          return (
+            findLatestReview(submitted, currentUser, (r) => r.user?.login ?? null)?.commit_id ??
+            null
+          );
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getLastReviewedSha", cause })),
+          Effect.withSpan("GhService.getLastReviewedSha", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      searchPrs: (searches: readonly SavedSearch[], host?: string) =>
+        Effect.gen(function* () {
+          // Get current user login
+          const currentUser = yield* getLogin(host);
+
+          // GraphQL query to get PRs with review state and line counts
+          const query = `
+            query($searchQuery: String!, $endCursor: String) {
+              search(query: $searchQuery, type: ISSUE, first: 100, after: $endCursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                  ... on PullRequest {
+                    number
+                    title
+                    url
+                    isDraft
+                    createdAt
+                    additions
+                    deletions
+                    repository { name, nameWithOwner }
+                    author { login }
+                    reviews(last: 20) {
+                      nodes { author { login }, state }
+                    }
+                  }
+                }
+              }
+            }
+          `;
+
+          type GraphQLPr = typeof GraphQLPrSchema.Type;
+
+          // Follow each search's cursor until it runs out or hits the cap
+          const runSearch = (search: SavedSearch) =>
+            Effect.gen(function* () {
+              const prs: GraphQLPr[] = [];
+              let endCursor: string | null = null;
+              const SearchPageSchema = Schema.Struct({
+                search: connectionSchema(GraphQLSearchNodeSchema),
+              });
+              do {
+                const { search: page }: typeof SearchPageSchema.Type = yield* graphql(
+                  SearchPageSchema,
+                  host,
+                  query,
+                  { searchQuery: search.query, endCursor },
+                );
+                prs.push(...page.nodes.filter((node): node is GraphQLPr => "url" in node));
+                endCursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+              } while (endCursor && prs.length < MAX_RESULTS_PER_SEARCH);
+              // Stopping at the cap with pages left means the search matched more
+              return { search, prs, truncated: endCursor !== null };
+            });
+
+          const results = yield* Effect.all(searches.map(runSearch), { concurrency: 4 });
+
+          // Helper to get user's latest review state
+          const getMyReviewState = (pr: GraphQLPr): ReviewState => {
+            const latest = findMyReview(pr.reviews.nodes, currentUser, (r) => r.author.login);
+            return latest?.state ?? null;
+          };
+
+          // Merge and deduplicate by URL, remembering every search that matched
+          const byUrl = new Map<string, { pr: GraphQLPr; matched: SavedSearch[] }>();
+          for (const { search, prs } of results) {
+            for (const pr of prs) {
+              const entry = byUrl.get(pr.url) ?? { pr, matched: [] };
+              entry.matched.push(search);
+              byUrl.set(pr.url, entry);
+            }
+          }
 
-      // GraphQL query to get CI status for a single PR
-      const query = `
+          const merged = yield* Effect.forEach([...byUrl.values()], ({ pr, matched }) =>
+            Schema.decodeUnknown(SearchedPrSchema)({
+              number: pr.number,
+              title: pr.title,
+              url: pr.url,
+              isDraft: pr.isDraft,
+              createdAt: pr.createdAt,
+              additions: pr.additions,
+              deletions: pr.deletions,
+              repository: pr.repository,
+              author: pr.author,
+              myReviewState: getMyReviewState(pr),
+              isAuthor: pr.author.login === currentUser,
+              reviewRequested: matched.some((s) => requestsReview(s.query)),
+              ciStatus: null, // Loaded lazily via /api/prs/ci-status
+              matchedSearches: matched.map((s) => s.id),
+            }),
+          );
+
+          // Sort by createdAt descending (newest first)
+          const sorted = [...merged].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+          );
+          return {
+            prs: sorted,
+            truncatedSearches: results.filter((r) => r.truncated).map((r) => r.search.id),
+          } satisfies PrSearchResults;
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "searchPrs", cause })),
+          Effect.withSpan("GhService.searchPrs", {
+            attributes: { host, searches: searches.length },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getPrCiStatus: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+
+          // GraphQL query to get CI status for a single PR
+          const query = `
         query($owner: String!, $repo: String!, $number: Int!) {
           repository(owner: $owner, name: $repo) {
             pullRequest(number: $number) {
@@ -825,70 +2447,928 @@ export const GhServiceLive = Layer.succeed(GhService, {
         }
       `;
 
-      const graphqlCmd = Command.make(
-        "gh",
-        "api",
-        "graphql",
-        "-f",
-        `query=${query}`,
-        "-F",
-        `owner=${owner}`,
-        "-F",
-        `repo=${repo}`,
-        "-F",
-        `number=${number}`,
-      );
-      const result = yield* Command.string(graphqlCmd);
-      const data = yield* Effect.try(() => JSON.parse(result));
-
-      const rollup =
-        data?.data?.repository?.pullRequest?.commits?.nodes?.[0]?.commit?.statusCheckRollup;
-      if (!rollup) return null;
-
-      const contexts = rollup.contexts?.nodes ?? [];
-      let passed = 0;
-      const total = contexts.length;
-
-      for (const ctx of contexts) {
-        if (ctx.__typename === "StatusContext") {
-          if (ctx.state === "SUCCESS") passed++;
-        } else if (ctx.__typename === "CheckRun") {
-          if (
-            ctx.conclusion === "SUCCESS" ||
-            ctx.conclusion === "NEUTRAL" ||
-            ctx.conclusion === "SKIPPED"
-          ) {
-            passed++;
+          const data = yield* graphql(GraphQLCiStatusSchema, host, query, {
+            owner,
+            repo,
+            number: Number(number),
+          });
+
+          const rollup = data.repository.pullRequest.commits.nodes[0]?.commit.statusCheckRollup;
+          if (!rollup) return null;
+
+          const contexts = rollup.contexts.nodes;
+          let passed = 0;
+          const total = contexts.length;
+
+          for (const ctx of contexts) {
+            if (ctx.__typename === "StatusContext") {
+              if (ctx.state === "SUCCESS") passed++;
+            } else if (
+              ctx.conclusion === "SUCCESS" ||
+              ctx.conclusion === "NEUTRAL" ||
+              ctx.conclusion === "SKIPPED"
+            ) {
+              passed++;
+            }
+          }
+
+          return {
+            passed,
+            total,
+            state: rollup.state,
+          };
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getPrCiStatus", cause })),
+          Effect.withSpan("GhService.getPrCiStatus", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getHeadSha: (prUrl: string) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(prUrl);
+          return (yield* getPullRequest(info)).head.sha;
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getHeadSha", cause })),
+          Effect.withSpan("GhService.getHeadSha", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getDiffRefs: (prUrl: string) =>
+        getPrInfo(prUrl).pipe(
+          Effect.flatMap(getDiffRefs),
+          Effect.mapError((cause) => new GhError({ command: "getDiffRefs", cause })),
+          Effect.withSpan("GhService.getDiffRefs", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getFileContents: (params: GetFileContentsParams) =>
+        getFileContents(params).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getFileContents", cause })),
+          Effect.withSpan("GhService.getFileContents", {
+            attributes: { path: params.path, ref: params.ref },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // Issue comments are left out; the conversation panel already has them (editable)
+      getTimeline: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+
+          const event = "createdAt actor { login }";
+          const reviewer = "requestedReviewer { ... on User { login } ... on Team { slug } }";
+          const query = `
+        query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              timelineItems(
+                itemTypes: [
+                  PULL_REQUEST_COMMIT, PULL_REQUEST_REVIEW, HEAD_REF_FORCE_PUSHED_EVENT,
+                  REVIEW_REQUESTED_EVENT, REVIEW_REQUEST_REMOVED_EVENT, LABELED_EVENT,
+                  UNLABELED_EVENT, MERGED_EVENT, CLOSED_EVENT, REOPENED_EVENT,
+                  READY_FOR_REVIEW_EVENT, CONVERT_TO_DRAFT_EVENT
+                ]
+                first: 100
+                after: $endCursor
+              ) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                  __typename
+                  ... on PullRequestCommit {
+                    commit { oid messageHeadline committedDate author { name user { login } } }
+                  }
+                  ... on PullRequestReview {
+                    databaseId state body submittedAt url
+                    author { login }
+                    comments(first: 100) { nodes { databaseId } }
+                  }
+                  ... on HeadRefForcePushedEvent { ${event} beforeCommit { oid } afterCommit { oid } }
+                  ... on ReviewRequestedEvent { ${event} ${reviewer} }
+                  ... on ReviewRequestRemovedEvent { ${event} ${reviewer} }
+                  ... on LabeledEvent { ${event} label { name color } }
+                  ... on UnlabeledEvent { ${event} label { name color } }
+                  ... on MergedEvent { ${event} mergeCommit: commit { oid } mergeRefName }
+                  ... on ClosedEvent { ${event} }
+                  ... on ReopenedEvent { ${event} }
+                  ... on ReadyForReviewEvent { ${event} }
+                  ... on ConvertToDraftEvent { ${event} }
+                }
+              }
+            }
           }
         }
-      }
+      `;
 
-      return {
-        passed,
-        total,
-        state: rollup.state as CiStatus["state"],
-      };
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getPrCiStatus", cause })),
-      Effect.withSpan("GhService.getPrCiStatus", { attributes: { prUrl } }),
-      Effect.provide(BunContext.layer),
-    ),
+          const items = yield* pullRequestPages(
+            GraphQLTimelineItemSchema,
+            "timelineItems",
+            host,
+            query,
+            { owner, repo, number: Number(number) },
+          );
+          return items.flatMap((item) => toTimelineEvent(item) ?? []);
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getTimeline", cause })),
+          Effect.withSpan("GhService.getTimeline", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getMergeState: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+          const query = `
+        query($owner: String!, $repo: String!, $number: Int!) {
+          repository(owner: $owner, name: $repo) {
+            mergeCommitAllowed
+            squashMergeAllowed
+            rebaseMergeAllowed
+            autoMergeAllowed
+            deleteBranchOnMerge
+            viewerDefaultMergeMethod
+            pullRequest(number: $number) {
+              isDraft
+              mergeable
+              reviewDecision
+              headRefOid
+              autoMergeRequest { mergeMethod enabledBy { login } }
+              mergeHeadline: viewerMergeHeadlineText(mergeType: MERGE)
+              mergeBody: viewerMergeBodyText(mergeType: MERGE)
+              squashHeadline: viewerMergeHeadlineText(mergeType: SQUASH)
+              squashBody: viewerMergeBodyText(mergeType: SQUASH)
+              headCommit: commits(last: 1) {
+                nodes {
+                  commit {
+                    statusCheckRollup {
+                      contexts(first: 100) {
+                        nodes {
+                          ... on CheckRun { name status conclusion isRequired(pullRequestNumber: $number) }
+                          ... on StatusContext { context state isRequired(pullRequestNumber: $number) }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `;
 
-  getHeadSha: (prUrl: string) =>
-    Effect.gen(function* () {
-      const { owner, repo, number } = yield* getPrInfo(prUrl);
-      const cmd = Command.make(
-        "gh",
-        "api",
-        `repos/${owner}/${repo}/pulls/${number}`,
-        "--jq",
-        ".head.sha",
-      );
-      const sha = (yield* Command.string(cmd)).trim();
-      return sha;
-    }).pipe(
-      Effect.mapError((cause) => new GhError({ command: "getHeadSha", cause })),
-      Effect.withSpan("GhService.getHeadSha", { attributes: { prUrl } }),
-      Effect.provide(BunContext.layer),
-    ),
-});
+          const { repository } = yield* graphql(GraphQLMergeStateSchema, host, query, {
+            owner,
+            repo,
+            number: Number(number),
+          });
+          const pr = repository.pullRequest;
+
+          const methods: MergeMethod[] = [
+            ...(repository.mergeCommitAllowed ? ["merge" as const] : []),
+            ...(repository.squashMergeAllowed ? ["squash" as const] : []),
+            ...(repository.rebaseMergeAllowed ? ["rebase" as const] : []),
+          ];
+          const viewerDefault = toMergeMethod(repository.viewerDefaultMergeMethod);
+
+          return {
+            methods,
+            defaultMethod: methods.includes(viewerDefault)
+              ? viewerDefault
+              : (methods[0] ?? "merge"),
+            messages: {
+              merge: { title: pr.mergeHeadline, body: pr.mergeBody },
+              squash: { title: pr.squashHeadline, body: pr.squashBody },
+            },
+            mergeable: pr.mergeable === "UNKNOWN" ? null : pr.mergeable === "MERGEABLE",
+            blockers: getMergeBlockers(pr),
+            autoMergeAllowed: repository.autoMergeAllowed,
+            autoMerge: pr.autoMergeRequest && {
+              method: toMergeMethod(pr.autoMergeRequest.mergeMethod),
+              enabledBy: pr.autoMergeRequest.enabledBy?.login ?? "ghost",
+            },
+            deleteBranchOnMerge: repository.deleteBranchOnMerge,
+            headSha: pr.headRefOid,
+          } satisfies MergeState;
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getMergeState", cause })),
+          Effect.withSpan("GhService.getMergeState", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      mergePr: (params: MergePrParams) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const { host, owner, repo, number } = info;
+          const pr = yield* getPullRequest(info);
+
+          yield* apiVoid({
+            host,
+            method: "PUT",
+            path: `repos/${owner}/${repo}/pulls/${number}/merge`,
+            body: {
+              merge_method: params.method,
+              commit_title: params.title,
+              commit_message: params.body,
+              sha: params.sha,
+            },
+          });
+
+          // The PR is merged by now, so a branch that can't be deleted (the repo already
+          // deleted it, or it's in a fork we can't push to) isn't a failure
+          const headRepo = pr.head.repo;
+          if (!params.deleteBranch || !headRepo) return { branchDeleted: false };
+          const ref = encodePath(pr.head.ref);
+          return yield* apiVoid({
+            host,
+            method: "DELETE",
+            path: `repos/${headRepo.full_name}/git/refs/heads/${ref}`,
+          }).pipe(
+            Effect.as({ branchDeleted: true }),
+            Effect.catchAll(() => Effect.succeed({ branchDeleted: false })),
+          );
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "mergePr", cause })),
+          Effect.withSpan("GhService.mergePr", {
+            attributes: { prUrl: params.prUrl, method: params.method },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      setAutoMerge: (params: SetAutoMergeParams) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(params.prUrl);
+          const pullRequestId = yield* getPullRequestId(info);
+
+          if (!params.enabled) {
+            yield* graphql(
+              Schema.Unknown,
+              info.host,
+              `
+        mutation($pullRequestId: ID!) {
+          disablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId }) {
+            pullRequest { id }
+          }
+        }
+      `,
+              { pullRequestId },
+            );
+            return;
+          }
+
+          yield* graphql(
+            Schema.Unknown,
+            info.host,
+            `
+        mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod, $commitHeadline: String, $commitBody: String) {
+          enablePullRequestAutoMerge(input: {
+            pullRequestId: $pullRequestId
+            mergeMethod: $mergeMethod
+            commitHeadline: $commitHeadline
+            commitBody: $commitBody
+          }) {
+            pullRequest { id }
+          }
+        }
+      `,
+            {
+              pullRequestId,
+              mergeMethod: params.method?.toUpperCase() ?? null,
+              commitHeadline: params.title ?? null,
+              commitBody: params.body ?? null,
+            },
+          );
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "setAutoMerge", cause })),
+          Effect.withSpan("GhService.setAutoMerge", {
+            attributes: { prUrl: params.prUrl, enabled: params.enabled },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // Only runs that reported annotations are asked for them
+      getCheckAnnotations: (prUrl: string) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(prUrl);
+          const { host, owner, repo } = info;
+          const pr = yield* getPullRequest(info);
+          const runs = yield* getCheckRuns(info, pr.head.sha);
+          const annotations = yield* Effect.forEach(
+            runs.filter((run) => run.output.annotations_count > 0),
+            (run) =>
+              fetchAllPages(RawCheckAnnotationSchema, {
+                host,
+                path: `repos/${owner}/${repo}/check-runs/${run.id}/annotations?per_page=100`,
+              }).pipe(
+                Effect.map((list) =>
+                  list.map(
+                    (a): CheckAnnotation => ({
+                      checkName: run.name,
+                      path: a.path,
+                      startLine: a.start_line,
+                      endLine: a.end_line,
+                      level: a.annotation_level,
+                      title: a.title || null,
+                      message: a.message,
+                    }),
+                  ),
+                ),
+              ),
+            { concurrency: 4 },
+          );
+          return annotations.flat();
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getCheckAnnotations", cause })),
+          Effect.withSpan("GhService.getCheckAnnotations", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // Check runs from GitHub Actions are jobs, whose logs GitHub keeps; other providers'
+      // runs have no log here (null)
+      getCheckRunLog: (prUrl: string, checkRunId: number) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(prUrl);
+          const log = yield* apiVoid({
+            host,
+            path: `repos/${owner}/${repo}/actions/jobs/${checkRunId}/logs`,
+          }).pipe(
+            Effect.catchIf(
+              (error) => error instanceof GhTransportError && error.status === 404,
+              () => Effect.succeed(null),
+            ),
+          );
+          if (log === null) return null;
+          const lines = log.trimEnd().split("\n");
+          return {
+            tail: lines
+              .slice(-CHECK_LOG_TAIL_LINES)
+              .map((line) => line.replace(ACTIONS_LOG_TIMESTAMP, ""))
+              .join("\n"),
+            truncated: lines.length > CHECK_LOG_TAIL_LINES,
+          };
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getCheckRunLog", cause })),
+          Effect.withSpan("GhService.getCheckRunLog", { attributes: { prUrl, checkRunId } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      rerunCheckSuite: (prUrl: string, checkSuiteId: number) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(prUrl);
+          yield* apiVoid({
+            host,
+            method: "POST",
+            path: `repos/${owner}/${repo}/check-suites/${checkSuiteId}/rerequest`,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "rerunCheckSuite", cause })),
+          Effect.withSpan("GhService.rerunCheckSuite", { attributes: { prUrl, checkSuiteId } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // REST can't change draft state, only these GraphQL mutations
+      setDraft: (prUrl: string, draft: boolean) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(prUrl);
+          const pullRequestId = yield* getPullRequestId(info);
+          const mutation = draft ? "convertPullRequestToDraft" : "markPullRequestReadyForReview";
+          const query = `
+        mutation($pullRequestId: ID!) {
+          ${mutation}(input: { pullRequestId: $pullRequestId }) {
+            pullRequest { id }
+          }
+        }
+      `;
+          yield* graphql(Schema.Unknown, info.host, query, { pullRequestId });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "setDraft", cause })),
+          Effect.withSpan("GhService.setDraft", { attributes: { prUrl, draft } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      updatePullRequest: (params: UpdatePullRequestParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(params.prUrl);
+          yield* apiVoid({
+            host,
+            method: "PATCH",
+            path: `repos/${owner}/${repo}/pulls/${number}`,
+            body: { title: params.title, body: params.body },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "updatePullRequest", cause })),
+          Effect.withSpan("GhService.updatePullRequest", { attributes: { prUrl: params.prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // Requesting someone who already reviewed asks them to review again
+      requestReviewers: (params: ReviewersParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(params.prUrl);
+          yield* apiVoid({
+            host,
+            method: "POST",
+            path: `repos/${owner}/${repo}/pulls/${number}/requested_reviewers`,
+            body: { reviewers: params.users, team_reviewers: params.teams },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "requestReviewers", cause })),
+          Effect.withSpan("GhService.requestReviewers", { attributes: { prUrl: params.prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      removeReviewers: (params: ReviewersParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(params.prUrl);
+          yield* apiVoid({
+            host,
+            method: "DELETE",
+            path: `repos/${owner}/${repo}/pulls/${number}/requested_reviewers`,
+            body: { reviewers: params.users, team_reviewers: params.teams },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "removeReviewers", cause })),
+          Effect.withSpan("GhService.removeReviewers", { attributes: { prUrl: params.prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // Replaces the whole list; PRs share assignees with their issue
+      setAssignees: (prUrl: string, assignees: readonly string[]) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+          yield* apiVoid({
+            host,
+            method: "PATCH",
+            path: `repos/${owner}/${repo}/issues/${number}`,
+            body: { assignees },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "setAssignees", cause })),
+          Effect.withSpan("GhService.setAssignees", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // Replaces the whole set of labels
+      setLabels: (prUrl: string, labels: readonly string[]) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, number } = yield* getPrInfo(prUrl);
+          yield* apiVoid({
+            host,
+            method: "PUT",
+            path: `repos/${owner}/${repo}/issues/${number}/labels`,
+            body: { labels },
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "setLabels", cause })),
+          Effect.withSpan("GhService.setLabels", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listReviewCandidates: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(prUrl);
+          // Listing collaborators needs push access; assignable users are the closest
+          // thing everyone else can see
+          const users = yield* fetchAllPages(LoginSchema, {
+            host,
+            path: `repos/${owner}/${repo}/collaborators?per_page=100`,
+          }).pipe(
+            Effect.catchAll(() =>
+              fetchAllPages(LoginSchema, {
+                host,
+                path: `repos/${owner}/${repo}/assignees?per_page=100`,
+              }),
+            ),
+          );
+          // User-owned repos have no teams
+          const teams = yield* fetchAllPages(TeamSchema, {
+            host,
+            path: `orgs/${owner}/teams?per_page=100`,
+          }).pipe(Effect.orElseSucceed(() => []));
+          return {
+            users: users.map((u) => u.login),
+            teams: teams.map((t) => t.slug),
+          };
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "listReviewCandidates", cause })),
+          Effect.withSpan("GhService.listReviewCandidates", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      listLabels: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner, repo } = yield* getPrInfo(prUrl);
+          return yield* fetchAllPages(PrLabelSchema, {
+            host,
+            path: `repos/${owner}/${repo}/labels?per_page=100`,
+          });
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "listLabels", cause })),
+          Effect.withSpan("GhService.listLabels", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getCodeOwnersFile: (prUrl: string) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(prUrl);
+          const { host, owner, repo } = info;
+          const pr = yield* getPullRequest(info);
+          for (const path of CODEOWNERS_PATHS) {
+            const content = yield* getFileContents({ host, owner, repo, path, ref: pr.base.sha });
+            if (content !== null) return { path, content };
+          }
+          return null;
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getCodeOwnersFile", cause })),
+          Effect.withSpan("GhService.getCodeOwnersFile", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      // The handles CODEOWNERS can name the viewer by: their login and their teams in the repo's org
+      getViewerOwnerHandles: (prUrl: string) =>
+        Effect.gen(function* () {
+          const { host, owner } = yield* getPrInfo(prUrl);
+          const login = yield* getLogin(host);
+          const query = `
+        query($org: String!, $login: String!, $endCursor: String) {
+          organization(login: $org) {
+            teams(first: 100, after: $endCursor, userLogins: [$login]) {
+              pageInfo { hasNextPage endCursor }
+              nodes { slug }
+            }
+          }
+        }
+      `;
+
+          // User-owned repos have no teams, and listing them needs the read:org scope
+          const teams = yield* graphqlPages(
+            Schema.Struct({ organization: Schema.Struct({ teams: connectionSchema(TeamSchema) }) }),
+            (data) => data.organization.teams,
+            host,
+            query,
+            { org: owner, login },
+          ).pipe(Effect.orElseSucceed(() => []));
+
+          return [`@${login}`, ...teams.map((team) => `@${owner}/${team.slug}`)];
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getViewerOwnerHandles", cause })),
+          Effect.withSpan("GhService.getViewerOwnerHandles", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getBlobs: (params: GetBlobsParams) =>
+        getBlobs(params).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getBlobs", cause })),
+          Effect.withSpan("GhService.getBlobs", { attributes: { count: params.specs.length } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getBlobContent: (params: GetBlobContentParams) =>
+        Effect.gen(function* () {
+          const { host, owner, repo, oid } = params;
+          // The git data API serves blobs up to 100 MB, unlike the contents API's 1 MB
+          const blob = yield* api(GitBlobSchema, {
+            host,
+            path: `repos/${owner}/${repo}/git/blobs/${oid}`,
+          });
+          return blob.content.replace(/\s/g, "");
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getBlobContent", cause })),
+          Effect.withSpan("GhService.getBlobContent", { attributes: { oid: params.oid } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getBinaryFileBlobs: (prUrl: string, files: readonly BinaryFileSpec[]) =>
+        Effect.gen(function* () {
+          if (files.length === 0) return new Map();
+          const info = yield* getPrInfo(prUrl);
+          const { host, owner, repo } = info;
+          const refs = yield* getDiffRefs(info);
+          const blobs = yield* getBlobs({
+            host,
+            owner,
+            repo,
+            specs: files.flatMap(({ path, oldPath }) => [
+              { ref: refs.base, path: oldPath ?? path },
+              { ref: refs.head, path },
+            ]),
+          });
+          return new Map(
+            files.map(({ path }, i) => [path, { old: blobs[i * 2], new: blobs[i * 2 + 1] }]),
+          );
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getBinaryFileBlobs", cause })),
+          Effect.withSpan("GhService.getBinaryFileBlobs", {
+            attributes: { prUrl, count: files.length },
+          }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getPrBatch: (prUrl: string) =>
+        Effect.gen(function* () {
+          const info = yield* getPrInfo(prUrl);
+          const { host, owner, repo } = info;
+          const variables = { owner, repo, number: Number(info.number) };
+
+          const query = `
+        query($owner: String!, $repo: String!, $number: Int!) {
+          viewer { login }
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              state
+              isDraft
+              mergeable
+              title
+              body
+              url
+              headRefName
+              author { login }
+              viewerLatestReview { databaseId state }
+              reviewRequests(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchReviewRequest }
+              }
+              latestReviews(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchLatestReview }
+              }
+              latestOpinionatedReviews(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchOpinionatedReview }
+              }
+              assignees(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchAssignee }
+              }
+              labels(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchLabel }
+              }
+              commits(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchCommit }
+              }
+              reviewThreads(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchThread }
+              }
+              comments(first: 100) {
+                ${GraphQLPageInfoFields}
+                nodes { ...BatchIssueComment }
+              }
+              headCommit: commits(last: 1) {
+                nodes {
+                  commit {
+                    oid
+                    checkSuites(first: 50) {
+                      ${GraphQLPageInfoFields}
+                      nodes {
+                        databaseId
+                        checkRuns(first: 100) {
+                          ${GraphQLPageInfoFields}
+                          nodes { databaseId name status conclusion detailsUrl summary }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+        ${Object.values(BATCH_FRAGMENTS).join("\n")}
+      `;
+
+          const data = yield* graphql(GraphQLBatchSchema, host, query, variables);
+          const pr = data.repository.pullRequest;
+
+          // Large PRs spill past the first page; only those connections need another round trip
+          const rest = <A, I, R>(
+            connection: { pageInfo: typeof PageInfoSchema.Type; nodes: readonly A[] },
+            nodeSchema: Schema.Schema<A, I, R>,
+            field: string,
+            fragment: BatchFragment,
+          ) =>
+            connection.pageInfo.hasNextPage
+              ? pullRequestPages(
+                  nodeSchema,
+                  field,
+                  host,
+                  batchConnectionQuery(field, fragment),
+                  variables,
+                  connection.pageInfo.endCursor,
+                ).pipe(Effect.map((more) => [...connection.nodes, ...more]))
+              : Effect.succeed(connection.nodes);
+
+          const [
+            commitNodes,
+            threadNodes,
+            issueCommentNodes,
+            reviewRequestNodes,
+            latestReviewNodes,
+            opinionatedReviewNodes,
+            assigneeNodes,
+            labelNodes,
+          ] = yield* Effect.all(
+            [
+              rest(pr.commits, GraphQLBatchCommitSchema, "commits", "BatchCommit"),
+              Effect.flatMap(
+                rest(pr.reviewThreads, GraphQLBatchThreadSchema, "reviewThreads", "BatchThread"),
+                (threads) =>
+                  Effect.forEach(
+                    threads,
+                    (thread) =>
+                      Effect.map(
+                        threadComments(
+                          GraphQLBatchThreadCommentSchema,
+                          host,
+                          threadCommentsQuery(
+                            "...BatchThreadComment",
+                            BATCH_THREAD_COMMENT_FRAGMENT,
+                          ),
+                          thread,
+                        ),
+                        (nodes) => ({ ...thread, comments: { ...thread.comments, nodes } }),
+                      ),
+                    { concurrency: 4 },
+                  ),
+              ),
+              rest(pr.comments, GraphQLBatchIssueCommentSchema, "comments", "BatchIssueComment"),
+              rest(
+                pr.reviewRequests,
+                GraphQLBatchReviewRequestSchema,
+                "reviewRequests",
+                "BatchReviewRequest",
+              ),
+              rest(
+                pr.latestReviews,
+                GraphQLBatchLatestReviewSchema,
+                "latestReviews",
+                "BatchLatestReview",
+              ),
+              rest(
+                pr.latestOpinionatedReviews,
+                GraphQLBatchOpinionatedReviewSchema,
+                "latestOpinionatedReviews",
+                "BatchOpinionatedReview",
+              ),
+              rest(pr.assignees, GraphQLBatchAssigneeSchema, "assignees", "BatchAssignee"),
+              pr.labels
+                ? rest(pr.labels, PrLabelSchema, "labels", "BatchLabel")
+                : Effect.succeed([]),
+            ],
+            { concurrency: "unbounded" },
+          );
+
+          const commits = commitNodes.map(
+            ({ commit }): PrCommit => ({
+              sha: commit.oid,
+              message: commit.message,
+              author: toUser(commit.author?.user ?? null),
+              date: commit.authoredDate,
+              parentSha: commit.parents.nodes[0]?.oid ?? null,
+            }),
+          );
+
+          // Review comments only exist inside threads, which carry their position
+          const comments = threadNodes
+            .flatMap((thread) =>
+              thread.comments.nodes.map(
+                (c): RawPRComment => ({
+                  id: c.databaseId,
+                  path: thread.path,
+                  line: thread.line,
+                  original_line: thread.originalLine,
+                  side: thread.diffSide,
+                  start_line: thread.startLine,
+                  original_start_line: thread.originalStartLine,
+                  start_side: thread.startDiffSide,
+                  body: c.body,
+                  html_url: c.url,
+                  user: toUser(c.author),
+                  created_at: c.createdAt,
+                  ...(c.replyTo ? { in_reply_to_id: c.replyTo.databaseId } : {}),
+                }),
+              ),
+            )
+            .sort((a, b) => a.id - b.id);
+
+          const threads = threadNodes.map(
+            (thread): ReviewThread => ({
+              id: thread.id,
+              isResolved: thread.isResolved,
+              isOutdated: thread.isOutdated,
+              commentIds: thread.comments.nodes.map((c) => c.databaseId),
+            }),
+          );
+
+          const issueComments = issueCommentNodes.map(
+            (c): RawIssueComment => ({
+              id: c.databaseId,
+              body: c.body,
+              html_url: c.url,
+              user: toUser(c.author),
+              created_at: c.createdAt,
+              updated_at: c.updatedAt,
+            }),
+          );
+
+          // Suites and runs are nested connections GraphQL can't resume on their own, so a
+          // head commit with more than fit falls back to the paginated REST list
+          const headCommit = pr.headCommit.nodes[0]?.commit;
+          const suites = headCommit?.checkSuites;
+          const { checks, checksRateLimited } =
+            headCommit &&
+            (suites?.pageInfo.hasNextPage ||
+              suites?.nodes.some((suite) => suite.checkRuns?.pageInfo.hasNextPage))
+              ? yield* getHeadChecks(info, headCommit.oid)
+              : yield* Effect.forEach(
+                  (suites?.nodes ?? []).flatMap((suite) =>
+                    (suite.checkRuns?.nodes ?? []).map((run) => ({
+                      ...run,
+                      id: run.databaseId,
+                      checkSuiteId: suite.databaseId,
+                    })),
+                  ),
+                  toCheckRun,
+                ).pipe(Effect.map((checks) => ({ checks, checksRateLimited: false })));
+
+          // viewerLatestReview is whatever the viewer did last, so a comment after an
+          // approval would hide the approval (and its dismiss button) like findMyReview avoids
+          const latestReview =
+            opinionatedReviewNodes.find(
+              (r) => r.author?.login === data.viewer.login && isStandingReview(r),
+            ) ?? pr.viewerLatestReview;
+          const status = yield* Schema.decodeUnknown(PrStatusSchema)({
+            state: pr.state.toLowerCase(),
+            draft: pr.isDraft,
+            mergeable: pr.mergeable === "UNKNOWN" ? null : pr.mergeable === "MERGEABLE",
+            title: pr.title,
+            body: pr.body,
+            author: pr.author?.login ?? "ghost",
+            url: pr.url,
+            headRef: pr.headRefName,
+            checks,
+            checksRateLimited,
+            myReview:
+              latestReview && latestReview.databaseId !== null
+                ? { id: latestReview.databaseId, state: latestReview.state }
+                : null,
+            reviewers: toReviewers(
+              reviewRequestNodes.flatMap((r) => r.requestedReviewer?.login ?? []),
+              reviewRequestNodes.flatMap((r) => r.requestedReviewer?.slug ?? []),
+              latestReviewNodes.flatMap((r) =>
+                r.author ? [{ login: r.author.login, state: r.state }] : [],
+              ),
+            ),
+            assignees: assigneeNodes.map((a) => a.login),
+            labels: labelNodes,
+          });
+
+          return {
+            info,
+            commits,
+            comments,
+            threads,
+            issueComments,
+            status,
+            currentUser: data.viewer.login,
+          } satisfies PrBatch;
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getPrBatch", cause })),
+          Effect.withSpan("GhService.getPrBatch", { attributes: { prUrl } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+
+      getRateLimit: (host?: string) =>
+        Effect.gen(function* () {
+          const status = yield* transport.rateLimit(host);
+          if (status.resources.length > 0) return status;
+
+          // Nothing observed yet (or the CLI transport, which doesn't expose headers).
+          // The rate_limit endpoint doesn't count against the quota.
+          const { resources } = yield* api(RateLimitResponseSchema, { host, path: "rate_limit" });
+          return {
+            ...status,
+            resources: RATE_LIMIT_RESOURCES.flatMap((resource) => {
+              const quota = resources[resource];
+              return quota ? [{ resource, ...quota }] : [];
+            }),
+          };
+        }).pipe(
+          Effect.mapError((cause) => new GhError({ command: "getRateLimit", cause })),
+          Effect.withSpan("GhService.getRateLimit", { attributes: { host } }),
+          Effect.provideService(GhTransport, transport),
+        ),
+    } satisfies GhCli;
+  }),
+);
+
+/** GhService replaying (or recording) GitHub responses from a fixtures directory */
+export const GhServiceFixtures = (options: FixtureOptions) =>
+  GhServiceWithTransport.pipe(Layer.provide(GhTransportFixtures(options)));
+
+// BETTER_REVIEW_GH_FIXTURES swaps the real transport for fixtures across the whole
+// server, so routers, DiffCacheService and the REST handlers can run without network
+const fixtureOptions = fixtureOptionsFromEnv();
+
+export const GhServiceLive = fixtureOptions
+  ? GhServiceFixtures(fixtureOptions)
+  : GhServiceWithTransport.pipe(Layer.provide(GhTransportLive));
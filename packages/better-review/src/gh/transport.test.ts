@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+
+import { Effect } from "effect";
+
+import { StoreService } from "../store";
+import { makeHttpCache } from "./transport";
+
+const NAMESPACE = "gh-http-cache";
+const LIMITS = { maxBody: 10, maxSize: 20, ttlMs: 60_000 };
+
+const response = (body: string) => ({ etag: `"${body}"`, lastModified: null, body, next: null });
+
+const run = <A, E>(effect: Effect.Effect<A, E, StoreService>) =>
+  Effect.runPromise(
+    Effect.gen(function* () {
+      const store = yield* StoreService;
+      // Every test starts from an empty cache
+      for (const key of yield* store.list(NAMESPACE)) yield* store.delete(NAMESPACE, key);
+      return yield* effect;
+    }).pipe(Effect.provide(StoreService.Default)),
+  );
+
+describe("makeHttpCache", () => {
+  test("serves what it stored", async () => {
+    const cached = await run(
+      Effect.gen(function* () {
+        const cache = yield* makeHttpCache(yield* StoreService, LIMITS);
+        yield* cache.set("a", response("aaaa"));
+        return yield* cache.get("a");
+      }),
+    );
+
+    expect(cached).toEqual(response("aaaa"));
+  });
+
+  test("skips bodies over the size limit and drops what they replace", async () => {
+    const [tooBig, replaced] = await run(
+      Effect.gen(function* () {
+        const cache = yield* makeHttpCache(yield* StoreService, LIMITS);
+        yield* cache.set("big", response("x".repeat(11)));
+        yield* cache.set("a", response("aaaa"));
+        yield* cache.set("a", response("y".repeat(11)));
+        return [yield* cache.get("big"), yield* cache.get("a")] as const;
+      }),
+    );
+
+    expect(tooBig).toBeNull();
+    expect(replaced).toBeNull();
+  });
+
+  test("evicts the least recently used responses past the size cap", async () => {
+    const [a, b, c, keys] = await run(
+      Effect.gen(function* () {
+        const store = yield* StoreService;
+        const cache = yield* makeHttpCache(store, LIMITS);
+        yield* cache.set("a", response("aaaaaaaa"));
+        yield* Effect.sleep("2 millis");
+        yield* cache.set("b", response("bbbbbbbb"));
+        yield* Effect.sleep("2 millis");
+        // Reading "a" makes "b" the oldest
+        yield* cache.get("a");
+        yield* Effect.sleep("2 millis");
+        yield* cache.set("c", response("cccccccc"));
+        return [
+          yield* cache.get("a"),
+          yield* cache.get("b"),
+          yield* cache.get("c"),
+          yield* store.list(NAMESPACE),
+        ] as const;
+      }),
+    );
+
+    expect(a?.body).toBe("aaaaaaaa");
+    expect(b).toBeNull();
+    expect(c?.body).toBe("cccccccc");
+    expect(keys.toSorted()).toEqual(["a", "c", "index"]);
+  });
+
+  test("drops expired and unindexed responses on startup", async () => {
+    const [fresh, expired, orphan] = await run(
+      Effect.gen(function* () {
+        const store = yield* StoreService;
+        yield* store.set(NAMESPACE, "fresh", response("fresh"));
+        yield* store.set(NAMESPACE, "expired", response("old"));
+        yield* store.set(NAMESPACE, "orphan", response("orphan"));
+        yield* store.set(NAMESPACE, "index", {
+          fresh: { size: 5, usedAt: Date.now() },
+          expired: { size: 3, usedAt: Date.now() - 2 * LIMITS.ttlMs },
+        });
+
+        const cache = yield* makeHttpCache(store, LIMITS);
+        return [
+          yield* cache.get("fresh"),
+          yield* store.get(NAMESPACE, "expired"),
+          yield* store.get(NAMESPACE, "orphan"),
+        ] as const;
+      }),
+    );
+
+    expect(fresh?.body).toBe("fresh");
+    expect(expired).toBeNull();
+    expect(orphan).toBeNull();
+  });
+});
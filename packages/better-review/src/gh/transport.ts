@@ -0,0 +1,531 @@
+// =============================================================================
+// GhTransport - How GhService talks to GitHub
+// =============================================================================
+
+import { createHash } from "node:crypto";
+
+import { Command } from "@effect/platform";
+import { BunContext } from "@effect/platform-bun";
+import { Context, Data, Duration, Effect, Layer, Ref, Schedule } from "effect";
+
+import {
+  DEFAULT_GITHUB_HOST,
+  type RateLimitResource,
+  type RateLimitStatus,
+} from "@better-review/shared";
+
+import { StoreService } from "../store";
+
+export class GhTransportError extends Data.TaggedError("GhTransportError")<{
+  /** HTTP status, when the failure came from GitHub rather than the connection */
+  readonly status: number | null;
+  readonly message: string;
+  /** Seconds GitHub asked us to wait; only set when the request was rate limited */
+  readonly retryAfter?: number;
+}> {}
+
+export interface GhRequest {
+  /** Defaults to GH_HOST or github.com, matching gh */
+  host?: string;
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  /** REST path without a leading slash (e.g. `repos/o/r/pulls/1`), or `graphql` */
+  path: string;
+  /** Sent as JSON */
+  body?: unknown;
+  accept?: string;
+}
+
+interface BaseTransport {
+  /** Make a request and return the raw response body */
+  request: (req: GhRequest) => Effect.Effect<string, GhTransportError, never>;
+  /** Follow REST pagination and return every page's parsed JSON body */
+  requestPages: (req: GhRequest) => Effect.Effect<readonly unknown[], GhTransportError, never>;
+}
+
+interface Transport extends BaseTransport {
+  /** Quota last reported by GitHub's rate-limit headers (empty until a response is seen) */
+  rateLimit: (host?: string) => Effect.Effect<RateLimitStatus, never, never>;
+}
+
+export class GhTransport extends Context.Tag("GhTransport")<GhTransport, Transport>() {}
+
+const JSON_ACCEPT = "application/vnd.github+json";
+
+const resolveHost = (host: string | undefined) =>
+  host ?? process.env.GH_HOST ?? DEFAULT_GITHUB_HOST;
+
+// github.com serves its API from a separate domain; Enterprise Server hosts it under /api
+const apiUrl = (host: string, path: string) => {
+  if (host === DEFAULT_GITHUB_HOST) return `https://api.github.com/${path}`;
+  return path === "graphql" ? `https://${host}/api/graphql` : `https://${host}/api/v3/${path}`;
+};
+
+const parseJson = (text: string) =>
+  Effect.try({
+    try: (): unknown => JSON.parse(text),
+    catch: () => new GhTransportError({ status: null, message: "Invalid JSON from GitHub" }),
+  });
+
+// GitHub error bodies look like { "message": "Not Found", ... }
+const errorMessage = (text: string, fallback: string) => {
+  try {
+    const body = JSON.parse(text) as { message?: unknown };
+    return typeof body.message === "string" ? body.message : fallback;
+  } catch {
+    return text.trim() || fallback;
+  }
+};
+
+// =============================================================================
+// Rate limits
+// =============================================================================
+
+// Longest wait worth holding a request open for; beyond that the caller gets the error
+const MAX_RETRY_WAIT_SECONDS = 60;
+
+// GitHub's advice for secondary limits that come without a retry-after header
+const SECONDARY_LIMIT_WAIT_SECONDS = 60;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// Primary limits send remaining=0 with a reset time; secondary limits send retry-after
+// (or nothing but the message). Other 403s are permission errors and aren't retried.
+const rateLimitRetryAfter = (status: number, headers: Headers, message: string) => {
+  if (status !== 403 && status !== 429) return undefined;
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) return Number(retryAfter);
+  const reset = headers.get("x-ratelimit-reset");
+  if (headers.get("x-ratelimit-remaining") === "0" && reset) {
+    return Math.max(0, Number(reset) - nowSeconds());
+  }
+  return /rate limit/i.test(message) ? SECONDARY_LIMIT_WAIT_SECONDS : undefined;
+};
+
+interface HostLimits {
+  resources: ReadonlyMap<string, RateLimitResource>;
+  throttledUntil: number | null;
+}
+
+const makeRateLimits = Effect.gen(function* () {
+  const state = yield* Ref.make(new Map<string, HostLimits>());
+
+  const update = (host: string, f: (limits: HostLimits) => HostLimits) =>
+    Ref.update(state, (hosts) => {
+      const next = new Map(hosts);
+      next.set(host, f(hosts.get(host) ?? { resources: new Map(), throttledUntil: null }));
+      return next;
+    });
+
+  return {
+    /** Remember the quota from a response's x-ratelimit-* headers */
+    record: (host: string, headers: Headers) => {
+      const resource = headers.get("x-ratelimit-resource");
+      const limit = headers.get("x-ratelimit-limit");
+      const remaining = headers.get("x-ratelimit-remaining");
+      const reset = headers.get("x-ratelimit-reset");
+      if (!resource || !limit || remaining === null || !reset) return Effect.void;
+      return update(host, (limits) => ({
+        ...limits,
+        resources: new Map(limits.resources).set(resource, {
+          resource,
+          limit: Number(limit),
+          remaining: Number(remaining),
+          reset: Number(reset),
+        }),
+      }));
+    },
+
+    /** Hold every request to a host until GitHub's backoff has passed */
+    throttle: (host: string, seconds: number) =>
+      update(host, (limits) => ({
+        ...limits,
+        throttledUntil: Math.max(limits.throttledUntil ?? 0, nowSeconds() + seconds),
+      })),
+
+    /** Seconds until a host may be called again (0 when it isn't throttled) */
+    waitFor: (host: string) =>
+      Ref.get(state).pipe(
+        Effect.map((hosts) => Math.max(0, (hosts.get(host)?.throttledUntil ?? 0) - nowSeconds())),
+      ),
+
+    status: (host: string) =>
+      Ref.get(state).pipe(
+        Effect.map((hosts): RateLimitStatus => {
+          const limits = hosts.get(host);
+          const throttledUntil = limits?.throttledUntil ?? null;
+          return {
+            host,
+            resources: [...(limits?.resources.values() ?? [])],
+            throttledUntil: throttledUntil && throttledUntil > nowSeconds() ? throttledUntil : null,
+          };
+        }),
+      ),
+  };
+});
+
+type RateLimits = Effect.Effect.Success<typeof makeRateLimits>;
+
+const backoff = Schedule.exponential("1 second").pipe(
+  Schedule.jittered,
+  Schedule.intersect(Schedule.recurs(3)),
+);
+
+// Wait out an active backoff before each attempt, and retry rate-limited requests.
+// A throttled host makes concurrent requests queue behind the backoff instead of
+// each spending another request (GitHub extends secondary limits for clients that keep going).
+const withRateLimits = (transport: BaseTransport, limits: RateLimits): Transport => {
+  const guarded = <A>(req: GhRequest, run: Effect.Effect<A, GhTransportError>) => {
+    const host = resolveHost(req.host);
+    return Effect.gen(function* () {
+      const wait = yield* limits.waitFor(host);
+      if (wait > MAX_RETRY_WAIT_SECONDS) {
+        return yield* new GhTransportError({
+          status: 429,
+          message: `GitHub rate limit reached, try again in ${Math.ceil(wait / 60)} min`,
+          retryAfter: wait,
+        });
+      }
+      if (wait > 0) yield* Effect.sleep(Duration.seconds(wait));
+      return yield* run.pipe(
+        Effect.tapError((error) =>
+          error.retryAfter === undefined ? Effect.void : limits.throttle(host, error.retryAfter),
+        ),
+      );
+    }).pipe(
+      Effect.retry({
+        schedule: backoff,
+        while: (error) =>
+          error.retryAfter !== undefined && error.retryAfter <= MAX_RETRY_WAIT_SECONDS,
+      }),
+    );
+  };
+
+  return {
+    request: (req) => guarded(req, transport.request(req)),
+    requestPages: (req) => guarded(req, transport.requestPages(req)),
+    rateLimit: (host) => limits.status(resolveHost(host)),
+  };
+};
+
+// =============================================================================
+// HTTP transport
+// =============================================================================
+
+// One token per host for the lifetime of the server; gh refreshes its own storage
+const fetchToken = (host: string) =>
+  Command.string(Command.make("gh", "auth", "token", "--hostname", host)).pipe(
+    Effect.map((token) => token.trim()),
+    Effect.filterOrFail(
+      (token) => token !== "",
+      () => "empty token",
+    ),
+    Effect.mapError(
+      () => new GhTransportError({ status: null, message: `Not logged in to ${host} with gh` }),
+    ),
+    Effect.provide(BunContext.layer),
+  );
+
+const NEXT_LINK = /<([^>]+)>;\s*rel="next"/;
+
+// Conditional request cache for REST reads, persisted in StoreService
+const HTTP_CACHE_NAMESPACE = "gh-http-cache";
+// Sizes and last use of every cached response, so eviction survives restarts
+const HTTP_CACHE_INDEX = "index";
+
+interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  body: string;
+  next: string | null;
+}
+
+interface CacheEntry {
+  size: number;
+  usedAt: number;
+}
+
+export interface HttpCacheLimits {
+  /** Bodies larger than this (big diffs, blobs, job logs) are never cached */
+  maxBody: number;
+  /** Least recently used responses are evicted once the cache grows past this */
+  maxSize: number;
+  /** Responses unused for this long are dropped on startup */
+  ttlMs: number;
+}
+
+const HTTP_CACHE_LIMITS: HttpCacheLimits = {
+  maxBody: 1024 * 1024,
+  maxSize: 32 * 1024 * 1024,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Size-capped LRU over StoreService. StoreService also keeps what it reads in memory,
+ * so evicting through it bounds both the disk namespace and the process.
+ */
+export const makeHttpCache = (store: StoreService, limits: HttpCacheLimits = HTTP_CACHE_LIMITS) =>
+  Effect.gen(function* () {
+    const now = Date.now();
+    const saved = yield* store
+      .get<Record<string, CacheEntry>>(HTTP_CACHE_NAMESPACE, HTTP_CACHE_INDEX)
+      .pipe(Effect.orElseSucceed(() => null));
+    const live = new Map(
+      Object.entries(saved ?? {}).filter(([, entry]) => now - entry.usedAt < limits.ttlMs),
+    );
+    const index = yield* Ref.make(live);
+    // Saves evict and rewrite the index, so they run one at a time
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const saveIndex = Ref.get(index).pipe(
+      Effect.flatMap((entries) =>
+        store.set(HTTP_CACHE_NAMESPACE, HTTP_CACHE_INDEX, Object.fromEntries(entries)),
+      ),
+      Effect.ignore,
+    );
+
+    const remove = (keys: readonly string[]) =>
+      Effect.gen(function* () {
+        yield* Effect.forEach(
+          keys,
+          (key) => store.delete(HTTP_CACHE_NAMESPACE, key).pipe(Effect.ignore),
+          { discard: true },
+        );
+        yield* Ref.update(index, (entries) => {
+          const next = new Map(entries);
+          for (const key of keys) next.delete(key);
+          return next;
+        });
+      });
+
+    // Expired responses, and any written before the index existed
+    const keys = yield* store.list(HTTP_CACHE_NAMESPACE).pipe(Effect.orElseSucceed(() => []));
+    yield* remove(keys.filter((key) => key !== HTTP_CACHE_INDEX && !live.has(key)));
+    yield* saveIndex;
+
+    const evict = Effect.gen(function* () {
+      const entries = [...(yield* Ref.get(index))].sort(([, a], [, b]) => a.usedAt - b.usedAt);
+      let total = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+      const evicted: string[] = [];
+      for (const [key, entry] of entries) {
+        if (total <= limits.maxSize) break;
+        total -= entry.size;
+        evicted.push(key);
+      }
+      yield* remove(evicted);
+    });
+
+    return {
+      get: (key: string) =>
+        Effect.gen(function* () {
+          if (!(yield* Ref.get(index)).has(key)) return null;
+          const cached = yield* store
+            .get<CachedResponse>(HTTP_CACHE_NAMESPACE, key)
+            .pipe(Effect.orElseSucceed(() => null));
+          // Only saved with the next write; losing a hit's recency on a crash is harmless
+          yield* Ref.update(index, (entries) => {
+            const entry = entries.get(key);
+            return entry ? new Map(entries).set(key, { ...entry, usedAt: Date.now() }) : entries;
+          });
+          return cached;
+        }),
+
+      // A failed write only costs a full response next time
+      set: (key: string, response: CachedResponse) =>
+        lock.withPermits(1)(
+          Effect.gen(function* () {
+            const size = response.body.length;
+            if (size > limits.maxBody) {
+              // The stored ETag no longer matches what GitHub would send
+              yield* remove([key]);
+            } else {
+              const written = yield* store.set(HTTP_CACHE_NAMESPACE, key, response).pipe(
+                Effect.as(true),
+                Effect.orElseSucceed(() => false),
+              );
+              if (!written) return;
+              yield* Ref.update(index, (entries) =>
+                new Map(entries).set(key, { size, usedAt: Date.now() }),
+              );
+              yield* evict;
+            }
+            yield* saveIndex;
+          }),
+        ),
+    };
+  });
+
+type HttpCache = Effect.Effect.Success<ReturnType<typeof makeHttpCache>>;
+
+// Responses vary by token (private repos, viewer fields), so the token is part of the key
+const cacheKey = (url: string, accept: string, token: string) =>
+  createHash("sha256").update(`${token}\n${accept}\n${url}`).digest("hex");
+
+// fetch keeps connections alive and pools them per origin, so requests after the
+// first skip the TCP/TLS handshake that every gh subprocess pays. GETs revalidate
+// against the stored ETag/Last-Modified; GitHub doesn't count 304s against the rate limit.
+// GraphQL (PR batches, PR search) has no conditional requests, so it's always refetched.
+const makeHttpTransport = (
+  getToken: (host: string) => Effect.Effect<string, GhTransportError>,
+  cache: HttpCache,
+  limits: RateLimits,
+): BaseTransport => {
+  const send = (url: string, req: GhRequest) =>
+    Effect.gen(function* () {
+      const host = resolveHost(req.host);
+      const token = yield* getToken(host);
+      const accept = req.accept ?? JSON_ACCEPT;
+
+      // GraphQL is always a POST, so only REST reads are cacheable
+      const key = (req.method ?? "GET") === "GET" ? cacheKey(url, accept, token) : null;
+      const cached = key ? yield* cache.get(key) : null;
+
+      const response = yield* Effect.tryPromise({
+        try: (signal) =>
+          fetch(url, {
+            method: req.method ?? "GET",
+            headers: {
+              Authorization: `Bearer ${token}`,
+              Accept: accept,
+              "X-GitHub-Api-Version": "2022-11-28",
+              ...(req.body === undefined ? {} : { "Content-Type": "application/json" }),
+              ...(cached?.etag ? { "If-None-Match": cached.etag } : {}),
+              ...(cached?.lastModified ? { "If-Modified-Since": cached.lastModified } : {}),
+            },
+            body: req.body === undefined ? undefined : JSON.stringify(req.body),
+            signal,
+          }),
+        catch: (error) => new GhTransportError({ status: null, message: String(error) }),
+      });
+      yield* limits.record(host, response.headers);
+      if (response.status === 304 && cached) {
+        return { text: cached.body, next: cached.next };
+      }
+
+      const text = yield* Effect.tryPromise({
+        try: () => response.text(),
+        catch: (error) => new GhTransportError({ status: response.status, message: String(error) }),
+      });
+      if (!response.ok) {
+        const message = errorMessage(text, `HTTP ${response.status}`);
+        return yield* new GhTransportError({
+          status: response.status,
+          message,
+          retryAfter: rateLimitRetryAfter(response.status, response.headers, message),
+        });
+      }
+      const next = response.headers.get("link")?.match(NEXT_LINK)?.[1] ?? null;
+
+      const etag = response.headers.get("etag");
+      const lastModified = response.headers.get("last-modified");
+      if (key && (etag || lastModified)) {
+        yield* cache.set(key, { etag, lastModified, body: text, next });
+      }
+      return { text, next };
+    });
+
+  return {
+    request: (req) =>
+      send(apiUrl(resolveHost(req.host), req.path), req).pipe(Effect.map(({ text }) => text)),
+
+    requestPages: (req) =>
+      Effect.gen(function* () {
+        const pages: unknown[] = [];
+        let url: string | null = apiUrl(resolveHost(req.host), req.path);
+        while (url) {
+          const { text, next }: { text: string; next: string | null } = yield* send(url, req);
+          pages.push(yield* parseJson(text));
+          url = next;
+        }
+        return pages;
+      }),
+  };
+};
+
+// =============================================================================
+// CLI transport
+// =============================================================================
+
+const HTTP_STATUS = /\(HTTP (\d{3})\)/;
+
+const cliArgs = (req: GhRequest) => [
+  "api",
+  ...(req.host ? ["--hostname", req.host] : []),
+  req.path,
+  "-X",
+  req.method ?? "GET",
+  "-H",
+  `Accept: ${req.accept ?? JSON_ACCEPT}`,
+];
+
+// gh prints "gh: Not Found (HTTP 404)" to stderr on API errors
+const runGh = (args: string[], body: unknown) =>
+  Effect.tryPromise({
+    try: () =>
+      body === undefined
+        ? Bun.$`gh ${args}`.quiet().text()
+        : Bun.$`echo ${JSON.stringify(body)} | gh ${args} --input -`.quiet().text(),
+    catch: (error) => {
+      const stderr =
+        error && typeof error === "object" && "stderr" in error
+          ? String((error as { stderr: unknown }).stderr).trim()
+          : String(error);
+      const status = stderr.match(HTTP_STATUS)?.[1];
+      // gh doesn't surface response headers on failure, so only the message tells
+      // a rate limit apart from a permission error
+      return new GhTransportError({
+        status: status ? Number(status) : null,
+        message: stderr.replace(/^gh: /, "").replace(HTTP_STATUS, "").trim() || "gh api failed",
+        retryAfter: /rate limit/i.test(stderr) ? SECONDARY_LIMIT_WAIT_SECONDS : undefined,
+      });
+    },
+  });
+
+const makeCliTransport = (): BaseTransport => ({
+  request: (req) => runGh(cliArgs(req), req.body),
+
+  requestPages: (req) =>
+    runGh([...cliArgs(req), "--paginate", "--slurp"], req.body).pipe(
+      Effect.flatMap(parseJson),
+      Effect.map((pages) => (Array.isArray(pages) ? pages : [pages])),
+    ),
+});
+
+// =============================================================================
+// Layers
+// =============================================================================
+
+/** Always shell out to `gh api` (one process per request) */
+export const GhTransportCli = Layer.effect(
+  GhTransport,
+  makeRateLimits.pipe(Effect.map((limits) => withRateLimits(makeCliTransport(), limits))),
+);
+
+/**
+ * Direct HTTP with a token borrowed from `gh auth token`. Hosts gh isn't logged in
+ * to fall back to the CLI, and BETTER_REVIEW_GH_TRANSPORT=cli forces the CLI everywhere.
+ */
+export const GhTransportLive = Layer.effect(
+  GhTransport,
+  Effect.gen(function* () {
+    const limits = yield* makeRateLimits;
+    const cli = makeCliTransport();
+    if (process.env.BETTER_REVIEW_GH_TRANSPORT === "cli") return withRateLimits(cli, limits);
+
+    const cache = yield* makeHttpCache(yield* StoreService);
+    const getToken = yield* Effect.cachedFunction(fetchToken);
+    const http = makeHttpTransport(getToken, cache, limits);
+
+    const pick = (req: GhRequest) =>
+      getToken(resolveHost(req.host)).pipe(
+        Effect.match({ onFailure: () => cli, onSuccess: () => http }),
+      );
+
+    return withRateLimits(
+      {
+        request: (req) => pick(req).pipe(Effect.flatMap((t) => t.request(req))),
+        requestPages: (req) => pick(req).pipe(Effect.flatMap((t) => t.requestPages(req))),
+      },
+      limits,
+    );
+  }),
+).pipe(Layer.provide(StoreService.Default));
@@ -1,13 +1,9 @@
-import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
 import { Effect, Fiber } from "effect";
 
-import { filterDiffByLineRange } from "./diff";
 import { GhService } from "./gh/gh";
-import { getErrorMessage } from "./response";
+import { createRoutes } from "./routes";
 import { runtime } from "./runtime";
 import { DiffCacheService, PrContextService } from "./state";
-import { createContext } from "./trpc/context";
-import { appRouter } from "./trpc/routers";
 
 // =============================================================================
 // Static File Serving (Production)
@@ -33,148 +29,6 @@ async function serveStatic(pathname: string): Promise<Response> {
   });
 }
 
-// =============================================================================
-// Route Handlers
-// =============================================================================
-
-type RouteServices = {
-  gh: Effect.Effect.Success<typeof GhService>;
-  diffCache: Effect.Effect.Success<typeof DiffCacheService>;
-  prContext: Effect.Effect.Success<typeof PrContextService>;
-};
-
-const createRoutes = ({ gh, diffCache, prContext }: RouteServices) => ({
-  // tRPC endpoint
-  "/api/trpc/*": (req: Request) =>
-    fetchRequestHandler({
-      endpoint: "/api/trpc",
-      req,
-      router: appRouter,
-      createContext,
-    }),
-
-  // REST endpoint: /api/pr/file-diff (used by OpenCode pr_diff tool)
-  "/api/pr/file-diff": {
-    GET: async (req: Request) => {
-      const url = new URL(req.url);
-      const sessionId = url.searchParams.get("sessionId");
-      const file = url.searchParams.get("file");
-      const startLine = url.searchParams.get("startLine");
-      const endLine = url.searchParams.get("endLine");
-
-      if (!sessionId || !file) {
-        return Response.json({ error: "Missing sessionId or file" }, { status: 400 });
-      }
-
-      try {
-        const prUrl = await runtime.runPromise(prContext.getPrUrlBySessionId(sessionId));
-
-        if (!prUrl) {
-          return Response.json({ error: "Session not found. Load a PR first." }, { status: 404 });
-        }
-
-        const prDiffs = await runtime.runPromise(diffCache.get(prUrl));
-
-        if (!prDiffs) {
-          return Response.json(
-            { error: "Diffs not cached. This shouldn't happen." },
-            { status: 500 },
-          );
-        }
-
-        const fileMeta = prDiffs.get(file);
-        if (!fileMeta) {
-          return Response.json({ error: `No diff found for file: ${file}` }, { status: 404 });
-        }
-
-        let diffOutput = fileMeta.diff;
-        if (startLine !== null || endLine !== null) {
-          diffOutput = filterDiffByLineRange(
-            diffOutput,
-            startLine ? parseInt(startLine, 10) : undefined,
-            endLine ? parseInt(endLine, 10) : undefined,
-          );
-        }
-
-        return Response.json({ diff: diffOutput });
-      } catch (error) {
-        return Response.json({ error: getErrorMessage(error) }, { status: 500 });
-      }
-    },
-  },
-
-  // REST endpoint: /api/pr/metadata (used by OpenCode pr_metadata tool)
-  "/api/pr/metadata": {
-    GET: async (req: Request) => {
-      const url = new URL(req.url);
-      const sessionId = url.searchParams.get("sessionId");
-
-      if (!sessionId) {
-        return Response.json({ error: "Missing sessionId" }, { status: 400 });
-      }
-
-      try {
-        const prUrl = await runtime.runPromise(prContext.getPrUrlBySessionId(sessionId));
-
-        if (!prUrl) {
-          return Response.json({ error: "Session not found. Load a PR first." }, { status: 404 });
-        }
-
-        // Fetch PR status and diffs in parallel
-        const [prStatus, prDiffs] = await runtime.runPromise(
-          Effect.all([gh.getPrStatus(prUrl), diffCache.get(prUrl)], {
-            concurrency: "unbounded",
-          }),
-        );
-
-        const fileStats: string[] = [];
-        const files: string[] = [];
-
-        if (prDiffs) {
-          for (const [f, fileMeta] of prDiffs) {
-            files.push(f);
-            const { totalAdded, totalRemoved, hunks } = fileMeta;
-            if (totalAdded + totalRemoved > 1000 && hunks.length > 0) {
-              const ranges = hunks
-                .map((h) => `${h.newStart}-${h.newStart + h.newCount - 1}`)
-                .join(", ");
-              fileStats.push(`${f} +${totalAdded} -${totalRemoved} [hunks: ${ranges}]`);
-            } else {
-              fileStats.push(`${f} +${totalAdded} -${totalRemoved}`);
-            }
-          }
-        }
-
-        const match = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-        const owner = match?.[1] ?? "unknown";
-        const repo = match?.[2] ?? "unknown";
-        const number = match?.[3] ?? "?";
-
-        const description = prStatus.body
-          ? prStatus.body.length > 500
-            ? prStatus.body.slice(0, 500) + "..."
-            : prStatus.body
-          : "(no description)";
-
-        const metadata = `PR: ${owner}/${repo}#${number}
-Title: ${prStatus.title}
-Author: ${prStatus.author}
-State: ${prStatus.state}${prStatus.draft ? " (draft)" : ""}
-
-Description:
-${description}
-
-Files (${files.length} changed):
-${fileStats.join("\n")}`;
-
-        return Response.json({ metadata });
-      } catch (error) {
-        return Response.json({ error: getErrorMessage(error) }, { status: 500 });
-      }
-    },
-  },
-});
-
 // =============================================================================
 // Main Application Effect
 // =============================================================================
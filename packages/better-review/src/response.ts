@@ -24,6 +24,11 @@ export const getErrorMessage = (error: unknown): string => {
     current = cause;
   }
 
+  // GitHub API errors carry their HTTP status
+  if (current && typeof current === "object" && "status" in current) {
+    if ((current as { status: unknown }).status === 404) return "PR not found";
+  }
+
   // Check stderr first (shell errors)
   if (current && typeof current === "object" && "stderr" in current) {
     const stderr = String((current as { stderr: unknown }).stderr || "").trim();
@@ -89,6 +94,8 @@ You are reviewing a **REMOTE** pull request. The local filesystem contains a DIF
 ### \`pr_metadata\`
 Get PR metadata including title, author, description, and file list with line counts.
 - For large files (>1000 lines changed), shows hunk ranges: \`file.json +5000 -200 [hunks: 1-500, 1200-1800]\`
+- Binary files show their size and blob hash on each side instead: \`logo.png (binary) 12.3 KB [1a2b3c4] -> 14.1 KB [5d6e7f8]\`
+- Renames, copies, additions, deletions and mode changes are noted after the path: \`src/new.ts (renamed from src/old.ts (92% similar), mode 100644 -> 100755) +3 -1\`
 - Use this to understand which line ranges to request for large files
 
 ### \`pr_diff\`
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+
+import { Effect } from "effect";
+
+import { GhService } from "./gh/gh";
+import { createRoutes } from "./routes";
+import { runtime } from "./runtime";
+import { DiffCacheService, PrContextService } from "./state";
+
+const PR_URL = "https://github.com/acme/widgets/pull/7";
+const SESSION_ID = "ses_routes_test";
+
+const routes = await runtime.runPromise(
+  Effect.gen(function* () {
+    const services = {
+      gh: yield* GhService,
+      diffCache: yield* DiffCacheService,
+      prContext: yield* PrContextService,
+    };
+    // What loading a PR and starting a review session does before tools call these endpoints
+    yield* services.prContext.registerSession(SESSION_ID, PR_URL);
+    yield* services.diffCache.getOrFetch(PR_URL);
+    return createRoutes(services);
+  }),
+);
+
+const get = async (handler: { GET: (req: Request) => Promise<Response> }, params: object) => {
+  const url = new URL("http://localhost/api");
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, String(value));
+  const response = await handler.GET(new Request(url));
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+};
+
+describe("/api/pr/file-diff", () => {
+  const fileDiff = routes["/api/pr/file-diff"];
+
+  test("returns one file's diff with its change info", async () => {
+    const { status, body } = await get(fileDiff, {
+      sessionId: SESSION_ID,
+      file: "src/registry.ts",
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ changeType: "added", change: "added", binary: false });
+    expect(body.diff).toContain("+export class WidgetRegistry {");
+  });
+
+  test("filters to a line range of the new file", async () => {
+    const { body } = await get(fileDiff, {
+      sessionId: SESSION_ID,
+      file: "src/registry.ts",
+      startLine: 8,
+      endLine: 9,
+    });
+    expect(body.diff).toContain("+  get = (name: string) => this.widgets.get(name);");
+    expect(body.diff).not.toContain("+export class WidgetRegistry {");
+  });
+
+  test("rejects missing parameters, unknown sessions and unknown files", async () => {
+    expect((await get(fileDiff, { sessionId: SESSION_ID })).status).toBe(400);
+    expect((await get(fileDiff, { sessionId: "ses_unknown", file: "src/app.ts" })).status).toBe(
+      404,
+    );
+    const missing = await get(fileDiff, { sessionId: SESSION_ID, file: "src/missing.ts" });
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toBe("No diff found for file: src/missing.ts");
+  });
+});
+
+describe("/api/pr/metadata", () => {
+  const metadata = routes["/api/pr/metadata"];
+
+  test("summarizes the PR and its changed files", async () => {
+    const { status, body } = await get(metadata, { sessionId: SESSION_ID });
+    expect(status).toBe(200);
+    expect(body.metadata).toBe(`PR: acme/widgets#7
+Title: Add widget registry
+Author: octocat
+State: open
+
+Description:
+Registers widgets by name so the server can look them up.
+
+Files (3 changed):
+src/app.ts +3 -1
+src/registry.ts (added) +9 -0
+assets/logo.png (binary)`);
+  });
+
+  test("requires a known session", async () => {
+    expect((await get(metadata, {})).status).toBe(400);
+    expect((await get(metadata, { sessionId: "ses_unknown" })).status).toBe(404);
+  });
+});
@@ -0,0 +1,151 @@
+// =============================================================================
+// Route Handlers - tRPC and the REST endpoints used by OpenCode tools
+// =============================================================================
+
+import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
+import { Effect } from "effect";
+
+import { parsePrUrl } from "@better-review/shared";
+
+import { binaryFiles, fileChangeInfo, filterDiffByLineRange, formatFileStat } from "./diff";
+import type { GhService } from "./gh/gh";
+import { getErrorMessage } from "./response";
+import { runtime } from "./runtime";
+import type { DiffCacheService, PrContextService } from "./state";
+import { createContext } from "./trpc/context";
+import { appRouter } from "./trpc/routers";
+
+type RouteServices = {
+  gh: Effect.Effect.Success<typeof GhService>;
+  diffCache: Effect.Effect.Success<typeof DiffCacheService>;
+  prContext: Effect.Effect.Success<typeof PrContextService>;
+};
+
+export const createRoutes = ({ gh, diffCache, prContext }: RouteServices) => ({
+  // tRPC endpoint
+  "/api/trpc/*": (req: Request) =>
+    fetchRequestHandler({
+      endpoint: "/api/trpc",
+      req,
+      router: appRouter,
+      createContext,
+    }),
+
+  // REST endpoint: /api/pr/file-diff (used by OpenCode pr_diff tool)
+  "/api/pr/file-diff": {
+    GET: async (req: Request) => {
+      const url = new URL(req.url);
+      const sessionId = url.searchParams.get("sessionId");
+      const file = url.searchParams.get("file");
+      const startLine = url.searchParams.get("startLine");
+      const endLine = url.searchParams.get("endLine");
+
+      if (!sessionId || !file) {
+        return Response.json({ error: "Missing sessionId or file" }, { status: 400 });
+      }
+
+      try {
+        const prUrl = await runtime.runPromise(prContext.getPrUrlBySessionId(sessionId));
+
+        if (!prUrl) {
+          return Response.json({ error: "Session not found. Load a PR first." }, { status: 404 });
+        }
+
+        const prDiffs = await runtime.runPromise(diffCache.get(prUrl));
+
+        if (!prDiffs) {
+          return Response.json(
+            { error: "Diffs not cached. This shouldn't happen." },
+            { status: 500 },
+          );
+        }
+
+        const fileMeta = prDiffs.get(file);
+        if (!fileMeta) {
+          return Response.json({ error: `No diff found for file: ${file}` }, { status: 404 });
+        }
+
+        let diffOutput = fileMeta.diff;
+        if (startLine !== null || endLine !== null) {
+          diffOutput = filterDiffByLineRange(
+            diffOutput,
+            startLine ? parseInt(startLine, 10) : undefined,
+            endLine ? parseInt(endLine, 10) : undefined,
+          );
+        }
+
+        return Response.json({ diff: diffOutput, ...fileChangeInfo(fileMeta) });
+      } catch (error) {
+        return Response.json({ error: getErrorMessage(error) }, { status: 500 });
+      }
+    },
+  },
+
+  // REST endpoint: /api/pr/metadata (used by OpenCode pr_metadata tool)
+  "/api/pr/metadata": {
+    GET: async (req: Request) => {
+      const url = new URL(req.url);
+      const sessionId = url.searchParams.get("sessionId");
+
+      if (!sessionId) {
+        return Response.json({ error: "Missing sessionId" }, { status: 400 });
+      }
+
+      try {
+        const prUrl = await runtime.runPromise(prContext.getPrUrlBySessionId(sessionId));
+
+        if (!prUrl) {
+          return Response.json({ error: "Session not found. Load a PR first." }, { status: 404 });
+        }
+
+        // Fetch PR status and diffs in parallel
+        const [prStatus, prDiffs] = await runtime.runPromise(
+          Effect.all([gh.getPrStatus(prUrl), diffCache.get(prUrl)], {
+            concurrency: "unbounded",
+          }),
+        );
+
+        const fileStats: string[] = [];
+        const files: string[] = [];
+
+        if (prDiffs) {
+          const binaryBlobs = await runtime.runPromise(
+            gh
+              .getBinaryFileBlobs(prUrl, binaryFiles(prDiffs))
+              .pipe(Effect.orElseSucceed(() => new Map())),
+          );
+          for (const [f, fileMeta] of prDiffs) {
+            files.push(f);
+            fileStats.push(formatFileStat(f, fileMeta, binaryBlobs.get(f)));
+          }
+        }
+
+        const parsed = parsePrUrl(prUrl);
+        const owner = parsed?.owner ?? "unknown";
+        const repo = parsed?.repo ?? "unknown";
+        const number = parsed?.number ?? "?";
+
+        const description = prStatus.body
+          ? prStatus.body.length > 500
+            ? prStatus.body.slice(0, 500) + "..."
+            : prStatus.body
+          : "(no description)";
+
+        const metadata = `PR: ${owner}/${repo}#${number}
+Title: ${prStatus.title}
+Author: ${prStatus.author}
+State: ${prStatus.state}${prStatus.draft ? " (draft)" : ""}
+
+Description:
+${description}
+
+Files (${files.length} changed):
+${fileStats.join("\n")}`;
+
+        return Response.json({ metadata });
+      } catch (error) {
+        return Response.json({ error: getErrorMessage(error) }, { status: 500 });
+      }
+    },
+  },
+});
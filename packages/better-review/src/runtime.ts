@@ -7,14 +7,21 @@ import { Layer, ManagedRuntime } from "effect";
 import { EventBroadcaster } from "./event-broadcaster";
 import { GhServiceLive } from "./gh/gh";
 import { OpencodeService } from "./opencode";
-import { DiffCacheService, PrContextService } from "./state";
+import {
+  DiffCacheService,
+  FileContentsCacheService,
+  PrContextService,
+  SavedSearchService,
+} from "./state";
 
 // Single shared layer with all services
 export const layers = Layer.mergeAll(
   GhServiceLive,
   OpencodeService.Default,
   DiffCacheService.Default,
+  FileContentsCacheService.Default,
   PrContextService.Default,
+  SavedSearchService.Default,
   EventBroadcaster.Default,
 );
 
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+
+import { Effect } from "effect";
+
+import { DiffCacheService } from "./state";
+
+const PR_URL = "https://github.com/acme/widgets/pull/7";
+
+const run = <A, E>(effect: Effect.Effect<A, E, DiffCacheService>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(DiffCacheService.Default)));
+
+describe("DiffCacheService", () => {
+  test("getOrFetch splits the PR diff into files", async () => {
+    const files = await run(
+      Effect.gen(function* () {
+        const diffCache = yield* DiffCacheService;
+        return yield* diffCache.getOrFetch(PR_URL);
+      }),
+    );
+
+    expect([...files.keys()]).toEqual(["src/app.ts", "src/registry.ts", "assets/logo.png"]);
+    expect(files.get("src/app.ts")).toMatchObject({
+      changeType: "modified",
+      totalAdded: 3,
+      totalRemoved: 1,
+      hunks: [{ oldStart: 1, oldCount: 5, newStart: 1, newCount: 7 }],
+    });
+    expect(files.get("src/registry.ts")).toMatchObject({ changeType: "added", totalAdded: 9 });
+    expect(files.get("assets/logo.png")).toMatchObject({ binary: true, hunks: [] });
+  });
+
+  test("get only returns diffs that were fetched, until they're cleared", async () => {
+    const [before, fetched, cached, afterClear] = await run(
+      Effect.gen(function* () {
+        const diffCache = yield* DiffCacheService;
+        const before = yield* diffCache.get(PR_URL);
+        const fetched = yield* diffCache.getOrFetch(PR_URL);
+        const cached = yield* diffCache.get(PR_URL);
+        yield* diffCache.clear(PR_URL);
+        return [before, fetched, cached, yield* diffCache.get(PR_URL)] as const;
+      }),
+    );
+
+    expect(before).toBeUndefined();
+    expect(cached).toBe(fetched);
+    expect(afterClear).toBeUndefined();
+  });
+
+  test("getOrFetch serves repeat calls from the cache", async () => {
+    const [first, second] = await run(
+      Effect.gen(function* () {
+        const diffCache = yield* DiffCacheService;
+        return [yield* diffCache.getOrFetch(PR_URL), yield* diffCache.getOrFetch(PR_URL)] as const;
+      }),
+    );
+    expect(second).toBe(first);
+  });
+});
@@ -4,10 +4,18 @@
 
 import { Effect, Ref } from "effect";
 
-import type { PrInfo, StoredSession, PrSessionData } from "@better-review/shared";
+import {
+  DEFAULT_GITHUB_HOST,
+  DEFAULT_SAVED_SEARCHES,
+  parsePrUrl,
+  type SavedSearch,
+  type PrInfo,
+  type StoredSession,
+  type PrSessionData,
+} from "@better-review/shared";
 
 import { type FileDiffMeta, parseFullDiff } from "./diff";
-import { GhService, GhServiceLive } from "./gh/gh";
+import { type GetFileContentsParams, GhService, GhServiceLive } from "./gh/gh";
 import { StoreService } from "./store";
 
 // =============================================================================
@@ -27,20 +35,12 @@ export type { PrInfo, StoredSession, PrSessionData };
 // Helpers
 // =============================================================================
 
-function parsePrUrl(url: string): { owner: string; repo: string; number: number } | null {
-  const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-  if (!match) return null;
-  return {
-    owner: match[1],
-    repo: match[2],
-    number: parseInt(match[3], 10),
-  };
-}
-
+// Sessions on github.com keep their original host-less keys
 function prUrlToKey(url: string): string | null {
   const pr = parsePrUrl(url);
   if (!pr) return null;
-  return `${pr.owner}_${pr.repo}_${pr.number}`;
+  const key = `${pr.owner}_${pr.repo}_${pr.number}`;
+  return pr.host === DEFAULT_GITHUB_HOST ? key : `${pr.host}_${key}`;
 }
 
 // =============================================================================
@@ -113,6 +113,49 @@ export class DiffCacheService extends Effect.Service<DiffCacheService>()("DiffCa
   dependencies: [GhServiceLive],
 }) {}
 
+// =============================================================================
+// FileContentsCacheService
+// =============================================================================
+
+// Enough for both sides of every file a reviewer expands in a large PR
+const MAX_CACHED_FILES = 500;
+
+export class FileContentsCacheService extends Effect.Service<FileContentsCacheService>()(
+  "FileContentsCacheService",
+  {
+    scoped: Effect.gen(function* () {
+      // Ref holding: "host/owner/repo@sha:path" -> contents (null if absent at that commit).
+      // Contents at a commit SHA never change, so entries are only evicted for size.
+      const cache = yield* Ref.make(new Map<string, string | null>());
+
+      const gh = yield* GhService;
+
+      return {
+        /**
+         * Get a file's contents at a commit SHA, fetching and caching them on first use
+         */
+        getOrFetch: (params: GetFileContentsParams) =>
+          Effect.gen(function* () {
+            const key = `${params.host}/${params.owner}/${params.repo}@${params.ref}:${params.path}`;
+            const current = yield* Ref.get(cache);
+            if (current.has(key)) return current.get(key) ?? null;
+
+            const contents = yield* gh.getFileContents(params);
+            yield* Ref.update(cache, (m) => {
+              const newMap = new Map(m);
+              newMap.set(key, contents);
+              // Maps iterate in insertion order, so the first key is the oldest
+              if (newMap.size > MAX_CACHED_FILES) newMap.delete(newMap.keys().next().value!);
+              return newMap;
+            });
+            return contents;
+          }),
+      };
+    }),
+    dependencies: [GhServiceLive],
+  },
+) {}
+
 // =============================================================================
 // PrContextService
 // =============================================================================
@@ -220,9 +263,10 @@ export class PrContextService extends Effect.Service<PrContextService>()("PrCont
           // Get existing data or create new
           const existing = yield* store.get<PrSessionData>(SESSIONS_NAMESPACE, key);
           const data: PrSessionData = existing || {
+            host: pr.host,
             owner: pr.owner,
             repo: pr.repo,
-            number: pr.number,
+            number: parseInt(pr.number, 10),
             url: prUrl,
             sessions: [],
             activeSessionId: null,
@@ -338,3 +382,32 @@ export class PrContextService extends Effect.Service<PrContextService>()("PrCont
   }),
   dependencies: [StoreService.Default],
 }) {}
+
+// =============================================================================
+// SavedSearchService - User-defined PR inbox searches
+// =============================================================================
+
+const SETTINGS_NAMESPACE = "settings";
+const SAVED_SEARCHES_KEY = "saved-searches";
+
+export class SavedSearchService extends Effect.Service<SavedSearchService>()("SavedSearchService", {
+  scoped: Effect.gen(function* () {
+    const store = yield* StoreService;
+
+    return {
+      /**
+       * Get the saved searches (the defaults until the user saves their own)
+       */
+      list: store
+        .get<SavedSearch[]>(SETTINGS_NAMESPACE, SAVED_SEARCHES_KEY)
+        .pipe(Effect.map((searches) => searches ?? DEFAULT_SAVED_SEARCHES)),
+
+      /**
+       * Replace the saved searches
+       */
+      save: (searches: SavedSearch[]) =>
+        store.set(SETTINGS_NAMESPACE, SAVED_SEARCHES_KEY, searches),
+    };
+  }),
+  dependencies: [StoreService.Default],
+}) {}
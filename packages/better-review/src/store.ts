@@ -7,7 +7,9 @@ import { join } from "node:path";
 
 import { Effect, Ref } from "effect";
 
-const BASE_DIR = join(homedir(), ".local", "share", "better-review");
+// Overridable so tests can keep their writes out of the real data directory
+const BASE_DIR =
+  process.env.BETTER_REVIEW_DATA_DIR ?? join(homedir(), ".local", "share", "better-review");
 
 // =============================================================================
 // StoreService
@@ -130,7 +132,8 @@ export class StoreService extends Effect.Service<StoreService>()("StoreService",
         const files = yield* Effect.tryPromise(() => fs.readdir(nsDir)).pipe(
           Effect.catchAll((e) => {
             // Only treat ENOENT (directory doesn't exist) as empty list
-            const cause = e instanceof Error ? e : (e as { error?: Error }).error;
+            // tryPromise wraps the rejection in an UnknownException, itself an Error
+            const cause = e.error;
             if (cause && (cause as NodeJS.ErrnoException).code === "ENOENT") {
               return Effect.succeed([] as string[]);
             }
@@ -1,6 +1,8 @@
 import { Effect, Stream } from "effect";
 import { z } from "zod";
 
+import { DEFAULT_GITHUB_HOST, parsePrUrl } from "@better-review/shared";
+
 import { EventBroadcaster } from "../../event-broadcaster";
 import { GhService } from "../../gh/gh";
 import { OpencodeService } from "../../opencode";
@@ -52,6 +54,7 @@ export const opencodeRouter = router({
             [
               gh.getHeadSha(input.prUrl),
               prContext.setCurrent(input.prUrl, input.files, {
+                host: parsePrUrl(input.prUrl)?.host ?? DEFAULT_GITHUB_HOST,
                 owner: input.repoOwner,
                 repo: input.repoName,
                 number: String(input.prNumber),
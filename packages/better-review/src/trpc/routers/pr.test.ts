@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+
+import { createContext } from "../context";
+import { appRouter } from "./index";
+
+const PR_URL = "https://github.com/acme/widgets/pull/7";
+
+const caller = appRouter.createCaller(await createContext());
+
+describe("pr router", () => {
+  test("diff returns the raw PR diff", async () => {
+    const { diff } = await caller.pr.diff({ url: PR_URL });
+    expect(diff).toStartWith("diff --git a/src/app.ts b/src/app.ts");
+  });
+
+  test("status combines the PR, its checks and the viewer's review", async () => {
+    const status = await caller.pr.status({ url: PR_URL });
+    expect(status).toMatchObject({
+      state: "open",
+      draft: false,
+      title: "Add widget registry",
+      author: "octocat",
+      headRef: "widget-registry",
+      // A comment (502) followed the approval, which still stands
+      myReview: { id: 501, state: "APPROVED" },
+      assignees: ["octocat"],
+      checksRateLimited: false,
+    });
+    expect(status.checks.map((c) => [c.name, c.conclusion])).toEqual([
+      ["build", "success"],
+      ["lint", "failure"],
+    ]);
+    expect(status.reviewers).toEqual([
+      { name: "hubot", isTeam: false, requested: true, state: null },
+      { name: "reviewer", isTeam: false, requested: false, state: "APPROVED" },
+    ]);
+  });
+
+  test("comments carry thread state and edit permission", async () => {
+    const { comments } = await caller.pr.comments({ url: PR_URL });
+    expect(comments.map((c) => [c.id, c.canEdit, c.thread?.isResolved])).toEqual([
+      [9001, true, true],
+      [9002, false, true],
+    ]);
+  });
+
+  test("issue comments are editable only by their author", async () => {
+    const { comments } = await caller.pr.issueComments({ url: PR_URL });
+    expect(comments.map((c) => [c.user.login, c.canEdit])).toEqual([
+      ["reviewer", true],
+      ["octocat", false],
+    ]);
+  });
+
+  test("commits are mapped to PrCommit", async () => {
+    const { commits } = await caller.pr.commits({ url: PR_URL });
+    expect(commits[0]).toEqual({
+      sha: "1111111111111111111111111111111111111111",
+      message: "Add registry",
+      author: { login: "octocat", avatar_url: "https://avatars.example/octocat" },
+      date: "2026-01-02T10:00:00Z",
+      parentSha: "0000000000000000000000000000000000000000",
+    });
+  });
+
+  test("compareDiff flags a force-push that rebased the branch", async () => {
+    const base = "4444444444444444444444444444444444444444";
+    const head = "2222222222222222222222222222222222222222";
+    const result = await caller.pr.compareDiff({ url: PR_URL, base, head });
+    expect(result).toMatchObject({ base, head, rebased: true });
+    expect(result.diff).toStartWith("diff --git a/src/registry.ts b/src/registry.ts");
+  });
+
+  test("a request without a recording fails instead of reaching GitHub", async () => {
+    await expect(
+      caller.pr.diff({ url: "https://github.com/acme/widgets/pull/999" }),
+    ).rejects.toThrow("No fixture");
+  });
+});
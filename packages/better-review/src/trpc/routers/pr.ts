@@ -1,11 +1,55 @@
 import { Effect } from "effect";
 import { z } from "zod";
 
-import { filterDiffByLineRange } from "../../diff";
-import { GhService } from "../../gh/gh";
-import { DiffCacheService, PrContextService } from "../../state";
+import { type BinaryBlob, parsePrUrl, type SinceReviewDiff } from "@better-review/shared";
+
+import { getCodeOwnership } from "../../codeowners";
+import { binaryFiles, fileChangeInfo, filterDiffByLineRange, formatFileStat } from "../../diff";
+import {
+  GhService,
+  isRateLimited,
+  type PRComment,
+  type RawPRComment,
+  type ReviewThread,
+} from "../../gh/gh";
+import { DiffCacheService, FileContentsCacheService, PrContextService } from "../../state";
 import { router, publicProcedure, runEffect } from "../index";
 
+const mergeMethodSchema = z.enum(["merge", "squash", "rebase"]);
+
+const reviewersSchema = z.object({
+  prUrl: z.string(),
+  users: z.array(z.string()),
+  teams: z.array(z.string()),
+});
+
+// Largest blob sent to the browser for an image comparison
+const MAX_INLINE_BLOB_BYTES = 10 * 1024 * 1024;
+
+// Attach edit permissions and GraphQL thread state to REST review comments
+const toPrComments = (
+  comments: readonly RawPRComment[],
+  threads: readonly ReviewThread[],
+  currentUser: string,
+): PRComment[] => {
+  const threadByComment = new Map<number, ReviewThread>();
+  for (const thread of threads) {
+    for (const id of thread.commentIds) threadByComment.set(id, thread);
+  }
+  return comments.map((c) => {
+    const thread = threadByComment.get(c.id);
+    return {
+      ...c,
+      thread: thread && {
+        id: thread.id,
+        isResolved: thread.isResolved,
+        isOutdated: thread.isOutdated,
+      },
+      canEdit: c.user.login === currentUser,
+    };
+  });
+};
+
 export const prRouter = router({
   // =========================================================================
   // Read Operations
@@ -53,25 +97,170 @@ export const prRouter = router({
       runEffect(
         Effect.gen(function* () {
           const gh = yield* GhService;
-          const { owner, repo } = yield* gh.getPrInfo(input.url);
-          const diff = yield* gh.getCommitDiff({ owner, repo, sha: input.sha });
+          const { host, owner, repo } = yield* gh.getPrInfo(input.url);
+          const diff = yield* gh.getCommitDiff({ host, owner, repo, sha: input.sha });
           return { diff, sha: input.sha };
         }),
       ),
     ),
 
+  sinceLastReviewDiff: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        const prContext = yield* PrContextService;
+        const [headSha, reviewedSha, { sessions }] = yield* Effect.all([
+          gh.getHeadSha(input.url),
+          gh.getLastReviewedSha(input.url),
+          prContext.listSessions(input.url, true),
+        ]);
+
+        // Prefer the last submitted review; fall back to the head of the latest session
+        const lastSession = sessions.toSorted((a, b) => b.createdAt - a.createdAt)[0];
+        const baseSha = reviewedSha ?? lastSession?.headSha ?? null;
+        const source = reviewedSha ? "review" : lastSession ? "session" : null;
+
+        if (!baseSha || baseSha === headSha) {
+          const diff = baseSha ? "" : null;
+          return { diff, baseSha, headSha, source, rebased: false } satisfies SinceReviewDiff;
+        }
+        const compare = yield* gh.getCompareDiff({
+          prUrl: input.url,
+          base: baseSha,
+          head: headSha,
+        });
+        return { ...compare, baseSha, headSha, source } satisfies SinceReviewDiff;
+      }),
+    ),
+  ),
+
+  compareDiff: publicProcedure
+    .input(z.object({ url: z.string(), base: z.string(), head: z.string() }))
+    .query(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          // Force-pushes usually rebase, which getCompareDiff detects and diffs the PR's changes for
+          const compare = yield* gh.getCompareDiff({
+            prUrl: input.url,
+            base: input.base,
+            head: input.head,
+          });
+          return { ...compare, base: input.base, head: input.head };
+        }),
+      ),
+    ),
+
+  diffRefs: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return yield* gh.getDiffRefs(input.url);
+      }),
+    ),
+  ),
+
+  // Both sides of a file for expanding diff context. base and head must be commit SHAs,
+  // since the contents are cached per SHA.
+  fileVersions: publicProcedure
+    .input(
+      z.object({
+        url: z.string(),
+        path: z.string(),
+        prevPath: z.string().optional(),
+        base: z.string(),
+        head: z.string(),
+      }),
+    )
+    .query(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          const fileContents = yield* FileContentsCacheService;
+          const { host, owner, repo } = yield* gh.getPrInfo(input.url);
+          const [oldContents, newContents] = yield* Effect.all(
+            [
+              fileContents.getOrFetch({
+                host,
+                owner,
+                repo,
+                path: input.prevPath ?? input.path,
+                ref: input.base,
+              }),
+              fileContents.getOrFetch({ host, owner, repo, path: input.path, ref: input.head }),
+            ],
+            { concurrency: 2 },
+          );
+          return { oldContents, newContents };
+        }),
+      ),
+    ),
+
+  // Blobs of a binary file on both sides of the diff. Image bytes are included on request,
+  // for files small enough to inline as base64.
+  binaryVersions: publicProcedure
+    .input(
+      z.object({
+        url: z.string(),
+        path: z.string(),
+        prevPath: z.string().optional(),
+        base: z.string(),
+        head: z.string(),
+        content: z.boolean(),
+      }),
+    )
+    .query(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          const { host, owner, repo } = yield* gh.getPrInfo(input.url);
+          const blobs = yield* gh.getBlobs({
+            host,
+            owner,
+            repo,
+            specs: [
+              { ref: input.base, path: input.prevPath ?? input.path },
+              { ref: input.head, path: input.path },
+            ],
+          });
+          const [oldBlob, newBlob] = yield* Effect.forEach(
+            blobs,
+            (blob) =>
+              blob && input.content && blob.size <= MAX_INLINE_BLOB_BYTES
+                ? gh
+                    .getBlobContent({ host, owner, repo, oid: blob.oid })
+                    .pipe(Effect.map((content): BinaryBlob | null => ({ ...blob, content })))
+                : Effect.succeed<BinaryBlob | null>(blob && { ...blob, content: null }),
+            { concurrency: 2 },
+          );
+          return { old: oldBlob, new: newBlob };
+        }),
+      ),
+    ),
+
+  forcePushes: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return { forcePushes: yield* gh.listForcePushes(input.url) };
+      }),
+    ),
+  ),
+
   commitDiffsBatch: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
     runEffect(
       Effect.gen(function* () {
         const gh = yield* GhService;
-        const { owner, repo } = yield* gh.getPrInfo(input.url);
+        const { host, owner, repo } = yield* gh.getPrInfo(input.url);
         const commits = yield* gh.listCommits(input.url);
 
         const diffs = yield* Effect.all(
           commits.map((commit) =>
-            gh.getCommitDiff({ owner, repo, sha: commit.sha }).pipe(
-              Effect.map((diff) => ({ sha: commit.sha, diff })),
-              Effect.catchAll(() => Effect.succeed({ sha: commit.sha, diff: null })),
+            gh.getCommitDiff({ host, owner, repo, sha: commit.sha }).pipe(
+              Effect.map((diff) => ({ sha: commit.sha, diff, rateLimited: false })),
+              Effect.catchAll((error) =>
+                Effect.succeed({ sha: commit.sha, diff: null, rateLimited: isRateLimited(error) }),
+              ),
             ),
           ),
           { concurrency: 5 },
@@ -79,6 +268,8 @@ export const prRouter = router({
 
         return {
           diffs: Object.fromEntries(diffs.map((d) => [d.sha, d.diff])),
+          // Incomplete because of rate limiting; the client fetches the rest later
+          rateLimited: diffs.some((d) => d.rateLimited),
         };
       }),
     ),
@@ -88,16 +279,14 @@ export const prRouter = router({
     runEffect(
       Effect.gen(function* () {
         const gh = yield* GhService;
-        const [comments, currentUser] = yield* Effect.all([
+        const { host } = yield* gh.getPrInfo(input.url);
+        const [comments, threads, currentUser] = yield* Effect.all([
           gh.listComments(input.url),
-          gh.getCurrentUser(),
+          // Thread state is an enhancement; comments still load without it
+          gh.listReviewThreads(input.url).pipe(Effect.orElseSucceed(() => [])),
+          gh.getCurrentUser(host),
         ]);
-        return {
-          comments: comments.map((c) => ({
-            ...c,
-            canEdit: c.user.login === currentUser,
-          })),
-        };
+        return { comments: toPrComments(comments, threads, currentUser) };
       }),
     ),
   ),
@@ -106,9 +295,10 @@ export const prRouter = router({
     runEffect(
       Effect.gen(function* () {
         const gh = yield* GhService;
+        const { host } = yield* gh.getPrInfo(input.url);
         const [comments, currentUser] = yield* Effect.all([
           gh.listIssueComments(input.url),
-          gh.getCurrentUser(),
+          gh.getCurrentUser(host),
         ]);
         return {
           comments: comments.map((c) => ({
@@ -128,71 +318,40 @@ export const prRouter = router({
 
         const gh = yield* GhService;
 
-        // Fetch all data in parallel with individual timing
-        const [diff, info, commits, comments, issueComments, status, currentUser] =
-          yield* Effect.all(
-            [
-              gh
-                .getDiff(input.url)
-                .pipe(
-                  Effect.tap(() =>
-                    Effect.log(`[pr.batch] getDiff completed in ${Date.now() - startTime}ms`),
-                  ),
-                ),
-              gh
-                .getPrInfo(input.url)
-                .pipe(
-                  Effect.tap(() =>
-                    Effect.log(`[pr.batch] getPrInfo completed in ${Date.now() - startTime}ms`),
-                  ),
-                ),
-              gh
-                .listCommits(input.url)
-                .pipe(
-                  Effect.tap(() =>
-                    Effect.log(`[pr.batch] listCommits completed in ${Date.now() - startTime}ms`),
-                  ),
-                ),
-              gh
-                .listComments(input.url)
-                .pipe(
-                  Effect.tap(() =>
-                    Effect.log(`[pr.batch] listComments completed in ${Date.now() - startTime}ms`),
-                  ),
-                ),
-              gh
-                .listIssueComments(input.url)
-                .pipe(
-                  Effect.tap(() =>
-                    Effect.log(
-                      `[pr.batch] listIssueComments completed in ${Date.now() - startTime}ms`,
-                    ),
-                  ),
+        // The raw diff only comes from the diff endpoint; everything else is one GraphQL query
+        const [diff, batch] = yield* Effect.all(
+          [
+            gh
+              .getDiff(input.url)
+              .pipe(
+                Effect.tap(() =>
+                  Effect.log(`[pr.batch] getDiff completed in ${Date.now() - startTime}ms`),
                 ),
-              gh
-                .getPrStatus(input.url)
-                .pipe(
-                  Effect.tap(() =>
-                    Effect.log(`[pr.batch] getPrStatus completed in ${Date.now() - startTime}ms`),
-                  ),
+              ),
+            gh
+              .getPrBatch(input.url)
+              .pipe(
+                Effect.tap(() =>
+                  Effect.log(`[pr.batch] getPrBatch completed in ${Date.now() - startTime}ms`),
                 ),
-              gh.getCurrentUser(),
-            ],
-            { concurrency: "unbounded" },
-          );
+              ),
+          ],
+          { concurrency: "unbounded" },
+        );
 
         yield* Effect.log(`[pr.batch] DONE total=${Date.now() - startTime}ms`);
 
+        const { currentUser } = batch;
         return {
           diff,
-          info,
-          commits,
-          comments: comments.map((c) => ({ ...c, canEdit: c.user.login === currentUser })),
-          issueComments: issueComments.map((c) => ({
+          info: batch.info,
+          commits: batch.commits,
+          comments: toPrComments(batch.comments, batch.threads, currentUser),
+          issueComments: batch.issueComments.map((c) => ({
             ...c,
             canEdit: c.user.login === currentUser,
           })),
-          status,
+          status: batch.status,
         };
       }),
     ),
@@ -245,7 +404,7 @@ export const prRouter = router({
           yield* Effect.log(
             `[file-diff] Returning diff for ${input.file} (${diffOutput.length} chars)`,
           );
-          return { diff: diffOutput };
+          return { diff: diffOutput, ...fileChangeInfo(fileMeta) };
         }),
       ),
     ),
@@ -276,26 +435,21 @@ export const prRouter = router({
         const files: string[] = [];
 
         if (prDiffs) {
+          // Binary files are described by their blobs; the list still works without them
+          const binaryBlobs = yield* gh
+            .getBinaryFileBlobs(prUrl, binaryFiles(prDiffs))
+            .pipe(Effect.orElseSucceed(() => new Map()));
           for (const [file, fileMeta] of prDiffs) {
             files.push(file);
-            const { totalAdded, totalRemoved, hunks } = fileMeta;
-            // Show hunk ranges for large files (>1k lines changed)
-            if (totalAdded + totalRemoved > 1000 && hunks.length > 0) {
-              const ranges = hunks
-                .map((h) => `${h.newStart}-${h.newStart + h.newCount - 1}`)
-                .join(", ");
-              fileStats.push(`${file} +${totalAdded} -${totalRemoved} [hunks: ${ranges}]`);
-            } else {
-              fileStats.push(`${file} +${totalAdded} -${totalRemoved}`);
-            }
+            fileStats.push(formatFileStat(file, fileMeta, binaryBlobs.get(file)));
           }
         }
 
         // Parse owner/repo/number from PR URL
-        const match = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-        const owner = match?.[1] ?? "unknown";
-        const repo = match?.[2] ?? "unknown";
-        const number = match?.[3] ?? "?";
+        const parsed = parsePrUrl(prUrl);
+        const owner = parsed?.owner ?? "unknown";
+        const repo = parsed?.repo ?? "unknown";
+        const number = parsed?.number ?? "?";
 
         // Build compact text output
         const description = prStatus.body
@@ -332,6 +486,9 @@ ${fileStats.join("\n")}`;
         line: z.number(),
         body: z.string(),
         side: z.enum(["LEFT", "RIGHT"]).optional(),
+        startLine: z.number().optional(),
+        startSide: z.enum(["LEFT", "RIGHT"]).optional(),
+        commitSha: z.string().optional(),
       }),
     )
     .mutation(({ input }) =>
@@ -344,6 +501,9 @@ ${fileStats.join("\n")}`;
             line: input.line,
             body: input.body,
             side: input.side,
+            startLine: input.startLine,
+            startSide: input.startSide,
+            commitSha: input.commitSha,
           });
           // User just created this comment, so they can edit it
           return { comment: { ...comment, canEdit: true } };
@@ -481,23 +641,329 @@ ${fileStats.join("\n")}`;
       ),
     ),
 
-  approve: publicProcedure
+  resolveThread: publicProcedure
+    .input(z.object({ prUrl: z.string(), threadId: z.string(), resolved: z.boolean() }))
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          const { host } = yield* gh.getPrInfo(input.prUrl);
+          yield* gh.resolveThread({ host, threadId: input.threadId, resolved: input.resolved });
+          return { success: true };
+        }),
+      ),
+    ),
+
+  // Owners of each changed file from CODEOWNERS at the base commit, and which are the viewer's
+  codeOwners: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        const diffCache = yield* DiffCacheService;
+        const [file, viewerHandles, fileDiffs] = yield* Effect.all(
+          [
+            gh.getCodeOwnersFile(input.url),
+            gh.getViewerOwnerHandles(input.url),
+            diffCache.getOrFetch(input.url),
+          ],
+          { concurrency: 3 },
+        );
+        return getCodeOwnership(file, [...fileDiffs.keys()], viewerHandles);
+      }),
+    ),
+  ),
+
+  viewedFiles: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        const files = yield* gh.listViewedFiles(input.url);
+        return { files };
+      }),
+    ),
+  ),
+
+  setFileViewed: publicProcedure
+    .input(z.object({ prUrl: z.string(), path: z.string(), viewed: z.boolean() }))
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.setFileViewed(input);
+          return { success: true };
+        }),
+      ),
+    ),
+
+  submitReview: publicProcedure
     .input(
       z.object({
         prUrl: z.string(),
+        event: z.enum(["APPROVE", "REQUEST_CHANGES", "COMMENT"]),
         body: z.string().optional(),
+        comments: z.array(
+          z.object({
+            filePath: z.string(),
+            line: z.number(),
+            body: z.string(),
+            side: z.enum(["LEFT", "RIGHT"]).optional(),
+            startLine: z.number().optional(),
+            startSide: z.enum(["LEFT", "RIGHT"]).optional(),
+          }),
+        ),
       }),
     )
     .mutation(({ input }) =>
       runEffect(
         Effect.gen(function* () {
           const gh = yield* GhService;
-          yield* gh.approvePr({
+          yield* gh.submitReview({
             prUrl: input.prUrl,
+            event: input.event,
             body: input.body,
+            comments: input.comments,
           });
           return { success: true };
         }),
       ),
     ),
+
+  applySuggestions: publicProcedure
+    .input(
+      z.object({
+        prUrl: z.string(),
+        message: z.string().optional(),
+        suggestions: z
+          .array(
+            z.object({
+              filePath: z.string(),
+              startLine: z.number(),
+              endLine: z.number(),
+              baseLines: z.array(z.string()),
+              replacement: z.string(),
+            }),
+          )
+          .min(1),
+      }),
+    )
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          const diffCache = yield* DiffCacheService;
+          const commits = yield* gh.applySuggestions(input);
+          // The head moved, so cached diffs for the AI context are stale
+          yield* diffCache.clear(input.prUrl);
+          return { commits };
+        }),
+      ),
+    ),
+
+  dismissReview: publicProcedure
+    .input(
+      z.object({
+        prUrl: z.string(),
+        reviewId: z.number(),
+        message: z.string(),
+      }),
+    )
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.dismissReview({
+            prUrl: input.prUrl,
+            reviewId: input.reviewId,
+            message: input.message,
+          });
+          return { success: true };
+        }),
+      ),
+    ),
+
+  setDraft: publicProcedure
+    .input(z.object({ prUrl: z.string(), draft: z.boolean() }))
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.setDraft(input.prUrl, input.draft);
+          return { success: true };
+        }),
+      ),
+    ),
+
+  update: publicProcedure
+    .input(
+      z.object({
+        prUrl: z.string(),
+        title: z.string().min(1).optional(),
+        body: z.string().optional(),
+      }),
+    )
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.updatePullRequest(input);
+          return { success: true };
+        }),
+      ),
+    ),
+
+  reviewCandidates: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return yield* gh.listReviewCandidates(input.url);
+      }),
+    ),
+  ),
+
+  labels: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        const labels = yield* gh.listLabels(input.url);
+        return { labels };
+      }),
+    ),
+  ),
+
+  requestReviewers: publicProcedure.input(reviewersSchema).mutation(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        yield* gh.requestReviewers(input);
+        return { success: true };
+      }),
+    ),
+  ),
+
+  removeReviewers: publicProcedure.input(reviewersSchema).mutation(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        yield* gh.removeReviewers(input);
+        return { success: true };
+      }),
+    ),
+  ),
+
+  setAssignees: publicProcedure
+    .input(z.object({ prUrl: z.string(), assignees: z.array(z.string()) }))
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.setAssignees(input.prUrl, input.assignees);
+          return { success: true };
+        }),
+      ),
+    ),
+
+  setLabels: publicProcedure
+    .input(z.object({ prUrl: z.string(), labels: z.array(z.string()) }))
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.setLabels(input.prUrl, input.labels);
+          return { success: true };
+        }),
+      ),
+    ),
+
+  checkAnnotations: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return yield* gh.getCheckAnnotations(input.url);
+      }),
+    ),
+  ),
+
+  checkRunLog: publicProcedure
+    .input(z.object({ url: z.string(), checkRunId: z.number() }))
+    .query(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          return yield* gh.getCheckRunLog(input.url, input.checkRunId);
+        }),
+      ),
+    ),
+
+  rerunCheckSuites: publicProcedure
+    .input(z.object({ prUrl: z.string(), checkSuiteIds: z.array(z.number()).min(1) }))
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* Effect.forEach(input.checkSuiteIds, (id) => gh.rerunCheckSuite(input.prUrl, id), {
+            concurrency: 4,
+            discard: true,
+          });
+          return { success: true };
+        }),
+      ),
+    ),
+
+  timeline: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return yield* gh.getTimeline(input.url);
+      }),
+    ),
+  ),
+
+  mergeState: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return yield* gh.getMergeState(input.url);
+      }),
+    ),
+  ),
+
+  merge: publicProcedure
+    .input(
+      z.object({
+        prUrl: z.string(),
+        method: mergeMethodSchema,
+        title: z.string().optional(),
+        body: z.string().optional(),
+        sha: z.string().optional(),
+        deleteBranch: z.boolean().optional(),
+      }),
+    )
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          return yield* gh.mergePr(input);
+        }),
+      ),
+    ),
+
+  setAutoMerge: publicProcedure
+    .input(
+      z.object({
+        prUrl: z.string(),
+        enabled: z.boolean(),
+        method: mergeMethodSchema.optional(),
+        title: z.string().optional(),
+        body: z.string().optional(),
+      }),
+    )
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const gh = yield* GhService;
+          yield* gh.setAutoMerge(input);
+          return { success: true };
+        }),
+      ),
+    ),
 });
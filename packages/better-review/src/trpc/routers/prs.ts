@@ -1,7 +1,8 @@
 import { Effect } from "effect";
 import { z } from "zod";
 
-import { GhService } from "../../gh/gh";
+import { GhService, isRateLimited } from "../../gh/gh";
+import { SavedSearchService } from "../../state";
 import { router, publicProcedure, runEffect } from "../index";
 
 export const prsRouter = router({
@@ -12,14 +13,43 @@ export const prsRouter = router({
         const startTime = Date.now();
 
         const gh = yield* GhService;
-        const prs = yield* gh.searchReviewRequested();
+        const savedSearches = yield* SavedSearchService;
+        const searches = yield* savedSearches.list;
+        const { prs, truncatedSearches } = yield* gh.searchPrs(searches);
 
         yield* Effect.log(`[prs.list] DONE total=${Date.now() - startTime}ms, count=${prs.length}`);
-        return { prs };
+        return { prs, truncatedSearches, searches };
       }),
     ),
   ),
 
+  searches: publicProcedure.query(() =>
+    runEffect(
+      Effect.gen(function* () {
+        const savedSearches = yield* SavedSearchService;
+        return { searches: yield* savedSearches.list };
+      }),
+    ),
+  ),
+
+  saveSearches: publicProcedure
+    .input(
+      z.object({
+        searches: z.array(
+          z.object({ id: z.string(), name: z.string().min(1), query: z.string().min(1) }),
+        ),
+      }),
+    )
+    .mutation(({ input }) =>
+      runEffect(
+        Effect.gen(function* () {
+          const savedSearches = yield* SavedSearchService;
+          yield* savedSearches.save(input.searches);
+          return { searches: input.searches };
+        }),
+      ),
+    ),
+
   ciStatus: publicProcedure.input(z.object({ url: z.string() })).query(({ input }) =>
     runEffect(
       Effect.gen(function* () {
@@ -37,14 +67,21 @@ export const prsRouter = router({
         const results = yield* Effect.all(
           input.urls.map((url) =>
             gh.getPrCiStatus(url).pipe(
-              Effect.map((status) => ({ url, status })),
-              Effect.catchAll(() => Effect.succeed({ url, status: null })),
+              Effect.map((status) => ({ url, status, rateLimited: false })),
+              Effect.catchAll((error) =>
+                Effect.succeed({ url, status: null, rateLimited: isRateLimited(error) }),
+              ),
             ),
           ),
           { concurrency: 10 },
         );
+        // Rate-limited PRs are reported separately so the client retries them later
+        // instead of caching "no CI" for them
         return {
-          statuses: Object.fromEntries(results.map((r) => [r.url, r.status])),
+          statuses: Object.fromEntries(
+            results.filter((r) => !r.rateLimited).map((r) => [r.url, r.status]),
+          ),
+          rateLimited: results.filter((r) => r.rateLimited).map((r) => r.url),
         };
       }),
     ),
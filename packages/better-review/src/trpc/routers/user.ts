@@ -1,4 +1,5 @@
 import { Effect } from "effect";
+import { z } from "zod";
 
 import { GhService } from "../../gh/gh";
 import { router, publicProcedure, runEffect } from "../index";
@@ -13,4 +14,13 @@ export const userRouter = router({
       }),
     ),
   ),
+
+  rateLimit: publicProcedure.input(z.object({ host: z.string().optional() })).query(({ input }) =>
+    runEffect(
+      Effect.gen(function* () {
+        const gh = yield* GhService;
+        return yield* gh.getRateLimit(input.host);
+      }),
+    ),
+  ),
 });
@@ -0,0 +1,25 @@
+// =============================================================================
+// Test setup - Keep tests hermetic: GitHub from fixtures, no disk or server side effects
+// =============================================================================
+
+import { mock } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Read when gh.ts is first imported, so GhServiceLive (and every service built on
+// it) replays from test/fixtures. A request without a fixture fails instead of
+// reaching GitHub.
+process.env.BETTER_REVIEW_GH_FIXTURES = join(import.meta.dir, "fixtures");
+delete process.env.BETTER_REVIEW_GH_RECORD;
+
+// StoreService writes under ~/.local/share; point it at a scratch directory. Bun
+// caches the home directory at startup, so overriding HOME here wouldn't reach it.
+process.env.BETTER_REVIEW_DATA_DIR = mkdtempSync(join(tmpdir(), "better-review-test-"));
+
+// The shared runtime starts an OpenCode server, which tests never talk to
+const sdk = await import("@opencode-ai/sdk/v2");
+mock.module("@opencode-ai/sdk/v2", () => ({
+  ...sdk,
+  createOpencodeServer: async () => ({ url: "http://127.0.0.1:0", close: () => {} }),
+}));
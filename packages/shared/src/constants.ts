@@ -1,5 +1,22 @@
+import type { SavedSearch } from "./types";
+
 /**
  * Marker prefix used to identify system-injected context messages.
  * This allows the frontend to reliably filter out these messages from chat history.
  */
 export const SYSTEM_CONTEXT_MARKER = "[SYSTEM_CONTEXT]";
+
+/**
+ * Inbox searches used until the user saves their own.
+ * `review-requested:@me` also matches team requests, so the team search excludes direct ones.
+ */
+export const DEFAULT_SAVED_SEARCHES: SavedSearch[] = [
+  { id: "requested", name: "Requested", query: "is:pr is:open user-review-requested:@me" },
+  {
+    id: "team",
+    name: "Team requests",
+    query: "is:pr is:open review-requested:@me -user-review-requested:@me",
+  },
+  { id: "reviewed", name: "Reviewed", query: "is:pr is:open reviewed-by:@me" },
+  { id: "authored", name: "Mine", query: "is:pr is:open author:@me" },
+];
@@ -6,6 +6,16 @@ export interface GhUser {
   avatar_url: string;
 }
 
+/**
+ * Review thread state from GitHub's GraphQL API (REST comments don't expose it)
+ */
+export interface ReviewThreadState {
+  /** GraphQL node id, used to resolve/unresolve the thread */
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+}
+
 /**
  * PR review comment (inline code comment)
  */
@@ -15,11 +25,17 @@ export interface PRComment {
   line: number | null;
   original_line: number | null;
   side: "LEFT" | "RIGHT";
+  /** First line of a multi-line comment (null for single-line comments) */
+  start_line?: number | null;
+  original_start_line?: number | null;
+  start_side?: "LEFT" | "RIGHT" | null;
   body: string;
   html_url: string;
   user: GhUser;
   created_at: string;
   in_reply_to_id?: number;
+  /** Thread this comment belongs to (missing if thread state couldn't be loaded) */
+  thread?: ReviewThreadState;
   /** Whether the current user can edit/delete this comment */
   canEdit: boolean;
 }
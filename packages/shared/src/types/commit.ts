@@ -8,4 +8,17 @@ export interface PrCommit {
   message: string;
   author: GhUser;
   date: string;
+  /** First parent, used as the base when diffing a range of commits */
+  parentSha: string | null;
+}
+
+/**
+ * A force-push to the PR's head branch
+ */
+export interface ForcePush {
+  /** null if GitHub no longer has the overwritten commit */
+  beforeSha: string | null;
+  afterSha: string;
+  actor: string | null;
+  createdAt: string;
 }
@@ -1,4 +1,5 @@
 export * from "./comment";
 export * from "./commit";
 export * from "./pr";
+export * from "./rate-limit";
 export * from "./session";
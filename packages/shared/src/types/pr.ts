@@ -2,6 +2,8 @@
  * Basic PR identification info
  */
 export interface PrInfo {
+  /** github.com or a GitHub Enterprise Server hostname */
+  host: string;
   owner: string;
   repo: string;
   number: string;
@@ -23,10 +25,25 @@ export type ReviewState =
   | "DISMISSED"
   | null;
 
+/**
+ * The current user's latest submitted review on a PR
+ */
+export interface MyReview {
+  id: number;
+  state: ReviewState;
+}
+
+/**
+ * Event to submit a review with
+ */
+export type ReviewEvent = "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+
 /**
  * CI check run status
  */
 export interface CheckRun {
+  /** Check run id; for GitHub Actions this is also the job id */
+  id: number;
   name: string;
   status: "queued" | "in_progress" | "completed" | "pending";
   conclusion:
@@ -38,6 +55,35 @@ export interface CheckRun {
     | "timed_out"
     | "action_required"
     | null;
+  /** Where the check's provider shows its details */
+  detailsUrl: string | null;
+  /** Check suite the run belongs to, which is what gets re-run */
+  checkSuiteId: number | null;
+  /** Markdown summary the check reported, if any */
+  summary: string | null;
+}
+
+/**
+ * A problem a check run reported on a line of a file (e.g. from a linter or type checker)
+ */
+export interface CheckAnnotation {
+  checkName: string;
+  path: string;
+  /** Lines in the PR's head commit */
+  startLine: number;
+  endLine: number;
+  level: "notice" | "warning" | "failure";
+  title: string | null;
+  message: string;
+}
+
+/**
+ * The end of a check run's log (only GitHub Actions jobs have logs to fetch)
+ */
+export interface CheckRunLog {
+  tail: string;
+  /** Whether earlier lines were cut off */
+  truncated: boolean;
 }
 
 /**
@@ -53,6 +99,73 @@ export interface PrStatus {
   url: string;
   headRef: string;
   checks: readonly CheckRun[];
+  /** GitHub rate limited the check runs fetch, so `checks` is unknown rather than empty */
+  checksRateLimited: boolean;
+  myReview: MyReview | null;
+  reviewers: readonly PrReviewer[];
+  assignees: readonly string[];
+  labels: readonly PrLabel[];
+}
+
+/**
+ * A user or team asked to review a PR, or a user who already reviewed it
+ */
+export interface PrReviewer {
+  /** Login, or the team's slug */
+  name: string;
+  isTeam: boolean;
+  /** Whether a review is currently requested (again, for someone who already reviewed) */
+  requested: boolean;
+  /** State of their latest review, null if they haven't reviewed */
+  state: ReviewState;
+}
+
+/**
+ * An issue/PR label, with its hex color (no leading #)
+ */
+export interface PrLabel {
+  name: string;
+  color: string;
+}
+
+/**
+ * Who can be asked to review or be assigned in a repo
+ */
+export interface ReviewCandidates {
+  users: string[];
+  /** Team slugs in the repo's organization */
+  teams: string[];
+}
+
+/**
+ * Where the baseline of an incremental ("since my last review") diff came from
+ */
+export type ReviewBaselineSource = "review" | "session";
+
+/**
+ * Diff between two heads of a PR
+ */
+export interface CompareDiff {
+  diff: string;
+  /**
+   * The old head isn't an ancestor of the new one (a rebase or force-push). The diff then
+   * only covers files whose PR changes differ between the two heads, but those files can
+   * still show changes that came in with the new base.
+   */
+  rebased: boolean;
+}
+
+/**
+ * Diff between the head the user last reviewed and the current head
+ */
+export interface SinceReviewDiff {
+  /** null when there's no baseline to compare against */
+  diff: string | null;
+  baseSha: string | null;
+  headSha: string;
+  source: ReviewBaselineSource | null;
+  /** See CompareDiff.rebased */
+  rebased: boolean;
 }
 
 /**
@@ -81,4 +194,165 @@ export interface SearchedPr {
   additions: number;
   deletions: number;
   ciStatus: CiStatus | null;
+  /** Ids of the saved searches that returned this PR */
+  matchedSearches: readonly string[];
+}
+
+/**
+ * PRs matched by the saved searches
+ */
+export interface PrSearchResults {
+  prs: readonly SearchedPr[];
+  /** Ids of the saved searches that matched more PRs than were loaded */
+  truncatedSearches: readonly string[];
+}
+
+/**
+ * A user-defined PR inbox search (any GitHub search qualifiers)
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  /** e.g. `is:pr is:open review-requested:@me` */
+  query: string;
 }
+
+/**
+ * GitHub's "Viewed" checkbox state for a file. DISMISSED means the file was
+ * viewed but changed in a later push.
+ */
+export type FileViewedState = "VIEWED" | "UNVIEWED" | "DISMISSED";
+
+/**
+ * Viewed state of one changed file in a PR
+ */
+export interface ViewedFile {
+  path: string;
+  state: FileViewedState;
+}
+
+/**
+ * Commits a PR's diff compares: the merge base with the base branch, and the head
+ */
+export interface DiffRefs {
+  base: string;
+  head: string;
+}
+
+/**
+ * A file's contents on both sides of a diff (null where the file doesn't exist)
+ */
+export interface FileVersions {
+  oldContents: string | null;
+  newContents: string | null;
+}
+
+/**
+ * A git blob: its object id and size in bytes
+ */
+export interface BlobInfo {
+  oid: string;
+  size: number;
+}
+
+/**
+ * A binary file's blob, with its bytes (base64) when they were requested and not too large
+ */
+export interface BinaryBlob extends BlobInfo {
+  content: string | null;
+}
+
+/**
+ * A binary file on both sides of a diff (null where the file doesn't exist)
+ */
+export interface BinaryVersions {
+  old: BinaryBlob | null;
+  new: BinaryBlob | null;
+}
+
+/**
+ * Owners of a PR's changed files, from CODEOWNERS at the PR's base commit
+ */
+export interface CodeOwnership {
+  /** Where the CODEOWNERS file was found, or null if the repo has none */
+  path: string | null;
+  /** Owners of each changed file; files no rule assigns an owner are left out */
+  owners: Record<string, string[]>;
+  /** Changed files owned by the viewer, directly or through one of their teams */
+  owned: string[];
+}
+
+/**
+ * How a PR's commits land on the base branch
+ */
+export type MergeMethod = "merge" | "squash" | "rebase";
+
+/**
+ * Something keeping a PR from being merged right now
+ */
+export interface MergeBlocker {
+  kind:
+    | "draft"
+    | "conflicts"
+    | "review-required"
+    | "changes-requested"
+    | "failing-checks"
+    | "pending-checks";
+  message: string;
+}
+
+/**
+ * What merging a PR would take: the methods the repo allows, default commit messages,
+ * and anything blocking the merge
+ */
+export interface MergeState {
+  /** Methods the repository allows */
+  methods: MergeMethod[];
+  /** The viewer's last used method, if the repo still allows it */
+  defaultMethod: MergeMethod;
+  /** GitHub's default commit title and body (rebasing creates no commit of its own) */
+  messages: Record<Exclude<MergeMethod, "rebase">, { title: string; body: string }>;
+  /** null while GitHub is still computing mergeability */
+  mergeable: boolean | null;
+  blockers: MergeBlocker[];
+  autoMergeAllowed: boolean;
+  /** Auto-merge enabled on this PR, if any */
+  autoMerge: { method: MergeMethod; enabledBy: string } | null;
+  /** Whether the repo deletes head branches after merging on its own */
+  deleteBranchOnMerge: boolean;
+  headSha: string;
+}
+
+interface TimelineEventBase {
+  createdAt: string;
+  /** Login of whoever caused the event (null for deleted accounts) */
+  actor: string | null;
+}
+
+/**
+ * Something that happened on a PR, for the conversation timeline. Issue comments aren't
+ * part of it; they're loaded (and edited) on their own.
+ */
+export type TimelineEvent = TimelineEventBase &
+  (
+    | { type: "commit"; sha: string; message: string }
+    | {
+        type: "review";
+        id: number;
+        state: Exclude<ReviewState, null | "PENDING">;
+        body: string;
+        url: string;
+        /** Inline comments submitted with the review */
+        commentIds: number[];
+      }
+    | { type: "force-push"; beforeSha: string | null; afterSha: string | null }
+    | {
+        type: "review-requested" | "review-request-removed";
+        /** Login, or the team's slug */
+        reviewer: string;
+        isTeam: boolean;
+      }
+    | { type: "labeled" | "unlabeled"; label: PrLabel }
+    | { type: "merged"; sha: string | null; baseRef: string }
+    | { type: "closed" | "reopened" | "ready-for-review" | "converted-to-draft" }
+  );
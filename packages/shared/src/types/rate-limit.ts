@@ -0,0 +1,20 @@
+/**
+ * Quota for one GitHub API resource (core REST, GraphQL, search, ...)
+ */
+export interface RateLimitResource {
+  resource: string;
+  limit: number;
+  remaining: number;
+  /** When the quota refills, in epoch seconds */
+  reset: number;
+}
+
+/**
+ * Rate-limit state for a GitHub host as seen by the server
+ */
+export interface RateLimitStatus {
+  host: string;
+  resources: RateLimitResource[];
+  /** Set while GitHub has asked us to back off (epoch seconds) */
+  throttledUntil: number | null;
+}
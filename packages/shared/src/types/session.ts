@@ -16,6 +16,8 @@ export interface StoredSession {
  * Persistent data for a PR's review sessions
  */
 export interface PrSessionData {
+  /** Missing for sessions stored before multi-host support (github.com) */
+  host?: string;
   owner: string;
   repo: string;
   number: number;
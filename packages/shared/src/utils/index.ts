@@ -0,0 +1,67 @@
+/**
+ * Host used when a PR is given by number or the URL has no host
+ */
+export const DEFAULT_GITHUB_HOST = "github.com";
+
+/**
+ * A PR URL broken into its parts
+ */
+export interface ParsedPrUrl {
+  /** e.g. "github.com" or a GitHub Enterprise Server hostname */
+  host: string;
+  owner: string;
+  repo: string;
+  number: string;
+}
+
+// host/owner/repo/pull/123, with or without a scheme. GHE uses the same path layout.
+const PR_URL_PATTERN = /^(?:https?:\/\/)?([^/\s]+)\/([^/\s]+)\/([^/\s]+)\/pull\/(\d+)/;
+
+/**
+ * Parse a github.com or GitHub Enterprise Server PR URL
+ */
+export function parsePrUrl(url: string): ParsedPrUrl | null {
+  const [, host, owner, repo, number] = url.trim().match(PR_URL_PATTERN) ?? [];
+  if (!host || !owner || !repo || !number) return null;
+  return { host: host.toLowerCase().replace(/^www\./, ""), owner, repo, number };
+}
+
+/**
+ * Web base URL for a host, e.g. "https://github.com"
+ */
+export function getHostBaseUrl(host: string = DEFAULT_GITHUB_HOST): string {
+  return `https://${host}`;
+}
+
+// "Binary files a/x and b/x differ", where either side may be /dev/null
+const BINARY_FILES_PATTERN =
+  /^Binary files (?:a\/(.*)|\/dev\/null) and (?:b\/(.*)|\/dev\/null) differ$/;
+
+/**
+ * Paths of the binary files in a unified diff (the new path, or the old one if deleted)
+ */
+export function getBinaryDiffPaths(diff: string): Set<string> {
+  const paths = new Set<string>();
+  for (const line of diff.split("\n")) {
+    const [, oldPath, newPath] = line.match(BINARY_FILES_PATTERN) ?? [];
+    const path = newPath ?? oldPath;
+    if (path) paths.add(path);
+  }
+  return paths;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+};
+
+/**
+ * MIME type of an image the diff view can render, or null for other files
+ */
+export function getImageMimeType(path: string): string | null {
+  const extension = path.split(".").pop()?.toLowerCase() ?? "";
+  return IMAGE_MIME_TYPES[extension] ?? null;
+}
@@ -8,20 +8,49 @@ import {
   Show,
   onMount,
   on,
+  untrack,
 } from "solid-js";
 
-import type { PrStatus, PrInfo } from "@better-review/shared";
+import {
+  type PrStatus,
+  type MergeState,
+  type PrInfo,
+  type SinceReviewDiff,
+  type CompareDiff,
+  type DiffRefs,
+  type CodeOwnership,
+  type CheckAnnotation,
+  type TimelineEvent,
+  getBinaryDiffPaths,
+} from "@better-review/shared";
 
 import { ChatPanel } from "./ChatPanel";
-import { ApproveButton } from "./components/ApproveButton";
+import type { CheckActions } from "./components/ChecksIndicator";
 import { CommitNavigator } from "./components/CommitNavigator";
+import { CommitRangePicker } from "./components/CommitRangePicker";
 import { PrCommentsPanel } from "./components/PrCommentsPanel";
+import type { PrMetaActions } from "./components/PrMetaBar";
 import { PrStatusBar } from "./components/PrStatusBar";
+import { RateLimitIndicator } from "./components/RateLimitIndicator";
+import { ReviewDraftsPanel } from "./components/ReviewDraftsPanel";
 import { ReviewModeToggle } from "./components/ReviewModeToggle";
+import { SinceReviewBar } from "./components/SinceReviewBar";
+import { SubmitReviewButton } from "./components/SubmitReviewButton";
+import { SuggestionBatchButton } from "./components/SuggestionBatchButton";
 import { PrProvider, usePrContext } from "./context/PrContext";
 import { SettingsPanel } from "./diff/SettingsPanel";
 import { FONT_FAMILY_MAP } from "./diff/types";
-import { THEME_LABELS, type ReviewMode, type PrCommit } from "./diff/types";
+import {
+  THEME_LABELS,
+  type ReviewMode,
+  type PrCommit,
+  type CommitRange,
+  type ForcePush,
+  type CommentLineRange,
+  type ReviewDraft,
+  type ReviewEvent,
+  type SuggestionEdit,
+} from "./diff/types";
 import {
   DiffViewer,
   getFileElementId,
@@ -37,11 +66,18 @@ import {
   type IssueComment,
   getReadFiles,
   toggleFileRead as queryToggleFileRead,
+  syncViewedFiles,
   getReviewOrder,
   setReviewOrder as querySetReviewOrder,
   getAnnotations,
   addAnnotations as queryAddAnnotations,
   removeAnnotation as queryRemoveAnnotation,
+  getReviewDrafts,
+  setReviewDrafts as querySetReviewDrafts,
+  addReviewDraft as queryAddReviewDraft,
+  updateReviewDraft as queryUpdateReviewDraft,
+  removeReviewDraft as queryRemoveReviewDraft,
+  moveReviewDraft as queryMoveReviewDraft,
 } from "./lib/query";
 import { trpc } from "./lib/trpc";
 import type { Annotation } from "./utils/parseReviewTokens";
@@ -113,6 +149,7 @@ const AppContent: Component = () => {
   const [prQueue, setPrQueue] = createSignal<QueuedPr[]>([]);
   const [prInfo, setPrInfo] = createSignal<PrInfo | null>(null);
   const [prStatus, setPrStatus] = createSignal<PrStatus | null>(null);
+  const [mergeState, setMergeState] = createSignal<MergeState | null>(null);
   const [loadingStatus, setLoadingStatus] = createSignal(false);
   const [loading, setLoading] = createSignal(false);
   const [loadingComments, setLoadingComments] = createSignal(false);
@@ -131,6 +168,14 @@ const AppContent: Component = () => {
     line: number;
   } | null>(null);
   const [readFiles, setReadFiles] = createSignal<Set<string>>(new Set());
+  // Files GitHub reports as viewed before a later push changed them
+  const [dismissedFiles, setDismissedFiles] = createSignal<Set<string>>(new Set());
+  const [codeOwnership, setCodeOwnership] = createSignal<CodeOwnership | null>(null);
+  const [checkAnnotations, setCheckAnnotations] = createSignal<CheckAnnotation[]>([]);
+  const [timeline, setTimeline] = createSignal<TimelineEvent[]>([]);
+  const [ownedFirst, setOwnedFirst] = createSignal(false);
+  const [reviewDrafts, setReviewDrafts] = createSignal<ReviewDraft[]>([]);
+  const [suggestionBatch, setSuggestionBatch] = createSignal<SuggestionEdit[]>([]);
 
   // Panel visibility
   const [panelVisibility, setPanelVisibility] =
@@ -150,32 +195,66 @@ const AppContent: Component = () => {
   const [currentCommitIndex, setCurrentCommitIndex] = createSignal(0);
   const [commitDiff, setCommitDiff] = createSignal<string | null>(null);
   const [loadingCommits, setLoadingCommits] = createSignal(false);
+  const [commitRange, setCommitRange] = createSignal<CommitRange | null>(null);
+  const [rangeDiff, setRangeDiff] = createSignal<CompareDiff | null>(null);
+  const [forcePushes, setForcePushes] = createSignal<ForcePush[]>([]);
+  const [sinceReviewDiff, setSinceReviewDiff] = createSignal<SinceReviewDiff | null>(null);
+  const [loadingSinceReview, setLoadingSinceReview] = createSignal(false);
+
+  // Commit whose lines the commit-mode diff shows, if it isn't the PR head.
+  // New comments must target it, and review drafts can't (a review has a single commit).
+  const diffCommitSha = createMemo(() => {
+    if (reviewMode() !== "commit") return undefined;
+    const c = commits();
+    const sha = commitRange()?.head ?? c[currentCommitIndex()]?.sha;
+    return sha === c[c.length - 1]?.sha ? undefined : sha;
+  });
 
   // Active diff based on review mode
   const activeDiff = createMemo(() => {
-    return reviewMode() === "full" ? diff() : commitDiff();
+    const mode = reviewMode();
+    if (mode === "full") return diff();
+    if (mode === "commit") return commitRange() ? (rangeDiff()?.diff ?? null) : commitDiff();
+    return sinceReviewDiff()?.diff ?? null;
   });
 
+  // Binary files have no hunks, so the file tree labels them
+  const binaryFiles = createMemo(() => getBinaryDiffPaths(activeDiff() ?? ""));
+
   // File names for the chat panel
   const fileNames = createMemo(() => files().map((f) => f.name));
 
-  // Ordered files - respects reviewOrder when set
+  // Files CODEOWNERS assigns to the viewer or their teams
+  const ownedFiles = createMemo(() => new Set(codeOwnership()?.owned));
+
+  // Ordered files - respects reviewOrder when set, then moves owned files first if asked
   const orderedFiles = createMemo(() => {
     const order = reviewOrder();
-    const allFiles = files();
-    if (!order || order.length === 0) return allFiles;
-
-    // Sort files by review order (files not in order go at the end)
-    return [...allFiles].sort((a, b) => {
-      const aIdx = order.indexOf(a.name);
-      const bIdx = order.indexOf(b.name);
-      if (aIdx === -1 && bIdx === -1) return 0;
-      if (aIdx === -1) return 1;
-      if (bIdx === -1) return -1;
-      return aIdx - bIdx;
-    });
+    let sorted = files();
+    if (order && order.length > 0) {
+      // Sort files by review order (files not in order go at the end)
+      sorted = [...sorted].sort((a, b) => {
+        const aIdx = order.indexOf(a.name);
+        const bIdx = order.indexOf(b.name);
+        if (aIdx === -1 && bIdx === -1) return 0;
+        if (aIdx === -1) return 1;
+        if (bIdx === -1) return -1;
+        return aIdx - bIdx;
+      });
+    }
+    if (!ownedFirst()) return sorted;
+    const owned = ownedFiles();
+    return [
+      ...sorted.filter((f) => owned.has(f.name)),
+      ...sorted.filter((f) => !owned.has(f.name)),
+    ];
   });
 
+  // Order of the files in the diff viewer
+  const fileOrder = createMemo(() =>
+    ownedFirst() ? orderedFiles().map((f) => f.name) : reviewOrder(),
+  );
+
   // Find the next PR in the queue
   const nextPr = createMemo(() => {
     const queue = prQueue();
@@ -216,12 +295,63 @@ const AppContent: Component = () => {
     }
   };
 
-  // Toggle file read status
+  // Toggle file read status, mirrored to GitHub's "Viewed" checkbox
   const toggleFileRead = (fileName: string) => {
     const url = loadedPrUrl();
     if (!url) return;
-    const newReadFiles = queryToggleFileRead(url, fileName);
-    setReadFiles(newReadFiles);
+    const viewed = !readFiles().has(fileName);
+    setReadFiles(queryToggleFileRead(url, fileName));
+    setDismissedFiles((prev) => {
+      const next = new Set(prev);
+      next.delete(fileName);
+      return next;
+    });
+    api.setFileViewed(url, fileName, viewed).catch((err) => {
+      console.error("Failed to sync viewed state:", err);
+      // Roll back so the checkbox doesn't disagree with GitHub
+      if (loadedPrUrl() === url && readFiles().has(fileName) === viewed) {
+        setReadFiles(queryToggleFileRead(url, fileName));
+      }
+    });
+  };
+
+  // GitHub's viewed state wins over the local copy, which only covers the load
+  const loadViewedFiles = async (url: string) => {
+    try {
+      const files = await api.fetchViewedFiles(url);
+      if (loadedPrUrl() !== url) return;
+      setReadFiles(syncViewedFiles(url, files));
+      setDismissedFiles(new Set(files.filter((f) => f.state === "DISMISSED").map((f) => f.path)));
+    } catch (err) {
+      console.error("Failed to load viewed files:", err);
+    }
+  };
+
+  const loadCodeOwners = async (url: string) => {
+    try {
+      const ownership = await api.fetchCodeOwners(url);
+      if (loadedPrUrl() === url) setCodeOwnership(ownership);
+    } catch (err) {
+      console.error("Failed to load code owners:", err);
+    }
+  };
+
+  const loadTimeline = async (url: string) => {
+    try {
+      const events = await api.fetchTimeline(url);
+      if (loadedPrUrl() === url) setTimeline(events);
+    } catch (err) {
+      console.error("Failed to load timeline:", err);
+    }
+  };
+
+  const loadCheckAnnotations = async (url: string) => {
+    try {
+      const annotations = await api.fetchCheckAnnotations(url);
+      if (loadedPrUrl() === url) setCheckAnnotations(annotations);
+    } catch (err) {
+      console.error("Failed to load check annotations:", err);
+    }
   };
 
   // Dismiss an AI annotation
@@ -242,6 +372,219 @@ const AppContent: Component = () => {
     }
   };
 
+  // Drafts only live in localStorage, so a failed write is reported and rethrown, which
+  // leaves the comment form open with its text instead of losing the edit
+  const saveReviewDrafts = (update: () => ReviewDraft[]) => {
+    try {
+      setReviewDrafts(update());
+    } catch (err) {
+      console.error("Failed to save review drafts:", err);
+      alert(err instanceof Error ? err.message : "Failed to save review drafts");
+      throw err;
+    }
+  };
+
+  // Queue an inline comment in the pending review
+  const addReviewDraft = (filePath: string, range: CommentLineRange, body: string) => {
+    const url = loadedPrUrl();
+    if (!url) return;
+    const draft: ReviewDraft = {
+      id: crypto.randomUUID(),
+      filePath,
+      startLine: range.startLine < range.endLine ? range.startLine : undefined,
+      line: range.endLine,
+      side: range.side,
+      body,
+      createdAt: Date.now(),
+    };
+    saveReviewDrafts(() => queryAddReviewDraft(url, draft));
+  };
+
+  const editReviewDraft = (draftId: string, body: string) => {
+    const url = loadedPrUrl();
+    if (url) saveReviewDrafts(() => queryUpdateReviewDraft(url, draftId, body));
+  };
+
+  const discardReviewDraft = (draftId: string) => {
+    const url = loadedPrUrl();
+    if (url) saveReviewDrafts(() => queryRemoveReviewDraft(url, draftId));
+  };
+
+  const moveReviewDraft = (draftId: string, offset: -1 | 1) => {
+    const url = loadedPrUrl();
+    if (url) saveReviewDrafts(() => queryMoveReviewDraft(url, draftId, offset));
+  };
+
+  // Submit all drafts as one GitHub review (errors propagate to the panel)
+  const submitReview = async (event: ReviewEvent, body: string) => {
+    const url = loadedPrUrl();
+    if (!url) return;
+    const drafts = reviewDrafts();
+    await trpc.pr.submitReview.mutate({
+      prUrl: url,
+      event,
+      body: body || undefined,
+      comments: drafts.map((d) => ({
+        filePath: d.filePath,
+        startLine: d.startLine,
+        line: d.line,
+        side: d.side,
+        body: d.body,
+      })),
+    });
+    querySetReviewDrafts(url, []);
+    setReviewDrafts([]);
+
+    // The reviews API doesn't return the created comments, so refetch them along with
+    // the status (which carries our latest review state)
+    const [freshComments, freshStatus] = await Promise.all([
+      api.fetchComments(url),
+      api.fetchStatus(url),
+    ]);
+    updateCommentsCache(url, freshComments);
+    updateStatusCache(url, freshStatus);
+
+    // The new review is the baseline for "since review" from now on
+    queryClient.removeQueries({ queryKey: queryKeys.pr.sinceLastReviewDiff(url) });
+    setSinceReviewDiff(null);
+    if (reviewMode() === "since-review") await loadSinceReviewDiff();
+  };
+
+  const toggleSuggestionBatch = (edit: SuggestionEdit) => {
+    setSuggestionBatch((batch) =>
+      batch.some((s) => s.commentId === edit.commentId)
+        ? batch.filter((s) => s.commentId !== edit.commentId)
+        : [...batch, edit],
+    );
+  };
+
+  // Commit suggestions to the head branch (errors propagate to the caller)
+  const applySuggestions = async (edits: SuggestionEdit[]) => {
+    const url = loadedPrUrl();
+    if (!url || edits.length === 0) return;
+    await trpc.pr.applySuggestions.mutate({
+      prUrl: url,
+      suggestions: edits.map(({ commentId: _commentId, ...edit }) => edit),
+    });
+    const applied = new Set(edits.map((e) => e.commentId));
+    setSuggestionBatch((batch) => batch.filter((s) => !applied.has(s.commentId)));
+
+    // New commits on the head branch change the diff, commits and comment positions
+    await queryClient.invalidateQueries({ queryKey: queryKeys.pr.batch(url) });
+    const [freshDiff, freshCommits, freshComments] = await Promise.all([
+      api.fetchDiff(url),
+      api.fetchCommits(url),
+      api.fetchComments(url),
+    ]);
+    queryClient.setQueryData(queryKeys.pr.diff(url), freshDiff);
+    queryClient.setQueryData(queryKeys.pr.commits(url), freshCommits);
+    setDiff(freshDiff);
+    setCommits(freshCommits);
+    updateCommentsCache(url, freshComments);
+  };
+
+  const dismissReview = async (reviewId: number, message: string) => {
+    const url = loadedPrUrl();
+    if (!url) return;
+    await trpc.pr.dismissReview.mutate({ prUrl: url, reviewId, message });
+    updateStatusCache(url, await api.fetchStatus(url));
+  };
+
+  // Reviewer, assignee and label changes show up in the refreshed status
+  const updatePrMeta = async (mutate: (url: string) => Promise<void>) => {
+    const url = loadedPrUrl();
+    if (!url) throw new Error("No PR loaded");
+    await mutate(url);
+    updateStatusCache(url, await api.fetchStatus(url));
+  };
+
+  const prMetaActions: PrMetaActions = {
+    loadCandidates: () => {
+      const url = loadedPrUrl()!;
+      return queryClient.fetchQuery({
+        queryKey: queryKeys.pr.reviewCandidates(url),
+        queryFn: () => api.fetchReviewCandidates(url),
+        staleTime: 10 * 60 * 1000,
+      });
+    },
+    loadLabels: () => {
+      const url = loadedPrUrl()!;
+      return queryClient.fetchQuery({
+        queryKey: queryKeys.pr.labels(url),
+        queryFn: () => api.fetchLabels(url),
+        staleTime: 10 * 60 * 1000,
+      });
+    },
+    onRequestReviewers: (users, teams) =>
+      updatePrMeta((url) => api.requestReviewers(url, users, teams)),
+    onRemoveReviewers: (users, teams) =>
+      updatePrMeta((url) => api.removeReviewers(url, users, teams)),
+    onSetAssignees: (assignees) => updatePrMeta((url) => api.setAssignees(url, assignees)),
+    onSetLabels: (labels) => updatePrMeta((url) => api.setLabels(url, labels)),
+  };
+
+  // Draft state, title and body are part of the status (and the batch and PR list that
+  // embed it), so drop the cached copies before refetching
+  const updatePrDetails = async (mutate: (url: string) => Promise<void>) => {
+    const url = loadedPrUrl();
+    if (!url) throw new Error("No PR loaded");
+    await mutate(url);
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.pr.status(url) }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.pr.batch(url) }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.prs.list }),
+    ]);
+    updateStatusCache(url, await api.fetchStatus(url));
+  };
+
+  const setDraft = (draft: boolean) => updatePrDetails((url) => api.setDraft(url, draft));
+  const updatePr = (changes: { title?: string; body?: string }) =>
+    updatePrDetails((url) => api.updatePr(url, changes));
+
+  const checkActions: CheckActions = {
+    loadLog: (checkRunId) => {
+      const url = loadedPrUrl()!;
+      return queryClient.fetchQuery({
+        queryKey: queryKeys.pr.checkRunLog(url, checkRunId),
+        queryFn: () => api.fetchCheckRunLog(url, checkRunId),
+        staleTime: 60 * 1000,
+      });
+    },
+    // Re-requested runs show up as queued in the refreshed status
+    onRerun: async (checkSuiteIds) => {
+      const url = loadedPrUrl();
+      if (!url) throw new Error("No PR loaded");
+      await api.rerunCheckSuites(url, checkSuiteIds);
+      updateStatusCache(url, await api.fetchStatus(url));
+    },
+  };
+
+  const loadMergeState = async (url: string) => {
+    try {
+      const state = await api.fetchMergeState(url);
+      if (loadedPrUrl() === url) setMergeState(state);
+    } catch (err) {
+      console.error("Failed to load merge state:", err);
+    }
+  };
+
+  // Merge or enable auto-merge (errors propagate to the caller); the status refresh
+  // reloads the merge state too
+  const mergePr = async (options: Parameters<typeof api.mergePr>[1]) => {
+    const url = loadedPrUrl();
+    if (!url) throw new Error("No PR loaded");
+    const result = await api.mergePr(url, options);
+    updateStatusCache(url, await api.fetchStatus(url));
+    return result;
+  };
+
+  const setAutoMerge = async (options: Parameters<typeof api.setAutoMerge>[1]) => {
+    const url = loadedPrUrl();
+    if (!url) throw new Error("No PR loaded");
+    await api.setAutoMerge(url, options);
+    await loadMergeState(url);
+  };
+
   // Load commit diff using TanStack Query (auto-cached)
   const loadCommitDiff = async (sha: string) => {
     const url = loadedPrUrl();
@@ -261,6 +604,122 @@ const AppContent: Component = () => {
     }
   };
 
+  // Compare two points in the PR's history (auto-cached); null goes back to single commits
+  const selectCommitRange = async (range: CommitRange | null) => {
+    const url = loadedPrUrl();
+    setCommitRange(range);
+    setRangeDiff(null);
+    if (!url || !range) return;
+
+    setLoadingCommits(true);
+    try {
+      const diff = await queryClient.fetchQuery({
+        queryKey: queryKeys.pr.compareDiff(url, range.base, range.head),
+        queryFn: () => api.fetchCompareDiff(url, range.base, range.head),
+      });
+      // Ignore if another range was picked meanwhile
+      if (commitRange() === range) setRangeDiff(diff);
+    } catch (err) {
+      console.error("Failed to load range diff:", err);
+    } finally {
+      setLoadingCommits(false);
+    }
+  };
+
+  // Force-pushes are only needed by the range picker, so load them lazily
+  const loadForcePushes = async () => {
+    const url = loadedPrUrl();
+    if (!url) return;
+    try {
+      const pushes = await queryClient.fetchQuery({
+        queryKey: queryKeys.pr.forcePushes(url),
+        queryFn: () => api.fetchForcePushes(url),
+      });
+      setForcePushes(pushes);
+    } catch (err) {
+      console.error("Failed to load force-pushes:", err);
+    }
+  };
+
+  // Load the diff since the user's last review (auto-cached)
+  const loadSinceReviewDiff = async () => {
+    const url = loadedPrUrl();
+    if (!url) return;
+
+    setLoadingSinceReview(true);
+    try {
+      const data = await queryClient.fetchQuery({
+        queryKey: queryKeys.pr.sinceLastReviewDiff(url),
+        queryFn: () => api.fetchSinceLastReviewDiff(url),
+      });
+      setSinceReviewDiff(data);
+    } catch (err) {
+      console.error("Failed to load changes since last review:", err);
+    } finally {
+      setLoadingSinceReview(false);
+    }
+  };
+
+  // Commits the active diff compares, for loading the files around its hunks
+  const activeDiffRefs = async (url: string): Promise<DiffRefs> => {
+    const mode = reviewMode();
+    if (mode === "commit") {
+      const range = commitRange();
+      if (range) return range;
+      const commit = commits()[currentCommitIndex()];
+      if (!commit?.parentSha) throw new Error("The first commit has no parent to compare with");
+      return { base: commit.parentSha, head: commit.sha };
+    }
+    if (mode === "since-review") {
+      const since = sinceReviewDiff();
+      if (!since?.baseSha) throw new Error("No reviewed commit to compare with");
+      return { base: since.baseSha, head: since.headSha };
+    }
+    return await queryClient.fetchQuery({
+      queryKey: queryKeys.pr.diffRefs(url),
+      queryFn: () => api.fetchDiffRefs(url),
+    });
+  };
+
+  // Both sides of a file in the active diff (cached per SHA, so they never go stale)
+  const loadFileVersions = async (path: string, prevPath?: string) => {
+    const url = loadedPrUrl();
+    if (!url) throw new Error("No PR loaded");
+    const refs = await activeDiffRefs(url);
+    return await queryClient.fetchQuery({
+      queryKey: queryKeys.pr.fileVersions(
+        url,
+        prevPath ? `${prevPath}→${path}` : path,
+        refs.base,
+        refs.head,
+      ),
+      queryFn: () => api.fetchFileVersions(url, path, prevPath, refs),
+      staleTime: Infinity,
+    });
+  };
+
+  // Blobs of a binary file in the active diff, with their bytes for image comparisons
+  const loadBinaryVersions = async (
+    path: string,
+    prevPath: string | undefined,
+    content: boolean,
+  ) => {
+    const url = loadedPrUrl();
+    if (!url) throw new Error("No PR loaded");
+    const refs = await activeDiffRefs(url);
+    return await queryClient.fetchQuery({
+      queryKey: queryKeys.pr.binaryVersions(
+        url,
+        prevPath ? `${prevPath}→${path}` : path,
+        refs.base,
+        refs.head,
+        content,
+      ),
+      queryFn: () => api.fetchBinaryVersions(url, path, prevPath, refs, content),
+      staleTime: Infinity,
+    });
+  };
+
   // Preload all commit diffs in background using TanStack Query
   const preloadCommitDiffs = async (prUrl: string, commitList: PrCommit[]) => {
     for (const commit of commitList) {
@@ -303,12 +762,21 @@ const AppContent: Component = () => {
   // Switch to commit mode
   const switchToCommitMode = async () => {
     setReviewMode("commit");
+    loadForcePushes();
     const c = commits();
     if (c.length > 0 && !commitDiff()) {
       await loadCommitDiff(c[0].sha);
     }
   };
 
+  // Switch to since-review mode
+  const switchToSinceReviewMode = async () => {
+    setReviewMode("since-review");
+    if (!sinceReviewDiff()) {
+      await loadSinceReviewDiff();
+    }
+  };
+
   // Switch to full mode
   const switchToFullMode = () => {
     setReviewMode("full");
@@ -318,6 +786,8 @@ const AppContent: Component = () => {
   const handleModeChange = (mode: ReviewMode) => {
     if (mode === "commit") {
       switchToCommitMode();
+    } else if (mode === "since-review") {
+      switchToSinceReviewMode();
     } else {
       switchToFullMode();
     }
@@ -368,6 +838,37 @@ const AppContent: Component = () => {
     }
   });
 
+  // Merge requirements change with reviews, checks and pushes, which all refresh the status
+  createEffect(
+    on(prStatus, (status) => {
+      const url = untrack(loadedPrUrl);
+      if (url && status?.state === "open") loadMergeState(url);
+      else setMergeState(null);
+    }),
+  );
+
+  // Reviews, pushes, label and reviewer changes and merges all refresh the status too
+  createEffect(
+    on(prStatus, (status) => {
+      const url = untrack(loadedPrUrl);
+      if (url && status) loadTimeline(url);
+    }),
+  );
+
+  // Checks report annotations as they finish, so reload them whenever the checks change
+  createEffect(
+    on(
+      () =>
+        prStatus()
+          ?.checks.map((c) => `${c.id}:${c.conclusion}`)
+          .join("|"),
+      (checks) => {
+        const url = untrack(loadedPrUrl);
+        if (url && checks) loadCheckAnnotations(url);
+      },
+    ),
+  );
+
   // Load saved review state when PR changes
   createEffect(() => {
     const url = loadedPrUrl();
@@ -384,14 +885,30 @@ const AppContent: Component = () => {
 
       const savedReadFiles = getReadFiles(url);
       setReadFiles(savedReadFiles);
+      setDismissedFiles(new Set<string>());
+      loadViewedFiles(url);
+      setCodeOwnership(null);
+      loadCodeOwners(url);
+      setCheckAnnotations([]);
+      setTimeline([]);
+      setMergeState(null);
+
+      setReviewDrafts(getReviewDrafts(url));
+      setSuggestionBatch([]);
     } else {
       setReviewOrder(null);
       setAiAnnotations([]);
       setReadFiles(new Set<string>());
+      setDismissedFiles(new Set<string>());
+      setCodeOwnership(null);
+      setCheckAnnotations([]);
+      setTimeline([]);
+      setReviewDrafts([]);
+      setSuggestionBatch([]);
     }
   });
 
-  // Sync commit mode to URL params (using commit SHA for stable/shareable URLs)
+  // Sync review mode to URL params (using commit SHA for stable/shareable URLs)
   createEffect(
     on(
       () => [reviewMode(), currentCommitIndex(), commits()] as const,
@@ -403,6 +920,12 @@ const AppContent: Component = () => {
               mode: "commit",
               commit: c[idx].sha.slice(0, 7),
             });
+          } else if (mode === "since-review") {
+            setSearchParams({
+              prUrl: loadedPrUrl()!,
+              mode: "since-review",
+              commit: undefined,
+            });
           } else {
             setSearchParams({
               prUrl: loadedPrUrl()!,
@@ -450,14 +973,14 @@ const AppContent: Component = () => {
     setReviewMode("full");
     setCurrentCommitIndex(0);
     setCommitDiff(null);
+    setCommitRange(null);
+    setRangeDiff(null);
+    setForcePushes([]);
+    setSinceReviewDiff(null);
 
     // Show cached data immediately if available
     const cachedDiff = queryClient.getQueryData<string>(queryKeys.pr.diff(currentPrUrl));
-    const cachedInfo = queryClient.getQueryData<{
-      owner: string;
-      repo: string;
-      number: string;
-    } | null>(queryKeys.pr.info(currentPrUrl));
+    const cachedInfo = queryClient.getQueryData<PrInfo | null>(queryKeys.pr.info(currentPrUrl));
     const cachedCommits = queryClient.getQueryData<PrCommit[]>(queryKeys.pr.commits(currentPrUrl));
     const cachedComments = queryClient.getQueryData<PRComment[]>(
       queryKeys.pr.comments(currentPrUrl),
@@ -512,7 +1035,7 @@ const AppContent: Component = () => {
         setPrInfo(data.info);
       }
 
-      // Restore commit mode from URL params (commit is a SHA prefix)
+      // Restore review mode from URL params (commit is a SHA prefix)
       const urlMode = searchParams.mode;
       const urlCommitSha = searchParams.commit as string | undefined;
       if (urlMode === "commit" && data.commits.length > 0) {
@@ -524,6 +1047,8 @@ const AppContent: Component = () => {
         loadCommitDiff(data.commits[idx].sha).then(() => {
           setReviewMode("commit");
         });
+      } else if (urlMode === "since-review") {
+        switchToSinceReviewMode();
       }
 
       setLoading(false);
@@ -545,24 +1070,27 @@ const AppContent: Component = () => {
     }
   };
 
+  // Helper to update status in both local state and TanStack Query cache
+  const updateStatusCache = (url: string, status: PrStatus) => {
+    setPrStatus(status);
+    queryClient.setQueryData(queryKeys.pr.status(url), status);
+  };
+
   // Helper to update comments in both local state and TanStack Query cache
   const updateCommentsCache = (url: string, newComments: PRComment[]) => {
     setComments(newComments);
     queryClient.setQueryData(queryKeys.pr.comments(url), newComments);
   };
 
-  const addComment = async (
-    filePath: string,
-    line: number,
-    side: "LEFT" | "RIGHT",
-    body: string,
-  ) => {
+  const addComment = async (filePath: string, range: CommentLineRange, body: string) => {
     try {
       const data = await trpc.pr.addComment.mutate({
         prUrl: prUrl()!,
+        commitSha: diffCommitSha(),
         filePath,
-        line,
-        side,
+        startLine: range.startLine,
+        line: range.endLine,
+        side: range.side,
         body,
       });
       if (data.comment) {
@@ -578,6 +1106,19 @@ const AppContent: Component = () => {
     }
   };
 
+  // Errors propagate to the thread view
+  const resolveThread = async (threadId: string, resolved: boolean) => {
+    const url = loadedPrUrl();
+    if (!url) return;
+    await trpc.pr.resolveThread.mutate({ prUrl: url, threadId, resolved });
+    updateCommentsCache(
+      url,
+      comments().map((c) =>
+        c.thread?.id === threadId ? { ...c, thread: { ...c.thread, isResolved: resolved } } : c,
+      ),
+    );
+  };
+
   const replyToComment = async (commentId: number, body: string) => {
     try {
       const data = await trpc.pr.replyToComment.mutate({
@@ -750,6 +1291,7 @@ const AppContent: Component = () => {
                   Files
                 </button>
               </div>
+              <RateLimitIndicator host={prInfo()?.host} />
               <A href="/" class="text-base text-text-faint hover:text-text transition-colors">
                 Browse PRs
               </A>
@@ -803,6 +1345,15 @@ const AppContent: Component = () => {
                 loading={loadingStatus()}
                 repoOwner={prInfo()?.owner}
                 repoName={prInfo()?.repo}
+                repoHost={prInfo()?.host}
+                onDismissReview={dismissReview}
+                mergeState={mergeState()}
+                onMerge={mergePr}
+                onSetAutoMerge={setAutoMerge}
+                metaActions={prMetaActions}
+                checkActions={checkActions}
+                onSetDraft={setDraft}
+                onUpdate={updatePr}
               />
             </div>
             <div class="flex items-center gap-2 flex-shrink-0">
@@ -812,7 +1363,23 @@ const AppContent: Component = () => {
                 commitCount={commits().length}
                 disabled={loading()}
               />
-              <ApproveButton />
+              <ReviewDraftsPanel
+                drafts={reviewDrafts()}
+                onEdit={editReviewDraft}
+                onDiscard={discardReviewDraft}
+                onMove={moveReviewDraft}
+                onSelect={(draft) => scrollToFile(draft.filePath, draft.line)}
+              />
+              <SuggestionBatchButton
+                batch={suggestionBatch()}
+                onCommit={applySuggestions}
+                onClear={() => setSuggestionBatch([])}
+              />
+              <SubmitReviewButton
+                pendingCount={reviewDrafts().length}
+                disabled={!loadedPrUrl()}
+                onSubmit={submitReview}
+              />
             </div>
           </div>
           {/* PR Comments (top-level conversation) */}
@@ -821,9 +1388,14 @@ const AppContent: Component = () => {
             loading={loadingComments()}
             repoOwner={prInfo()?.owner}
             repoName={prInfo()?.repo}
+            repoHost={prInfo()?.host}
             onAddComment={addIssueComment}
             onEditComment={editIssueComment}
             onDeleteComment={deleteIssueComment}
+            reviewComments={comments()}
+            timeline={timeline()}
+            onResolveThread={resolveThread}
+            onSelectReviewThread={scrollToFile}
           />
         </Show>
       </header>
@@ -861,7 +1433,7 @@ const AppContent: Component = () => {
           {/* Diff viewer (center) */}
           <div class="flex-1 overflow-y-auto flex flex-col">
             {/* Commit navigator (when in commit mode) */}
-            <Show when={reviewMode() === "commit" && commits().length > 0}>
+            <Show when={reviewMode() === "commit" && commits().length > 0 && !commitRange()}>
               <CommitNavigator
                 commits={commits()}
                 currentIndex={currentCommitIndex()}
@@ -871,6 +1443,20 @@ const AppContent: Component = () => {
                 loading={loadingCommits()}
               />
             </Show>
+            <Show when={reviewMode() === "commit" && commits().length > 0}>
+              <CommitRangePicker
+                commits={commits()}
+                forcePushes={forcePushes()}
+                range={commitRange()}
+                rebased={!!rangeDiff()?.rebased}
+                onChange={selectCommitRange}
+                loading={loadingCommits()}
+              />
+            </Show>
+
+            <Show when={reviewMode() === "since-review"}>
+              <SinceReviewBar data={sinceReviewDiff()} loading={loadingSinceReview()} />
+            </Show>
 
             {/* Diff content */}
             <div class="flex-1 overflow-y-auto px-4 pb-3">
@@ -886,20 +1472,39 @@ const AppContent: Component = () => {
                   rawDiff={activeDiff()!}
                   comments={comments()}
                   aiAnnotations={aiAnnotations()}
+                  // Check annotations point at the head, which a single commit's diff doesn't show
+                  checkAnnotations={reviewMode() !== "commit" ? checkAnnotations() : undefined}
                   loadingComments={loadingComments()}
                   onAddComment={addComment}
                   onReplyToComment={replyToComment}
                   onEditComment={editComment}
                   onDeleteComment={deleteComment}
+                  onResolveThread={resolveThread}
                   onDismissAiAnnotation={dismissAiAnnotation}
+                  reviewDrafts={reviewDrafts()}
+                  onAddDraft={diffCommitSha() ? undefined : addReviewDraft}
+                  onEditDraft={editReviewDraft}
+                  onDiscardDraft={discardReviewDraft}
+                  suggestionBatch={suggestionBatch()}
+                  // Suggestion line numbers refer to the head, which a single commit's diff doesn't show
+                  onApplySuggestions={reviewMode() !== "commit" ? applySuggestions : undefined}
+                  onToggleSuggestionBatch={
+                    reviewMode() !== "commit" ? toggleSuggestionBatch : undefined
+                  }
+                  // Only the full diff's old side is the PR base
+                  newSideOnly={reviewMode() !== "full"}
                   settings={settings()}
                   onFilesLoaded={setFiles}
                   repoOwner={prInfo()?.owner}
                   repoName={prInfo()?.repo}
-                  fileOrder={reviewOrder()}
+                  repoHost={prInfo()?.host}
+                  fileOrder={fileOrder()}
                   highlightedLine={highlightedLine()}
                   readFiles={readFiles()}
+                  dismissedFiles={dismissedFiles()}
                   onToggleRead={toggleFileRead}
+                  loadFileVersions={loadFileVersions}
+                  loadBinaryVersions={loadBinaryVersions}
                 />
               </Show>
             </div>
@@ -912,6 +1517,12 @@ const AppContent: Component = () => {
               onFileSelect={(file) => scrollToFile(file)}
               reviewOrder={reviewOrder()}
               readFiles={readFiles()}
+              dismissedFiles={dismissedFiles()}
+              binaryFiles={binaryFiles()}
+              owners={codeOwnership()?.owners}
+              ownedFiles={ownedFiles()}
+              ownedFirst={ownedFirst()}
+              onToggleOwnedFirst={() => setOwnedFirst((prev) => !prev)}
               onToggleRead={toggleFileRead}
             />
           </Show>
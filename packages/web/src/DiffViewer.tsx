@@ -1,8 +1,21 @@
 import { parsePatchFiles, SVGSpriteSheet, type FileDiffMetadata } from "@pierre/diffs";
 import { For, Show, createMemo } from "solid-js";
 
+import {
+  type BinaryVersions,
+  type CheckAnnotation,
+  type FileVersions,
+  getBinaryDiffPaths,
+} from "@better-review/shared";
+
 import { FileDiffView } from "./diff/FileDiffView";
-import type { DiffSettings, PRComment } from "./diff/types";
+import type {
+  CommentLineRange,
+  DiffSettings,
+  PRComment,
+  ReviewDraft,
+  SuggestionEdit,
+} from "./diff/types";
 import type { Annotation } from "./utils/parseReviewTokens";
 
 // Re-export types for convenience
@@ -18,25 +31,42 @@ interface Props {
   rawDiff: string;
   comments: PRComment[];
   aiAnnotations?: Annotation[];
+  /** Annotations from CI checks; only pass them when the diff's new side is the PR head */
+  checkAnnotations?: CheckAnnotation[];
   loadingComments?: boolean;
-  onAddComment: (
-    filePath: string,
-    line: number,
-    side: "LEFT" | "RIGHT",
-    body: string,
-  ) => Promise<unknown>;
+  onAddComment: (filePath: string, range: CommentLineRange, body: string) => Promise<unknown>;
   onReplyToComment: (commentId: number, body: string) => Promise<unknown>;
   onEditComment: (commentId: number, body: string) => Promise<unknown>;
   onDeleteComment: (commentId: number) => Promise<unknown>;
+  onResolveThread?: (threadId: string, resolved: boolean) => Promise<unknown>;
   onDismissAiAnnotation?: (annotationId: string) => void;
+  reviewDrafts?: ReviewDraft[];
+  onAddDraft?: (filePath: string, range: CommentLineRange, body: string) => void;
+  onEditDraft?: (draftId: string, body: string) => void;
+  onDiscardDraft?: (draftId: string) => void;
+  suggestionBatch?: SuggestionEdit[];
+  onApplySuggestions?: (edits: SuggestionEdit[]) => Promise<unknown>;
+  onToggleSuggestionBatch?: (edit: SuggestionEdit) => void;
+  /** Only anchor to the new side (old-side line numbers of incremental diffs aren't the PR base's) */
+  newSideOnly?: boolean;
   settings: DiffSettings;
   onFilesLoaded?: (files: FileDiffMetadata[]) => void;
   fileOrder?: string[] | null;
   highlightedLine?: { file: string; line: number } | null;
   repoOwner?: string | null;
   repoName?: string | null;
+  repoHost?: string | null;
   readFiles?: Set<string>;
+  dismissedFiles?: Set<string>;
   onToggleRead?: (fileName: string) => void;
+  /** Load both sides of a file so its diff context can be expanded */
+  loadFileVersions?: (path: string, prevPath?: string) => Promise<FileVersions>;
+  /** Load a binary file's blobs (with their bytes if `content`) to compare them */
+  loadBinaryVersions?: (
+    path: string,
+    prevPath: string | undefined,
+    content: boolean,
+  ) => Promise<BinaryVersions>;
 }
 
 export function DiffViewer(props: Props) {
@@ -50,6 +80,8 @@ export function DiffViewer(props: Props) {
     return allFiles;
   });
 
+  const binaryFiles = createMemo(() => getBinaryDiffPaths(props.rawDiff));
+
   // Order files according to fileOrder if provided
   const files = createMemo(() => {
     const order = props.fileOrder;
@@ -68,13 +100,27 @@ export function DiffViewer(props: Props) {
   });
 
   const commentsForFile = (fileName: string) => {
-    return props.comments.filter((c) => c.path === fileName);
+    return props.comments.filter(
+      (c) => c.path === fileName && (!props.newSideOnly || (c.side === "RIGHT" && c.line !== null)),
+    );
   };
 
   const aiAnnotationsForFile = (fileName: string) => {
     return props.aiAnnotations?.filter((a) => a.file === fileName) ?? [];
   };
 
+  const checkAnnotationsForFile = (fileName: string) => {
+    return props.checkAnnotations?.filter((a) => a.path === fileName) ?? [];
+  };
+
+  const draftsForFile = (fileName: string) => {
+    return (
+      props.reviewDrafts?.filter(
+        (d) => d.filePath === fileName && (!props.newSideOnly || d.side === "RIGHT"),
+      ) ?? []
+    );
+  };
+
   return (
     <div class="pt-3">
       <div innerHTML={SVGSpriteSheet} style="display:none" />
@@ -110,21 +156,46 @@ export function DiffViewer(props: Props) {
                   file={file}
                   comments={commentsForFile(file.name)}
                   aiAnnotations={aiAnnotationsForFile(file.name)}
-                  onAddComment={(line, side, body) =>
-                    props.onAddComment(file.name, line, side, body)
-                  }
+                  checkAnnotations={checkAnnotationsForFile(file.name)}
+                  onAddComment={(range, body) => props.onAddComment(file.name, range, body)}
                   onReplyToComment={props.onReplyToComment}
                   onEditComment={props.onEditComment}
                   onDeleteComment={props.onDeleteComment}
+                  onResolveThread={props.onResolveThread}
                   onDismissAiAnnotation={props.onDismissAiAnnotation}
+                  drafts={draftsForFile(file.name)}
+                  onAddDraft={
+                    props.onAddDraft
+                      ? (range, body) => props.onAddDraft!(file.name, range, body)
+                      : undefined
+                  }
+                  onEditDraft={props.onEditDraft}
+                  onDiscardDraft={props.onDiscardDraft}
+                  suggestionBatch={props.suggestionBatch}
+                  onApplySuggestions={props.onApplySuggestions}
+                  onToggleSuggestionBatch={props.onToggleSuggestionBatch}
+                  newSideOnly={props.newSideOnly}
                   settings={props.settings}
                   highlightedLine={highlightLine()}
                   repoOwner={props.repoOwner}
                   repoName={props.repoName}
+                  repoHost={props.repoHost}
                   isRead={props.readFiles?.has(file.name)}
+                  isDismissed={props.dismissedFiles?.has(file.name)}
                   onToggleRead={
                     props.onToggleRead ? () => props.onToggleRead!(file.name) : undefined
                   }
+                  loadFileVersions={
+                    props.loadFileVersions
+                      ? () => props.loadFileVersions!(file.name, file.prevName)
+                      : undefined
+                  }
+                  binary={binaryFiles().has(file.name)}
+                  loadBinaryVersions={
+                    props.loadBinaryVersions
+                      ? (content) => props.loadBinaryVersions!(file.name, file.prevName, content)
+                      : undefined
+                  }
                 />
               </div>
             );
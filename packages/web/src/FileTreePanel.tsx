@@ -1,6 +1,8 @@
 import type { FileDiffMetadata } from "@pierre/diffs";
 import { createSignal, createMemo, For, Show } from "solid-js";
 
+import { getImageMimeType } from "@better-review/shared";
+
 import { CheckIcon } from "./icons/check-icon";
 import { CircleIcon } from "./icons/circle-icon";
 import { ListOrderIcon } from "./icons/list-order-icon";
@@ -10,6 +12,15 @@ interface FileTreePanelProps {
   onFileSelect: (fileName: string) => void;
   reviewOrder?: string[] | null;
   readFiles?: Set<string>;
+  /** Files viewed on GitHub that changed in a later push */
+  dismissedFiles?: Set<string>;
+  binaryFiles?: Set<string>;
+  /** CODEOWNERS owners of each file */
+  owners?: Record<string, string[]>;
+  /** Files owned by the viewer or their teams */
+  ownedFiles?: Set<string>;
+  ownedFirst?: boolean;
+  onToggleOwnedFirst?: () => void;
   onToggleRead?: (fileName: string) => void;
 }
 
@@ -109,11 +120,24 @@ function TreeNodeView(props: {
   onFileSelect: (fileName: string) => void;
   matchingPaths: Set<string> | null;
   readFiles?: Set<string>;
+  dismissedFiles?: Set<string>;
+  binaryFiles?: Set<string>;
+  owners?: Record<string, string[]>;
+  ownedFiles?: Set<string>;
   onToggleRead?: (fileName: string) => void;
 }) {
   const isExpanded = () => props.expandedFolders.has(props.node.path);
   const isVisible = () => !props.matchingPaths || props.matchingPaths.has(props.node.path);
   const isRead = () => props.readFiles?.has(props.node.file?.name ?? "") ?? false;
+  const binaryLabel = () => {
+    const name = props.node.file?.name;
+    if (!name || !props.binaryFiles?.has(name)) return null;
+    return getImageMimeType(name) ? "image" : "binary";
+  };
+  const owners = () => props.owners?.[props.node.file?.name ?? ""];
+  const isOwned = () => props.ownedFiles?.has(props.node.file?.name ?? "") ?? false;
+  const isDismissed = () =>
+    !isRead() && (props.dismissedFiles?.has(props.node.file?.name ?? "") ?? false);
 
   const handleToggleRead = (e: MouseEvent) => {
     e.stopPropagation();
@@ -154,6 +178,10 @@ function TreeNodeView(props: {
                     onFileSelect={props.onFileSelect}
                     matchingPaths={props.matchingPaths}
                     readFiles={props.readFiles}
+                    dismissedFiles={props.dismissedFiles}
+                    binaryFiles={props.binaryFiles}
+                    owners={props.owners}
+                    ownedFiles={props.ownedFiles}
                     onToggleRead={props.onToggleRead}
                   />
                 )}
@@ -167,6 +195,7 @@ function TreeNodeView(props: {
             class="w-full flex items-center gap-1.5 px-2 py-0.5 hover:bg-bg-elevated text-left text-xs group transition-colors"
             style={{ "padding-left": `${props.depth * 10 + 8}px` }}
             classList={{ "opacity-60": isRead() }}
+            title={owners() ? `Owners: ${owners()!.join(", ")}` : undefined}
           >
             <FileStatusIndicator type={props.node.file!.type} />
             <span
@@ -178,6 +207,17 @@ function TreeNodeView(props: {
             >
               {props.node.name}
             </span>
+            <Show when={isOwned()}>
+              <span class="text-accent text-[10px]">mine</span>
+            </Show>
+            <Show when={binaryLabel()}>
+              {(label) => <span class="text-text-faint text-[10px]">{label()}</span>}
+            </Show>
+            <Show when={isDismissed()}>
+              <span class="text-warning text-[10px]" title="Changed since you viewed it">
+                ●
+              </span>
+            </Show>
             <Show when={props.onToggleRead}>
               <span
                 onClick={handleToggleRead}
@@ -213,12 +253,21 @@ export function FileTreePanel(props: FileTreePanelProps) {
   const [searchQuery, setSearchQuery] = createSignal("");
   const [manuallyCollapsed, setManuallyCollapsed] = createSignal<Set<string>>(new Set());
 
-  const tree = createMemo(() => buildTree(props.files));
+  const [onlyMine, setOnlyMine] = createSignal(false);
+
+  const hasOwnedFiles = () => (props.ownedFiles?.size ?? 0) > 0;
+  const visibleFiles = createMemo(() =>
+    onlyMine() && hasOwnedFiles()
+      ? props.files.filter((f) => props.ownedFiles!.has(f.name))
+      : props.files,
+  );
+
+  const tree = createMemo(() => buildTree(visibleFiles()));
 
   const matchingPaths = createMemo(() => {
     const query = searchQuery().trim();
     if (!query) return null;
-    return getMatchingPaths(props.files, query);
+    return getMatchingPaths(visibleFiles(), query);
   });
 
   // All folders expanded by default, minus manually collapsed ones
@@ -278,6 +327,37 @@ export function FileTreePanel(props: FileTreePanelProps) {
           placeholder="Filter..."
           class="w-full px-2 py-1 bg-bg border border-border text-xs text-text placeholder:text-text-faint hover:border-text-faint focus:border-accent"
         />
+        <Show when={hasOwnedFiles()}>
+          <div class="flex items-center gap-1 mt-1.5 text-[10px]">
+            <button
+              type="button"
+              onClick={() => setOnlyMine((prev) => !prev)}
+              class="px-1.5 py-0.5 border transition-colors"
+              classList={{
+                "border-accent text-accent": onlyMine(),
+                "border-border text-text-faint hover:text-text-muted": !onlyMine(),
+              }}
+              title="Only show files CODEOWNERS assigns to you or your teams"
+            >
+              Only mine
+            </button>
+            <Show when={props.onToggleOwnedFirst}>
+              <button
+                type="button"
+                onClick={() => props.onToggleOwnedFirst?.()}
+                class="px-1.5 py-0.5 border transition-colors"
+                classList={{
+                  "border-accent text-accent": props.ownedFirst,
+                  "border-border text-text-faint hover:text-text-muted": !props.ownedFirst,
+                }}
+                title="Review your files before the rest"
+              >
+                Mine first
+              </button>
+            </Show>
+            <span class="ml-auto text-text-faint">{props.ownedFiles!.size} owned</span>
+          </div>
+        </Show>
       </div>
 
       {/* AI Order indicator */}
@@ -302,6 +382,10 @@ export function FileTreePanel(props: FileTreePanelProps) {
               onFileSelect={props.onFileSelect}
               matchingPaths={matchingPaths()}
               readFiles={props.readFiles}
+              dismissedFiles={props.dismissedFiles}
+              binaryFiles={props.binaryFiles}
+              owners={props.owners}
+              ownedFiles={props.ownedFiles}
               onToggleRead={props.onToggleRead}
             />
           )}
@@ -0,0 +1,59 @@
+import { type Component, Show } from "solid-js";
+import { render } from "solid-js/web";
+
+import type { CheckAnnotation } from "@better-review/shared";
+
+export interface CheckAnnotationInlineProps {
+  annotation: CheckAnnotation;
+}
+
+const levelConfig: Record<
+  CheckAnnotation["level"],
+  { borderColor: string; textColor: string; label: string }
+> = {
+  notice: { borderColor: "border-l-info/60", textColor: "text-info", label: "Notice" },
+  warning: {
+    borderColor: "border-l-yellow-500/60",
+    textColor: "text-yellow-500",
+    label: "Warning",
+  },
+  failure: { borderColor: "border-l-error/60", textColor: "text-error", label: "Failure" },
+};
+
+/**
+ * Inline annotation a CI check reported on a line, displayed in the diff view.
+ * Styled like AI annotations, but labeled with the check that reported it.
+ */
+export const CheckAnnotationInline: Component<CheckAnnotationInlineProps> = (props) => {
+  const config = () => levelConfig[props.annotation.level];
+  const lines = () =>
+    props.annotation.startLine === props.annotation.endLine
+      ? `L${props.annotation.startLine}`
+      : `L${props.annotation.startLine}-${props.annotation.endLine}`;
+
+  return (
+    <div class={`border-l-2 ${config().borderColor} pl-3 pr-2 py-2 font-mono`}>
+      <div class="flex items-center gap-2 mb-1 text-xs">
+        <span class={config().textColor}>{config().label}</span>
+        <span class="text-text-faint">{lines()}</span>
+        <span class="text-text-muted">{props.annotation.checkName}</span>
+        <Show when={props.annotation.title}>
+          <span class="text-text-faint truncate">{props.annotation.title}</span>
+        </Show>
+      </div>
+      <p class="text-sm text-text-muted leading-relaxed m-0 whitespace-pre-wrap">
+        {props.annotation.message}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Render CheckAnnotationInline into a DOM element. Returns dispose function.
+ */
+export function renderCheckAnnotation(
+  container: HTMLElement,
+  props: CheckAnnotationInlineProps,
+): () => void {
+  return render(() => <CheckAnnotationInline {...props} />, container);
+}
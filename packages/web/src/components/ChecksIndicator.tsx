@@ -0,0 +1,315 @@
+import { For, Show, createMemo, createResource, createSignal } from "solid-js";
+
+import type { CheckRun, CheckRunLog } from "@better-review/shared";
+
+import { CheckIcon } from "../icons/check-icon";
+import { CloseIcon } from "../icons/close-icon";
+import { ExternalLinkIcon } from "../icons/external-link-icon";
+import { SpinnerIcon } from "../icons/spinner-icon";
+import { type GitHubContext, parseMarkdown } from "../lib/markdown";
+
+/**
+ * Loads a check run's log tail and re-runs check suites; both reject with the error to show
+ */
+export interface CheckActions {
+  loadLog: (checkRunId: number) => Promise<CheckRunLog | null>;
+  onRerun: (checkSuiteIds: number[]) => Promise<void>;
+}
+
+interface ChecksIndicatorProps {
+  checks: readonly CheckRun[];
+  /** GitHub rate limited the checks fetch, so there are none to show for now */
+  rateLimited?: boolean;
+  actions?: CheckActions;
+  githubContext?: GitHubContext | null;
+}
+
+const isFailed = (check: CheckRun) =>
+  check.conclusion === "failure" || check.conclusion === "timed_out";
+
+const isPending = (check: CheckRun) => check.status !== "completed";
+
+// Failures first since they're what the panel is opened for, then the ones still running
+const checkOrder = (check: CheckRun) => (isFailed(check) ? 0 : isPending(check) ? 1 : 2);
+
+function CheckStatusIcon(props: { check: CheckRun }) {
+  return (
+    <Show
+      when={!isPending(props.check)}
+      fallback={<SpinnerIcon size={12} class="text-yellow-500 animate-spin flex-shrink-0" />}
+    >
+      <Show
+        when={isFailed(props.check)}
+        fallback={
+          <CheckIcon
+            size={12}
+            class={`flex-shrink-0 ${props.check.conclusion === "success" ? "text-success" : "text-text-faint"}`}
+          />
+        }
+      >
+        <CloseIcon size={12} class="text-error flex-shrink-0" />
+      </Show>
+    </Show>
+  );
+}
+
+function CheckRow(props: {
+  check: CheckRun;
+  actions?: CheckActions;
+  githubContext?: GitHubContext | null;
+  rerunning: boolean;
+  onRerun: (checkSuiteId: number) => void;
+}) {
+  const [expanded, setExpanded] = createSignal(false);
+  const [showLog, setShowLog] = createSignal(false);
+  const [log] = createResource(
+    () => showLog() && props.actions && props.check.id,
+    (id) => props.actions!.loadLog(id),
+  );
+
+  const hasDetails = () => !!props.check.summary || (isFailed(props.check) && !!props.actions);
+
+  return (
+    <li class="border-b border-border last:border-b-0">
+      <div class="flex items-center gap-2 px-3 py-1.5">
+        <CheckStatusIcon check={props.check} />
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded())}
+          disabled={!hasDetails()}
+          class="flex-1 min-w-0 text-left text-sm text-text truncate enabled:hover:text-accent transition-colors"
+          title={hasDetails() ? (expanded() ? "Hide details" : "Show details") : undefined}
+        >
+          {props.check.name}
+        </button>
+        <span class="text-xs text-text-faint flex-shrink-0">
+          {(props.check.conclusion ?? props.check.status).replace("_", " ")}
+        </span>
+        <Show when={isFailed(props.check) && props.actions && props.check.checkSuiteId}>
+          {(suiteId) => (
+            <button
+              type="button"
+              onClick={() => props.onRerun(suiteId())}
+              disabled={props.rerunning}
+              class="text-xs text-text-faint hover:text-accent transition-colors disabled:opacity-50 flex-shrink-0"
+              title="Re-run this check's suite"
+            >
+              ↻
+            </button>
+          )}
+        </Show>
+        <Show when={props.check.detailsUrl}>
+          {(url) => (
+            <a
+              href={url()}
+              target="_blank"
+              rel="noopener noreferrer"
+              class="text-text-faint hover:text-text transition-colors flex-shrink-0"
+              title="Open details"
+            >
+              <ExternalLinkIcon size={10} />
+            </a>
+          )}
+        </Show>
+      </div>
+
+      <Show when={expanded()}>
+        <div class="px-3 pb-2 space-y-2">
+          <Show when={props.check.summary}>
+            {(summary) => (
+              <div
+                class="text-xs text-text-muted leading-relaxed markdown-content"
+                innerHTML={parseMarkdown(summary(), props.githubContext)}
+              />
+            )}
+          </Show>
+
+          <Show when={isFailed(props.check) && props.actions}>
+            <Show
+              when={showLog()}
+              fallback={
+                <button
+                  type="button"
+                  onClick={() => setShowLog(true)}
+                  class="text-xs text-text-faint hover:text-text transition-colors"
+                >
+                  Show log
+                </button>
+              }
+            >
+              <Show
+                when={!log.loading}
+                fallback={<div class="text-xs text-text-faint animate-pulse">Loading log…</div>}
+              >
+                <Show
+                  when={!log.error}
+                  fallback={<div class="text-xs text-error">Failed to load the log</div>}
+                >
+                  <Show
+                    when={log()}
+                    fallback={
+                      <div class="text-xs text-text-faint">
+                        No log available (only GitHub Actions jobs have one)
+                      </div>
+                    }
+                  >
+                    {(l) => (
+                      <div>
+                        <Show when={l().truncated}>
+                          <div class="text-xs text-text-faint mb-1">Last lines of the log</div>
+                        </Show>
+                        <pre class="max-h-64 overflow-auto p-2 bg-bg border border-border text-xs text-text-muted whitespace-pre">
+                          {l().tail}
+                        </pre>
+                      </div>
+                    )}
+                  </Show>
+                </Show>
+              </Show>
+            </Show>
+          </Show>
+        </div>
+      </Show>
+    </li>
+  );
+}
+
+/**
+ * CI checks summary with a panel listing each check, its summary and (for failed
+ * Actions jobs) the end of its log
+ */
+export function ChecksIndicator(props: ChecksIndicatorProps) {
+  const [open, setOpen] = createSignal(false);
+  const [rerunning, setRerunning] = createSignal(false);
+
+  const summary = createMemo(() => {
+    const checks = props.checks;
+    if (checks.length === 0) return null;
+
+    const completed = checks.filter((c) => c.status === "completed");
+    const inProgress = checks.filter((c) => c.status === "in_progress" || c.status === "queued");
+    const failed = completed.filter(isFailed);
+    const passed = completed.filter(
+      (c) => c.conclusion === "success" || c.conclusion === "skipped" || c.conclusion === "neutral",
+    );
+
+    return {
+      total: checks.length,
+      completed: completed.length,
+      inProgress: inProgress.length,
+      failed: failed.length,
+      passed: passed.length,
+    };
+  });
+
+  const status = createMemo(() => {
+    const s = summary();
+    if (!s) return null;
+    if (s.failed > 0) return "failed";
+    if (s.inProgress > 0) return "pending";
+    if (s.passed === s.total) return "passed";
+    return "pending";
+  });
+
+  const sortedChecks = createMemo(() =>
+    props.checks.toSorted((a, b) => checkOrder(a) - checkOrder(b) || a.name.localeCompare(b.name)),
+  );
+
+  // Several failed runs often share a suite (one workflow run), which only needs one re-run
+  const failedSuites = createMemo(() => [
+    ...new Set(props.checks.filter(isFailed).flatMap((c) => c.checkSuiteId ?? [])),
+  ]);
+
+  const rerun = async (checkSuiteIds: number[]) => {
+    if (!props.actions || rerunning()) return;
+    setRerunning(true);
+    try {
+      await props.actions.onRerun(checkSuiteIds);
+    } catch (err) {
+      console.error("Failed to re-run checks:", err);
+      alert(err instanceof Error ? err.message : "Failed to re-run checks");
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  return (
+    <Show
+      when={summary()}
+      fallback={
+        <Show when={props.rateLimited}>
+          <span class="text-sm text-text-faint" title="Checks paused by GitHub rate limiting">
+            ◷ checks
+          </span>
+        </Show>
+      }
+    >
+      {(s) => (
+        <div class="relative">
+          <button
+            type="button"
+            onClick={() => setOpen(!open())}
+            class="flex items-center gap-1.5 hover:opacity-80 transition-opacity"
+            title="Show checks"
+          >
+            <Show when={status() === "passed"}>
+              <CheckIcon size={12} class="text-success" />
+            </Show>
+            <Show when={status() === "failed"}>
+              <CloseIcon size={12} class="text-error" />
+            </Show>
+            <Show when={status() === "pending"}>
+              <SpinnerIcon size={12} class="text-yellow-500 animate-spin" />
+            </Show>
+            <span class="text-sm text-text-muted">
+              {s().passed}/{s().total} checks
+            </span>
+          </button>
+
+          <Show when={open()}>
+            {/* Backdrop */}
+            <div class="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+            {/* Popover */}
+            <div class="absolute top-full left-0 mt-1 z-50 w-120 max-w-[calc(100vw-32px)] border border-border bg-bg-surface shadow-lg shadow-black/50">
+              <div class="px-3 py-2 border-b border-border flex items-center justify-between gap-2">
+                <span class="text-sm text-text">Checks</span>
+                <div class="flex items-center gap-2">
+                  <Show when={props.actions && failedSuites().length > 0}>
+                    <button
+                      type="button"
+                      onClick={() => rerun(failedSuites())}
+                      disabled={rerunning()}
+                      class="px-1.5 py-0.5 text-xs border border-border text-text-muted hover:text-text hover:border-text-faint transition-colors disabled:opacity-50"
+                    >
+                      {rerunning() ? "Re-running..." : "Re-run failed"}
+                    </button>
+                  </Show>
+                  <button
+                    onClick={() => setOpen(false)}
+                    class="text-text-faint hover:text-text text-base leading-none"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+              <ul class="max-h-[60vh] overflow-y-auto">
+                <For each={sortedChecks()}>
+                  {(check) => (
+                    <CheckRow
+                      check={check}
+                      actions={props.actions}
+                      githubContext={props.githubContext}
+                      rerunning={rerunning()}
+                      onRerun={(suiteId) => rerun([suiteId])}
+                    />
+                  )}
+                </For>
+              </ul>
+            </div>
+          </Show>
+        </div>
+      )}
+    </Show>
+  );
+}
@@ -1,8 +1,12 @@
 import { type Component, Show, For, createSignal } from "solid-js";
 import { render } from "solid-js/web";
 
+import type { ReviewThreadState } from "@better-review/shared";
+
 import { GitHubIcon } from "../icons/github-icon";
 import { parseMarkdown } from "../lib/markdown";
+import { buildSuggestionBlock, parseCommentSegments } from "../utils/suggestions";
+import { type SuggestionActions, SuggestionBlock } from "./SuggestionBlock";
 
 // Shared comment data interface that works for both PRComment and IssueComment
 export interface CommentData {
@@ -19,6 +23,8 @@ export interface CommentData {
 }
 
 export interface GitHubContext {
+  /** Defaults to github.com */
+  host?: string;
   owner: string;
   repo: string;
 }
@@ -28,9 +34,39 @@ function formatCommentDate(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString();
 }
 
+/**
+ * Markdown comment body with ```suggestion blocks rendered as mini diffs.
+ */
+const CommentBody: Component<{
+  body: string;
+  githubContext?: GitHubContext | null;
+  suggestion?: SuggestionActions;
+}> = (props) => {
+  const segments = () => parseCommentSegments(props.body);
+
+  return (
+    <div class="text-sm text-text-muted leading-relaxed">
+      <For each={segments()}>
+        {(segment) =>
+          segment.type === "suggestion" ? (
+            <SuggestionBlock lines={segment.lines} {...props.suggestion} />
+          ) : (
+            <div
+              class="markdown-content"
+              innerHTML={parseMarkdown(segment.content, props.githubContext)}
+            />
+          )
+        }
+      </For>
+    </div>
+  );
+};
+
 export interface CommentViewProps {
   comment: CommentData;
   githubContext?: GitHubContext | null;
+  /** Context for previewing and applying a ```suggestion in the body */
+  suggestion?: SuggestionActions;
   showEdited?: boolean;
   isReply?: boolean;
   onEdit?: (commentId: number, body: string) => Promise<void>;
@@ -247,12 +283,10 @@ export const CommentView: Component<CommentViewProps> = (props) => {
         </Show>
 
         {/* Comment body - markdown rendered */}
-        <div
-          class="text-sm text-text-muted leading-relaxed markdown-content"
-          innerHTML={parseMarkdown(
-            props.comment.displayBody ?? props.comment.body,
-            props.githubContext,
-          )}
+        <CommentBody
+          body={props.comment.displayBody ?? props.comment.body}
+          githubContext={props.githubContext}
+          suggestion={props.suggestion}
         />
       </Show>
     </div>
@@ -338,13 +372,25 @@ const ReplyForm: Component<ReplyFormProps> = (props) => {
   );
 };
 
+/** Format a line selection as "Line 5" or "Lines 3-5" */
+function formatLineRange(startLine: number, endLine: number): string {
+  return startLine === endLine ? `Line ${startLine}` : `Lines ${startLine}-${endLine}`;
+}
+
 export interface CommentThreadProps {
   rootComment: CommentData;
   replies: CommentData[];
+  /** Lines covered by a multi-line comment (null/undefined for single-line) */
+  lineRange?: { startLine: number; endLine: number } | null;
   githubContext?: GitHubContext | null;
+  /** Suggestion context for the root comment */
+  suggestion?: SuggestionActions;
   onEdit: (commentId: number, body: string) => Promise<void>;
   onDelete: (commentId: number) => Promise<void>;
   onReply: (body: string) => Promise<void>;
+  /** Resolution state from GitHub; resolved threads start collapsed */
+  threadState?: ReviewThreadState;
+  onResolve?: (resolved: boolean) => Promise<void>;
 }
 
 /**
@@ -353,95 +399,166 @@ export interface CommentThreadProps {
 export const CommentThread: Component<CommentThreadProps> = (props) => {
   const [showAllReplies, setShowAllReplies] = createSignal(false);
   const [isReplying, setIsReplying] = createSignal(false);
+  const [collapsed, setCollapsed] = createSignal(!!props.threadState?.isResolved);
+  const [isResolving, setIsResolving] = createSignal(false);
 
   const shouldCollapse = () => props.replies.length >= 3;
   const hiddenCount = () => props.replies.length - 2;
+  const isResolved = () => !!props.threadState?.isResolved;
+
+  const toggleResolved = async () => {
+    if (!props.onResolve || isResolving()) return;
+    setIsResolving(true);
+    try {
+      await props.onResolve(!isResolved());
+    } catch (err) {
+      console.error("Failed to update thread:", err);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const resolveButton = () => (
+    <Show when={props.onResolve}>
+      <button
+        type="button"
+        onClick={toggleResolved}
+        disabled={isResolving()}
+        class="text-xs text-text-faint hover:text-accent transition-colors cursor-pointer disabled:opacity-50"
+      >
+        {isResolving() ? "Saving..." : isResolved() ? "Unresolve" : "Resolve"}
+      </button>
+    </Show>
+  );
 
   return (
     <div class="space-y-2">
-      {/* Root comment */}
-      <CommentView
-        comment={props.rootComment}
-        githubContext={props.githubContext}
-        onEdit={props.onEdit}
-        onDelete={props.onDelete}
-      />
-
-      {/* Replies - collapsed view */}
-      <Show when={shouldCollapse() && !showAllReplies() && props.replies.length > 0}>
-        {/* First reply */}
-        <div class="mt-2">
-          <CommentView
-            comment={props.replies[0]}
-            githubContext={props.githubContext}
-            onEdit={props.onEdit}
-            onDelete={props.onDelete}
-            isReply
-          />
+      <Show when={props.lineRange || isResolved() || props.threadState?.isOutdated}>
+        <div class="flex items-center gap-2 text-xs text-text-faint">
+          <Show when={props.lineRange}>
+            {(range) => <span>{formatLineRange(range().startLine, range().endLine)}</span>}
+          </Show>
+          <Show when={isResolved()}>
+            <span class="px-1.5 py-0.5 border border-success/50 text-success">Resolved</span>
+          </Show>
+          <Show when={props.threadState?.isOutdated}>
+            <span class="px-1.5 py-0.5 border border-border">Outdated</span>
+          </Show>
+          <Show when={isResolved()}>
+            <button
+              type="button"
+              onClick={() => setCollapsed(!collapsed())}
+              class="ml-auto hover:text-accent transition-colors cursor-pointer"
+            >
+              {collapsed() ? "Show" : "Hide"}
+            </button>
+          </Show>
         </div>
+      </Show>
 
-        {/* Expand button */}
-        <Show when={hiddenCount() > 0}>
-          <button
-            type="button"
-            onClick={() => setShowAllReplies(true)}
-            class="ml-3 text-sm text-accent hover:text-accent-bright cursor-pointer"
-          >
-            +{hiddenCount()} more
-          </button>
-        </Show>
+      <Show
+        when={!collapsed()}
+        fallback={
+          <div class="flex items-center gap-2 text-xs text-text-faint">
+            <span class="truncate">
+              {props.rootComment.user.login}
+              <Show when={props.replies.length > 0}>
+                {" "}
+                and {props.replies.length} repl{props.replies.length === 1 ? "y" : "ies"}
+              </Show>
+            </span>
+            {resolveButton()}
+          </div>
+        }
+      >
+        {/* Root comment */}
+        <CommentView
+          comment={props.rootComment}
+          githubContext={props.githubContext}
+          suggestion={props.suggestion}
+          onEdit={props.onEdit}
+          onDelete={props.onDelete}
+        />
 
-        {/* Last reply */}
-        <Show when={props.replies.length > 1}>
+        {/* Replies - collapsed view */}
+        <Show when={shouldCollapse() && !showAllReplies() && props.replies.length > 0}>
+          {/* First reply */}
           <div class="mt-2">
             <CommentView
-              comment={props.replies[props.replies.length - 1]}
+              comment={props.replies[0]}
               githubContext={props.githubContext}
               onEdit={props.onEdit}
               onDelete={props.onDelete}
               isReply
             />
           </div>
-        </Show>
-      </Show>
 
-      {/* Replies - expanded view */}
-      <Show when={!shouldCollapse() || showAllReplies()}>
-        <For each={props.replies}>
-          {(reply) => (
+          {/* Expand button */}
+          <Show when={hiddenCount() > 0}>
+            <button
+              type="button"
+              onClick={() => setShowAllReplies(true)}
+              class="ml-3 text-sm text-accent hover:text-accent-bright cursor-pointer"
+            >
+              +{hiddenCount()} more
+            </button>
+          </Show>
+
+          {/* Last reply */}
+          <Show when={props.replies.length > 1}>
             <div class="mt-2">
               <CommentView
-                comment={reply}
+                comment={props.replies[props.replies.length - 1]}
                 githubContext={props.githubContext}
                 onEdit={props.onEdit}
                 onDelete={props.onDelete}
                 isReply
               />
             </div>
-          )}
-        </For>
-      </Show>
+          </Show>
+        </Show>
 
-      {/* Reply form or button */}
-      <Show
-        when={isReplying()}
-        fallback={
-          <button
-            type="button"
-            onClick={() => setIsReplying(true)}
-            class="mt-2 text-xs text-text-faint hover:text-accent transition-colors cursor-pointer"
-          >
-            Reply
-          </button>
-        }
-      >
-        <ReplyForm
-          onSubmit={async (body) => {
-            await props.onReply(body);
-            setIsReplying(false);
-          }}
-          onCancel={() => setIsReplying(false)}
-        />
+        {/* Replies - expanded view */}
+        <Show when={!shouldCollapse() || showAllReplies()}>
+          <For each={props.replies}>
+            {(reply) => (
+              <div class="mt-2">
+                <CommentView
+                  comment={reply}
+                  githubContext={props.githubContext}
+                  onEdit={props.onEdit}
+                  onDelete={props.onDelete}
+                  isReply
+                />
+              </div>
+            )}
+          </For>
+        </Show>
+
+        {/* Reply form or button */}
+        <Show
+          when={isReplying()}
+          fallback={
+            <div class="flex items-center gap-3 mt-2">
+              <button
+                type="button"
+                onClick={() => setIsReplying(true)}
+                class="text-xs text-text-faint hover:text-accent transition-colors cursor-pointer"
+              >
+                Reply
+              </button>
+              {resolveButton()}
+            </div>
+          }
+        >
+          <ReplyForm
+            onSubmit={async (body) => {
+              await props.onReply(body);
+              setIsReplying(false);
+            }}
+            onCancel={() => setIsReplying(false)}
+          />
+        </Show>
       </Show>
     </div>
   );
@@ -461,7 +578,11 @@ export function renderCommentThread(container: HTMLElement, props: CommentThread
 export interface PendingCommentFormProps {
   startLine: number;
   endLine: number;
+  /** Current content of the selected lines, used to pre-fill a suggestion */
+  suggestionLines?: string[] | null;
   onSubmit: (body: string) => Promise<void>;
+  /** Queue the comment in the pending review instead of posting it right away */
+  onAddToReview?: (body: string) => void;
   onCancel: () => void;
 }
 
@@ -472,10 +593,13 @@ export const PendingCommentForm: Component<PendingCommentFormProps> = (props) =>
   const [body, setBody] = createSignal("");
   const [isSubmitting, setIsSubmitting] = createSignal(false);
 
-  const lineLabel = () =>
-    props.startLine === props.endLine
-      ? `Line ${props.startLine}`
-      : `Lines ${props.startLine}-${props.endLine}`;
+  const lineLabel = () => formatLineRange(props.startLine, props.endLine);
+
+  const insertSuggestion = () => {
+    if (!props.suggestionLines) return;
+    const block = buildSuggestionBlock(props.suggestionLines);
+    setBody((current) => (current.trim() ? `${current.trimEnd()}\n\n${block}` : block));
+  };
 
   const submit = async () => {
     if (isSubmitting()) return;
@@ -493,10 +617,22 @@ export const PendingCommentForm: Component<PendingCommentFormProps> = (props) =>
     }
   };
 
+  const addToReview = () => {
+    const text = body().trim();
+    if (!text || !props.onAddToReview) return;
+    props.onAddToReview(text);
+    setBody("");
+  };
+
   const handleKeyDown = (e: KeyboardEvent) => {
     if (e.key === "Enter" && e.metaKey) {
       e.preventDefault();
-      submit();
+      // Prefer batching into the pending review when it's available
+      if (props.onAddToReview) {
+        addToReview();
+      } else {
+        submit();
+      }
     }
     if (e.key === "Escape") {
       props.onCancel();
@@ -505,7 +641,19 @@ export const PendingCommentForm: Component<PendingCommentFormProps> = (props) =>
 
   return (
     <div>
-      <div class="text-sm text-accent mb-2">{lineLabel()}</div>
+      <div class="flex items-center mb-2">
+        <span class="text-sm text-accent">{lineLabel()}</span>
+        <Show when={props.suggestionLines}>
+          <button
+            type="button"
+            onClick={insertSuggestion}
+            class="ml-auto text-xs text-text-faint hover:text-accent transition-colors"
+            title="Insert a suggested change for the selected lines"
+          >
+            Suggest change
+          </button>
+        </Show>
+      </div>
       <textarea
         value={body()}
         onInput={(e) => setBody(e.currentTarget.value)}
@@ -516,14 +664,37 @@ export const PendingCommentForm: Component<PendingCommentFormProps> = (props) =>
         autofocus
       />
       <div class="flex gap-2 mt-2">
-        <button
-          type="button"
-          onClick={submit}
-          disabled={!body().trim() || isSubmitting()}
-          class="px-2.5 py-1 bg-accent text-black text-sm hover:bg-accent-bright disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        <Show
+          when={props.onAddToReview}
+          fallback={
+            <button
+              type="button"
+              onClick={submit}
+              disabled={!body().trim() || isSubmitting()}
+              class="px-2.5 py-1 bg-accent text-black text-sm hover:bg-accent-bright disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting() ? "Commenting..." : "Comment"}
+            </button>
+          }
         >
-          {isSubmitting() ? "Commenting..." : "Comment"}
-        </button>
+          <button
+            type="button"
+            onClick={addToReview}
+            disabled={!body().trim() || isSubmitting()}
+            class="px-2.5 py-1 bg-accent text-black text-sm hover:bg-accent-bright disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add to review
+          </button>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!body().trim() || isSubmitting()}
+            class="px-2.5 py-1 border border-border text-text-muted text-sm hover:text-text hover:border-text-faint disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Post immediately as a single comment"
+          >
+            {isSubmitting() ? "Commenting..." : "Comment now"}
+          </button>
+        </Show>
         <button
           type="button"
           onClick={props.onCancel}
@@ -546,3 +717,121 @@ export function renderPendingCommentForm(
 ): () => void {
   return render(() => <PendingCommentForm {...props} />, container);
 }
+
+// ============================================================================
+// DraftCommentView - a comment queued in the pending review
+// ============================================================================
+
+export interface DraftCommentViewProps {
+  lineRange?: { startLine: number; endLine: number } | null;
+  body: string;
+  githubContext?: GitHubContext | null;
+  onEdit: (body: string) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Inline view of a pending review comment. Not yet visible on GitHub.
+ */
+export const DraftCommentView: Component<DraftCommentViewProps> = (props) => {
+  const [isEditing, setIsEditing] = createSignal(false);
+  const [editBody, setEditBody] = createSignal("");
+
+  const startEditing = () => {
+    setEditBody(props.body);
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    const text = editBody().trim();
+    if (!text) return;
+    props.onEdit(text);
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Enter" && e.metaKey) {
+      e.preventDefault();
+      save();
+    }
+    if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div>
+      <div class="flex items-center gap-2 mb-1">
+        <span class="px-1.5 py-0.5 text-xs border border-accent/50 text-accent">Pending</span>
+        <Show when={props.lineRange}>
+          {(range) => (
+            <span class="text-xs text-text-faint">
+              {formatLineRange(range().startLine, range().endLine)}
+            </span>
+          )}
+        </Show>
+        <Show when={!isEditing()}>
+          <div class="flex items-center gap-2 ml-auto text-xs">
+            <button
+              type="button"
+              onClick={startEditing}
+              class="text-text-faint hover:text-accent transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={props.onDiscard}
+              class="text-text-faint hover:text-red-400 transition-colors"
+            >
+              Discard
+            </button>
+          </div>
+        </Show>
+      </div>
+      <Show
+        when={!isEditing()}
+        fallback={
+          <div>
+            <textarea
+              value={editBody()}
+              onInput={(e) => setEditBody(e.currentTarget.value)}
+              onKeyDown={handleKeyDown}
+              class="w-full px-2 py-1.5 bg-bg border border-accent text-text focus:border-accent resize-y min-h-[60px] text-sm"
+              autofocus
+            />
+            <div class="flex gap-2 mt-1.5">
+              <button
+                type="button"
+                onClick={save}
+                disabled={!editBody().trim()}
+                class="px-2.5 py-1 bg-accent text-black text-sm hover:bg-accent-bright disabled:opacity-50 transition-colors"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                class="px-2.5 py-1 text-text-faint text-sm hover:text-text transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        }
+      >
+        <CommentBody body={props.body} githubContext={props.githubContext} />
+      </Show>
+    </div>
+  );
+};
+
+/**
+ * Render DraftCommentView into a DOM element. Returns dispose function.
+ */
+export function renderDraftComment(
+  container: HTMLElement,
+  props: DraftCommentViewProps,
+): () => void {
+  return render(() => <DraftCommentView {...props} />, container);
+}
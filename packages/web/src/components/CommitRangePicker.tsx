@@ -0,0 +1,141 @@
+import { For, Show, createSignal, type Component } from "solid-js";
+
+import type { CommitRange, ForcePush, PrCommit } from "../diff/types";
+
+interface CommitRangePickerProps {
+  commits: PrCommit[];
+  forcePushes: ForcePush[];
+  range: CommitRange | null;
+  /** The range's head doesn't build on its base, so only files whose PR changes differ are shown */
+  rebased?: boolean;
+  onChange: (range: CommitRange | null) => void;
+  loading?: boolean;
+}
+
+const shortSha = (sha: string) => sha.slice(0, 7);
+
+export const CommitRangePicker: Component<CommitRangePickerProps> = (props) => {
+  const [from, setFrom] = createSignal(0);
+  const [to, setTo] = createSignal(Math.max(props.commits.length - 1, 0));
+
+  // The range includes its first commit, so diff from that commit's parent
+  const rangeBase = () => props.commits[from()]?.parentSha ?? null;
+  const canCompare = () => !props.loading && rangeBase() !== null && from() <= to();
+
+  const compareCommits = () => {
+    const base = rangeBase();
+    const head = props.commits[to()];
+    if (!base || !head) return;
+    props.onChange({
+      base,
+      head: head.sha,
+      label: from() === to() ? `commit ${from() + 1}` : `commits ${from() + 1}..${to() + 1}`,
+    });
+  };
+
+  const comparePush = (index: number) => {
+    const push = props.forcePushes[index];
+    if (!push?.beforeSha) return;
+    props.onChange({
+      base: push.beforeSha,
+      head: push.afterSha,
+      label: `force-push ${shortSha(push.beforeSha)}..${shortSha(push.afterSha)}`,
+    });
+  };
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+  const selectClass =
+    "min-w-0 max-w-48 px-2 py-1 bg-bg border border-border text-sm text-text disabled:opacity-50 cursor-pointer";
+
+  return (
+    <div class="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-border bg-bg-surface text-sm">
+      <Show
+        when={!props.range}
+        fallback={
+          <>
+            <span class="text-text-muted">Comparing {props.range!.label}</span>
+            <span class="font-mono text-text-faint">
+              {shortSha(props.range!.base)}..{shortSha(props.range!.head)}
+            </span>
+            <Show when={props.rebased}>
+              <span
+                class="text-yellow-500"
+                title="Only files whose changes differ between the two heads are shown. They can also include changes from the new base."
+              >
+                Rebased
+              </span>
+            </Show>
+            <Show when={props.loading}>
+              <span class="text-accent animate-pulse">Loading...</span>
+            </Show>
+            <button
+              type="button"
+              onClick={() => props.onChange(null)}
+              class="ml-auto px-2 py-0.5 text-text-muted hover:text-text border border-border transition-colors"
+            >
+              Back to single commits
+            </button>
+          </>
+        }
+      >
+        <span class="text-text-faint">Range</span>
+        <select
+          value={from()}
+          onChange={(e) => setFrom(Number(e.target.value))}
+          class={selectClass}
+        >
+          <For each={props.commits}>
+            {(commit, i) => (
+              <option value={i()}>
+                {i() + 1}: {shortSha(commit.sha)}
+              </option>
+            )}
+          </For>
+        </select>
+        <span class="text-text-faint">to</span>
+        <select value={to()} onChange={(e) => setTo(Number(e.target.value))} class={selectClass}>
+          <For each={props.commits}>
+            {(commit, i) => (
+              <option value={i()}>
+                {i() + 1}: {shortSha(commit.sha)}
+              </option>
+            )}
+          </For>
+        </select>
+        <button
+          type="button"
+          onClick={compareCommits}
+          disabled={!canCompare()}
+          class="px-2 py-0.5 text-accent border border-accent/50 hover:bg-accent/10 disabled:opacity-50 transition-colors"
+        >
+          Compare
+        </button>
+
+        <Show when={props.forcePushes.length > 0}>
+          <span class="text-text-faint border-l border-border pl-2 ml-1">Force-pushes</span>
+          <select
+            value=""
+            onChange={(e) => comparePush(Number(e.target.value))}
+            disabled={props.loading}
+            class={selectClass}
+          >
+            <option value="" disabled>
+              Select a push...
+            </option>
+            <For each={props.forcePushes}>
+              {(push, i) => (
+                <option value={i()} disabled={!push.beforeSha}>
+                  {formatDate(push.createdAt)}
+                  {push.actor ? ` by ${push.actor}` : ""}:{" "}
+                  {push.beforeSha ? shortSha(push.beforeSha) : "(gone)"}..{shortSha(push.afterSha)}
+                </option>
+              )}
+            </For>
+          </select>
+        </Show>
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import { For, Show, createEffect, createSignal, on } from "solid-js";
+
+import type { MergeBlocker, MergeMethod, MergeState } from "@better-review/shared";
+
+import { SpinnerIcon } from "../icons/spinner-icon";
+
+interface MergeButtonProps {
+  state: MergeState;
+  onMerge: (options: {
+    method: MergeMethod;
+    title?: string;
+    body?: string;
+    sha?: string;
+    deleteBranch?: boolean;
+  }) => Promise<{ branchDeleted: boolean }>;
+  onSetAutoMerge: (options: {
+    enabled: boolean;
+    method?: MergeMethod;
+    title?: string;
+    body?: string;
+  }) => Promise<void>;
+}
+
+const METHOD_LABELS: Record<MergeMethod, { label: string; action: string }> = {
+  merge: { label: "Create a merge commit", action: "Merge" },
+  squash: { label: "Squash and merge", action: "Squash and merge" },
+  rebase: { label: "Rebase and merge", action: "Rebase and merge" },
+};
+
+// Auto-merge waits out checks and reviews, but can't resolve conflicts or leave draft state
+const WAITABLE_BLOCKERS = new Set<MergeBlocker["kind"]>(["pending-checks", "review-required"]);
+
+/**
+ * Merge status with a popover to merge the PR (or enable auto-merge while it's blocked
+ * on checks or reviews)
+ */
+export function MergeButton(props: MergeButtonProps) {
+  const [open, setOpen] = createSignal(false);
+  const [method, setMethod] = createSignal<MergeMethod>(props.state.defaultMethod);
+  const [title, setTitle] = createSignal("");
+  const [body, setBody] = createSignal("");
+  const [deleteBranch, setDeleteBranch] = createSignal(true);
+  const [busy, setBusy] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Each method has its own default commit message
+  createEffect(
+    on(method, (m) => {
+      const message = m === "rebase" ? null : props.state.messages[m];
+      setTitle(message?.title ?? "");
+      setBody(message?.body ?? "");
+    }),
+  );
+
+  const blocked = () => props.state.blockers.length > 0;
+  const canAutoMerge = () =>
+    props.state.autoMergeAllowed &&
+    !props.state.autoMerge &&
+    blocked() &&
+    props.state.blockers.every((b) => WAITABLE_BLOCKERS.has(b.kind));
+  const hasCommitMessage = () => method() !== "rebase";
+
+  const commitMessage = () =>
+    hasCommitMessage() ? { title: title().trim() || undefined, body: body() } : {};
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Merge failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMerge = () =>
+    run(async () => {
+      const wantsDelete = deleteBranch() && !props.state.deleteBranchOnMerge;
+      const result = await props.onMerge({
+        method: method(),
+        ...commitMessage(),
+        sha: props.state.headSha,
+        deleteBranch: wantsDelete,
+      });
+      setOpen(false);
+      // The status bar drops the merge controls once the PR is merged, so report it right away
+      if (wantsDelete && !result.branchDeleted) {
+        alert("Merged, but the head branch couldn't be deleted");
+      }
+    });
+
+  const handleEnableAutoMerge = () =>
+    run(async () => {
+      await props.onSetAutoMerge({ enabled: true, method: method(), ...commitMessage() });
+      setOpen(false);
+    });
+
+  const handleDisableAutoMerge = () => run(() => props.onSetAutoMerge({ enabled: false }));
+
+  return (
+    <div class="relative flex items-center gap-1.5 text-xs">
+      <Show
+        when={props.state.autoMerge}
+        fallback={
+          <Show
+            when={blocked()}
+            fallback={
+              <span class="text-success">
+                {props.state.mergeable === null ? "Checking mergeability…" : "Ready to merge"}
+              </span>
+            }
+          >
+            <span class="text-error" title={props.state.blockers.map((b) => b.message).join("\n")}>
+              {props.state.blockers[0].message}
+              <Show when={props.state.blockers.length > 1}>
+                {` (+${props.state.blockers.length - 1})`}
+              </Show>
+            </span>
+          </Show>
+        }
+      >
+        {(autoMerge) => (
+          <>
+            <span class="text-accent">
+              Auto-merge ({autoMerge().method}) enabled by {autoMerge().enabledBy}
+            </span>
+            <button
+              type="button"
+              onClick={handleDisableAutoMerge}
+              disabled={busy()}
+              class="text-text-faint hover:text-red-400 transition-colors disabled:opacity-50"
+            >
+              Disable
+            </button>
+          </>
+        )}
+      </Show>
+
+      <Show when={!props.state.autoMerge && props.state.methods.length > 0}>
+        <button
+          type="button"
+          onClick={() => setOpen(!open())}
+          class="px-1.5 py-0.5 border border-border text-text-muted hover:text-text hover:border-text-faint transition-colors"
+        >
+          Merge…
+        </button>
+      </Show>
+
+      <Show when={error() && !open()}>
+        <span class="text-error">{error()}</span>
+      </Show>
+
+      <Show when={open()}>
+        {/* Backdrop */}
+        <div class="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+        {/* Popover */}
+        <div class="absolute top-full left-0 mt-1 z-50 w-90 border border-border bg-bg-surface shadow-lg shadow-black/50">
+          <div class="px-3 py-2 border-b border-border flex items-center justify-between">
+            <span class="text-sm text-text">Merge pull request</span>
+            <button
+              onClick={() => setOpen(false)}
+              class="text-text-faint hover:text-text text-base leading-none"
+            >
+              ×
+            </button>
+          </div>
+
+          <div class="p-3 space-y-3">
+            <Show when={blocked()}>
+              <ul class="space-y-1">
+                <For each={props.state.blockers}>
+                  {(blocker) => (
+                    <li
+                      classList={{
+                        "text-warning": WAITABLE_BLOCKERS.has(blocker.kind),
+                        "text-error": !WAITABLE_BLOCKERS.has(blocker.kind),
+                      }}
+                    >
+                      {blocker.message}
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </Show>
+
+            <div class="space-y-1">
+              <For each={props.state.methods}>
+                {(m) => (
+                  <label class="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      name="merge-method"
+                      value={m}
+                      checked={method() === m}
+                      onChange={() => setMethod(m)}
+                      class="accent-accent"
+                    />
+                    <span class="text-text">{METHOD_LABELS[m].label}</span>
+                  </label>
+                )}
+              </For>
+            </div>
+
+            <Show when={hasCommitMessage()}>
+              <div class="space-y-1.5">
+                <input
+                  type="text"
+                  value={title()}
+                  onInput={(e) => setTitle(e.currentTarget.value)}
+                  placeholder="Commit title"
+                  class="w-full px-2 py-1 bg-bg border border-border text-sm text-text placeholder:text-text-faint focus:border-accent focus:outline-none"
+                />
+                <textarea
+                  value={body()}
+                  onInput={(e) => setBody(e.currentTarget.value)}
+                  placeholder="Commit message"
+                  class="w-full px-2 py-1.5 bg-bg border border-border text-sm text-text placeholder:text-text-faint resize-y min-h-20 focus:border-accent focus:outline-none"
+                />
+              </div>
+            </Show>
+
+            <Show
+              when={!props.state.deleteBranchOnMerge}
+              fallback={
+                <div class="text-text-faint">The repository deletes head branches on merge</div>
+              }
+            >
+              <label class="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={deleteBranch()}
+                  onChange={(e) => setDeleteBranch(e.currentTarget.checked)}
+                  class="accent-accent"
+                  disabled={canAutoMerge()}
+                />
+                <span class="text-text" classList={{ "opacity-50": canAutoMerge() }}>
+                  Delete branch after merging
+                </span>
+              </label>
+            </Show>
+
+            <Show when={error()}>
+              <div class="px-2 py-1.5 border border-red-500/50 bg-red-500/10 text-red-400 text-base">
+                {error()}
+              </div>
+            </Show>
+
+            <div class="flex gap-2">
+              <Show
+                when={canAutoMerge()}
+                fallback={
+                  <button
+                    type="button"
+                    onClick={handleMerge}
+                    disabled={busy() || blocked()}
+                    class="flex-1 px-3 py-1.5 text-sm bg-green-600 text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5"
+                  >
+                    <Show when={busy()}>
+                      <SpinnerIcon size={12} class="animate-spin" />
+                    </Show>
+                    {busy() ? "Merging..." : METHOD_LABELS[method()].action}
+                  </button>
+                }
+              >
+                <button
+                  type="button"
+                  onClick={handleEnableAutoMerge}
+                  disabled={busy()}
+                  class="flex-1 px-3 py-1.5 text-sm bg-accent text-black hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5"
+                >
+                  <Show when={busy()}>
+                    <SpinnerIcon size={12} class="animate-spin" />
+                  </Show>
+                  {busy() ? "Enabling..." : "Enable auto-merge"}
+                </button>
+              </Show>
+              <button
+                type="button"
+                onClick={() => setOpen(false)}
+                class="px-3 py-1.5 text-text-faint text-sm hover:text-text transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+}
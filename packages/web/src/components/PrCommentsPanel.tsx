@@ -1,15 +1,27 @@
-import { type Component, For, Show, createSignal, createMemo } from "solid-js";
+import { type Component, For, Match, Show, Switch, createSignal, createMemo } from "solid-js";
+
+import type { PRComment, TimelineEvent } from "@better-review/shared";
 
 import { ChevronDownIcon } from "../icons/chevron-down-icon";
 import { CommentIcon } from "../icons/comment-icon";
+import { parseMarkdown } from "../lib/markdown";
 import type { IssueComment } from "../lib/query";
+import { type ReviewCommentThread, groupCommentsIntoThreads } from "../utils/threads";
 import { CommentView } from "./CommentView";
+import { TimelineCommits, TimelineEventRow, formatEventDate } from "./TimelineEventRow";
 
 interface PrCommentsPanelProps {
   comments: IssueComment[];
+  /** Inline review comments, listed as threads below the conversation */
+  reviewComments?: PRComment[];
+  /** Reviews, commits and other PR events, interleaved with the comments by time */
+  timeline?: TimelineEvent[];
+  onResolveThread?: (threadId: string, resolved: boolean) => Promise<void>;
+  onSelectReviewThread?: (filePath: string, line: number) => void;
   loading?: boolean;
   repoOwner?: string | null;
   repoName?: string | null;
+  repoHost?: string | null;
   onAddComment?: (body: string) => Promise<void>;
   onEditComment?: (commentId: number, body: string) => Promise<void>;
   onDeleteComment?: (commentId: number) => Promise<void>;
@@ -25,6 +37,80 @@ interface CommentThread {
   replies: DisplayComment[];
 }
 
+type ReviewTimelineEvent = Extract<TimelineEvent, { type: "review" }>;
+type CommitTimelineEvent = Extract<TimelineEvent, { type: "commit" }>;
+
+/** Entry in the conversation, in the order things happened */
+type ConversationItem =
+  | { kind: "comments"; time: string; thread: CommentThread }
+  | {
+      kind: "review";
+      time: string;
+      review: ReviewTimelineEvent;
+      /** Threads the review started */
+      threads: ReviewCommentThread[];
+      /** Replies the review added to threads started elsewhere */
+      replies: PRComment[];
+    }
+  | { kind: "commits"; time: string; commits: CommitTimelineEvent[] }
+  | { kind: "event"; time: string; event: Exclude<TimelineEvent, { type: "review" | "commit" }> };
+
+const reviewStateLabels: Record<ReviewTimelineEvent["state"], { text: string; class: string }> = {
+  APPROVED: { text: "approved these changes", class: "text-success" },
+  CHANGES_REQUESTED: { text: "requested changes", class: "text-error" },
+  COMMENTED: { text: "reviewed", class: "text-text-faint" },
+  DISMISSED: { text: "reviewed (dismissed)", class: "text-text-faint" },
+};
+
+/**
+ * Merge comment threads and timeline events into one chronological list. Consecutive
+ * commits are collapsed, and each review carries the inline comments submitted with it.
+ */
+function buildConversation(
+  threads: CommentThread[],
+  timeline: TimelineEvent[],
+  reviewComments: PRComment[],
+): ConversationItem[] {
+  const commentsById = new Map(reviewComments.map((c) => [c.id, c]));
+  const reviewThreads = groupCommentsIntoThreads(reviewComments);
+
+  const items: ConversationItem[] = threads.map((thread) => ({
+    kind: "comments",
+    time: thread.root.created_at,
+    thread,
+  }));
+  for (const event of timeline) {
+    if (event.type === "review") {
+      const ids = new Set(event.commentIds);
+      const comments = event.commentIds.flatMap((id) => commentsById.get(id) ?? []);
+      items.push({
+        kind: "review",
+        time: event.createdAt,
+        review: event,
+        threads: reviewThreads.filter((t) => ids.has(t.root.id)),
+        replies: comments.filter((c) => c.in_reply_to_id !== undefined),
+      });
+    } else if (event.type === "commit") {
+      items.push({ kind: "commits", time: event.createdAt, commits: [event] });
+    } else {
+      items.push({ kind: "event", time: event.createdAt, event });
+    }
+  }
+
+  // Stable sort keeps the timeline's own order for events at the same time
+  items.sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+
+  return items.reduce<ConversationItem[]>((merged, item) => {
+    const last = merged.at(-1);
+    if (item.kind === "commits" && last?.kind === "commits") {
+      last.commits.push(...item.commits);
+    } else {
+      merged.push(item);
+    }
+    return merged;
+  }, []);
+}
+
 /**
  * Extract quoted text from a comment body (lines starting with >)
  */
@@ -145,6 +231,65 @@ function groupIntoThreads(comments: IssueComment[]): CommentThread[] {
   return threads;
 }
 
+function ReviewThreadItem(props: {
+  thread: ReviewCommentThread;
+  onResolve?: (threadId: string, resolved: boolean) => Promise<void>;
+  onSelect?: (filePath: string, line: number) => void;
+  /** A reply shown on its own, in the review that added it */
+  isReply?: boolean;
+}) {
+  const [isResolving, setIsResolving] = createSignal(false);
+  const root = () => props.thread.root;
+  const line = () => root().line ?? root().original_line;
+
+  const toggleResolved = async () => {
+    const thread = root().thread;
+    if (!thread || !props.onResolve || isResolving()) return;
+    setIsResolving(true);
+    try {
+      await props.onResolve(thread.id, !thread.isResolved);
+    } catch (err) {
+      console.error("Failed to update thread:", err);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div class="flex items-center gap-2 text-xs py-1">
+      <button
+        type="button"
+        onClick={() => {
+          const l = line();
+          if (l !== null) props.onSelect?.(root().path, l);
+        }}
+        class="text-text-muted hover:text-accent transition-colors truncate"
+        title="Go to thread"
+      >
+        <Show when={props.isReply}>↳ </Show>
+        {root().path}
+        <Show when={line() !== null}>:{line()}</Show>
+      </button>
+      <span class="text-text-faint truncate flex-1 min-w-0">
+        {root().user.login}: {root().body.split("\n")[0]}
+      </span>
+      <Show when={props.thread.replies.length > 0}>
+        <span class="text-text-faint">+{props.thread.replies.length}</span>
+      </Show>
+      <Show when={root().thread && props.onResolve}>
+        <button
+          type="button"
+          onClick={toggleResolved}
+          disabled={isResolving()}
+          class="text-text-faint hover:text-accent transition-colors disabled:opacity-50"
+        >
+          {root().thread?.isResolved ? "Unresolve" : "Resolve"}
+        </button>
+      </Show>
+    </div>
+  );
+}
+
 export const PrCommentsPanel: Component<PrCommentsPanelProps> = (props) => {
   const [expanded, setExpanded] = createSignal(false);
   const [showNewCommentForm, setShowNewCommentForm] = createSignal(false);
@@ -160,6 +305,20 @@ export const PrCommentsPanel: Component<PrCommentsPanelProps> = (props) => {
   // Group comments into threads
   const threads = createMemo(() => groupIntoThreads(props.comments));
 
+  const conversation = createMemo(() =>
+    buildConversation(threads(), props.timeline ?? [], props.reviewComments ?? []),
+  );
+
+  // Review threads, with resolved ones collapsed by default
+  const [showResolved, setShowResolved] = createSignal(false);
+  const reviewThreads = createMemo(() => groupCommentsIntoThreads(props.reviewComments ?? []));
+  const openReviewThreads = createMemo(() =>
+    reviewThreads().filter((t) => !t.root.thread?.isResolved),
+  );
+  const resolvedReviewThreads = createMemo(() =>
+    reviewThreads().filter((t) => t.root.thread?.isResolved),
+  );
+
   const handleReply = (commentId: number, username: string, quotedBody: string) => {
     setReplyingToId(commentId);
     setReplyingToUsername(username);
@@ -204,7 +363,7 @@ export const PrCommentsPanel: Component<PrCommentsPanelProps> = (props) => {
 
   const githubContext = createMemo(() => {
     if (props.repoOwner && props.repoName) {
-      return { owner: props.repoOwner, repo: props.repoName };
+      return { host: props.repoHost ?? undefined, owner: props.repoOwner, repo: props.repoName };
     }
     return null;
   });
@@ -244,6 +403,42 @@ export const PrCommentsPanel: Component<PrCommentsPanelProps> = (props) => {
     </div>
   );
 
+  const renderCommentThread = (thread: CommentThread) => (
+    <div class="bg-bg-elevated border border-border p-3">
+      {/* Root comment */}
+      <CommentView
+        comment={thread.root}
+        githubContext={githubContext()}
+        showEdited
+        onEdit={props.onEditComment}
+        onDelete={props.onDeleteComment}
+        onReply={props.onAddComment ? handleReply : undefined}
+      />
+      {/* Reply form after root (if replying to root) */}
+      <Show when={replyingToId() === thread.root.id}>{renderReplyForm()}</Show>
+      {/* Replies */}
+      <For each={thread.replies}>
+        {(reply) => (
+          <>
+            <div class="mt-2">
+              <CommentView
+                comment={reply}
+                githubContext={githubContext()}
+                showEdited
+                isReply
+                onEdit={props.onEditComment}
+                onDelete={props.onDeleteComment}
+                onReply={props.onAddComment ? handleReply : undefined}
+              />
+            </div>
+            {/* Reply form after this reply (if replying to it) */}
+            <Show when={replyingToId() === reply.id}>{renderReplyForm()}</Show>
+          </>
+        )}
+      </For>
+    </div>
+  );
+
   return (
     <Show when={!props.loading}>
       <div class="border-t border-border">
@@ -261,7 +456,7 @@ export const PrCommentsPanel: Component<PrCommentsPanelProps> = (props) => {
           <span class="text-text-muted">
             <CommentIcon size={16} />
           </span>
-          <span class="text-sm text-text-muted">Comments</span>
+          <span class="text-sm text-text-muted">Conversation</span>
           <Show when={hasComments()}>
             <span class="px-1.5 py-0.5 text-xs bg-accent/20 text-accent rounded-full">
               {commentCount()}
@@ -273,50 +468,120 @@ export const PrCommentsPanel: Component<PrCommentsPanelProps> = (props) => {
         <Show when={expanded()}>
           <div class="px-4 pb-3 space-y-3 max-h-[400px] overflow-y-auto">
             <Show
-              when={hasComments()}
+              when={conversation().length > 0}
               fallback={
                 <div class="text-sm text-text-faint py-2">No conversation comments yet</div>
               }
             >
-              <For each={threads()}>
-                {(thread) => (
-                  <div class="bg-bg-elevated border border-border p-3">
-                    {/* Root comment */}
-                    <CommentView
-                      comment={thread.root}
-                      githubContext={githubContext()}
-                      showEdited
-                      onEdit={props.onEditComment}
-                      onDelete={props.onDeleteComment}
-                      onReply={props.onAddComment ? handleReply : undefined}
-                    />
-                    {/* Reply form after root (if replying to root) */}
-                    <Show when={replyingToId() === thread.root.id}>{renderReplyForm()}</Show>
-                    {/* Replies */}
-                    <For each={thread.replies}>
-                      {(reply) => (
-                        <>
-                          <div class="mt-2">
-                            <CommentView
-                              comment={reply}
-                              githubContext={githubContext()}
-                              showEdited
-                              isReply
-                              onEdit={props.onEditComment}
-                              onDelete={props.onDeleteComment}
-                              onReply={props.onAddComment ? handleReply : undefined}
-                            />
+              <For each={conversation()}>
+                {(item) => (
+                  <Switch>
+                    <Match when={item.kind === "comments" && item}>
+                      {(i) => renderCommentThread(i().thread)}
+                    </Match>
+                    <Match when={item.kind === "review" && item}>
+                      {(i) => (
+                        <div class="bg-bg-elevated border border-border p-3">
+                          <div class="flex items-baseline gap-1.5 text-xs">
+                            <span class="text-text-muted">{i().review.actor ?? "ghost"}</span>
+                            <span class={reviewStateLabels[i().review.state].class}>
+                              {reviewStateLabels[i().review.state].text}
+                            </span>
+                            <a
+                              href={i().review.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              class="ml-auto text-text-faint hover:text-text transition-colors"
+                              title="Open in GitHub"
+                            >
+                              {formatEventDate(i().review.createdAt)}
+                            </a>
                           </div>
-                          {/* Reply form after this reply (if replying to it) */}
-                          <Show when={replyingToId() === reply.id}>{renderReplyForm()}</Show>
-                        </>
+                          <Show when={i().review.body.trim()}>
+                            <div
+                              class="mt-2 text-sm text-text-muted leading-relaxed markdown-content"
+                              innerHTML={parseMarkdown(i().review.body, githubContext())}
+                            />
+                          </Show>
+                          <Show when={i().threads.length > 0 || i().replies.length > 0}>
+                            <div class="mt-2 pl-2 border-l border-border">
+                              <For each={i().threads}>
+                                {(thread) => (
+                                  <ReviewThreadItem
+                                    thread={thread}
+                                    onResolve={props.onResolveThread}
+                                    onSelect={props.onSelectReviewThread}
+                                  />
+                                )}
+                              </For>
+                              <For each={i().replies}>
+                                {(reply) => (
+                                  <ReviewThreadItem
+                                    thread={{ root: reply, replies: [] }}
+                                    onSelect={props.onSelectReviewThread}
+                                    isReply
+                                  />
+                                )}
+                              </For>
+                            </div>
+                          </Show>
+                        </div>
                       )}
-                    </For>
-                  </div>
+                    </Match>
+                    <Match when={item.kind === "commits" && item}>
+                      {(i) => <TimelineCommits commits={i().commits} />}
+                    </Match>
+                    <Match when={item.kind === "event" && item}>
+                      {(i) => <TimelineEventRow event={i().event} />}
+                    </Match>
+                  </Switch>
                 )}
               </For>
             </Show>
 
+            {/* Inline review threads */}
+            <Show when={reviewThreads().length > 0}>
+              <div class="border border-border px-3 py-2">
+                <div class="text-xs text-text-faint mb-1">
+                  Review threads ({openReviewThreads().length} open)
+                </div>
+                <For each={openReviewThreads()}>
+                  {(thread) => (
+                    <ReviewThreadItem
+                      thread={thread}
+                      onResolve={props.onResolveThread}
+                      onSelect={props.onSelectReviewThread}
+                    />
+                  )}
+                </For>
+                <Show when={resolvedReviewThreads().length > 0}>
+                  <button
+                    type="button"
+                    onClick={() => setShowResolved(!showResolved())}
+                    class="flex items-center gap-1 mt-1 text-xs text-text-faint hover:text-text transition-colors"
+                  >
+                    <span classList={{ "-rotate-90": !showResolved() }}>
+                      <ChevronDownIcon size={10} />
+                    </span>
+                    {resolvedReviewThreads().length} resolved
+                  </button>
+                  <Show when={showResolved()}>
+                    <div class="opacity-60">
+                      <For each={resolvedReviewThreads()}>
+                        {(thread) => (
+                          <ReviewThreadItem
+                            thread={thread}
+                            onResolve={props.onResolveThread}
+                            onSelect={props.onSelectReviewThread}
+                          />
+                        )}
+                      </For>
+                    </div>
+                  </Show>
+                </Show>
+              </div>
+            </Show>
+
             {/* New top-level comment form */}
             <Show when={props.onAddComment && !replyingToId()}>
               <Show
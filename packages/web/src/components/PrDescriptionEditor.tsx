@@ -0,0 +1,97 @@
+import { Show, createSignal } from "solid-js";
+
+import { SpinnerIcon } from "../icons/spinner-icon";
+import { type GitHubContext, parseMarkdown } from "../lib/markdown";
+
+interface PrDescriptionEditorProps {
+  initialValue: string;
+  githubContext?: GitHubContext | null;
+  onSave: (body: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Markdown editor for the PR description, with a live preview next to it
+ */
+export function PrDescriptionEditor(props: PrDescriptionEditorProps) {
+  const [value, setValue] = createSignal(props.initialValue);
+  const [saving, setSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const preview = () => parseMarkdown(value(), props.githubContext);
+  const changed = () => value() !== props.initialValue;
+
+  const handleSave = async () => {
+    if (saving()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await props.onSave(value());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save description");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div class="flex flex-col gap-2 p-3 min-h-0">
+      <div class="grid grid-cols-2 gap-3 min-h-0">
+        <textarea
+          ref={(el) => requestAnimationFrame(() => el.focus())}
+          value={value()}
+          onInput={(e) => setValue(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSave();
+            }
+          }}
+          placeholder="Describe this pull request (markdown)"
+          class="w-full h-72 px-2 py-1.5 bg-bg border border-border text-sm text-text font-mono placeholder:text-text-faint resize-none focus:border-accent focus:outline-none"
+        />
+        <Show
+          when={value().trim()}
+          fallback={
+            <div class="h-72 px-3 py-2 border border-border text-sm text-text-faint">
+              Nothing to preview
+            </div>
+          }
+        >
+          <div
+            class="h-72 px-3 py-2 border border-border text-sm text-text-muted leading-relaxed overflow-y-auto markdown-content"
+            innerHTML={preview()}
+          />
+        </Show>
+      </div>
+
+      <Show when={error()}>
+        <div class="px-2 py-1.5 border border-red-500/50 bg-red-500/10 text-red-400 text-sm">
+          {error()}
+        </div>
+      </Show>
+
+      <div class="flex items-center justify-end gap-2">
+        <span class="mr-auto text-xs text-text-faint">⌘/Ctrl+Enter to save</span>
+        <button
+          type="button"
+          onClick={() => props.onCancel()}
+          class="px-3 py-1 text-text-faint text-sm hover:text-text transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving() || !changed()}
+          class="px-3 py-1 text-sm bg-accent text-black hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+        >
+          <Show when={saving()}>
+            <SpinnerIcon size={12} class="animate-spin" />
+          </Show>
+          {saving() ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { For, Show, createResource, createSignal, type JSX } from "solid-js";
+
+import type {
+  PrLabel,
+  PrReviewer,
+  PrStatus,
+  ReviewCandidates,
+  ReviewState,
+} from "@better-review/shared";
+
+/**
+ * Loaders for autocomplete and mutations for the PR's reviewers, assignees and labels.
+ * Mutations reject with the error to show.
+ */
+export interface PrMetaActions {
+  loadCandidates: () => Promise<ReviewCandidates>;
+  loadLabels: () => Promise<PrLabel[]>;
+  onRequestReviewers: (users: string[], teams: string[]) => Promise<void>;
+  onRemoveReviewers: (users: string[], teams: string[]) => Promise<void>;
+  onSetAssignees: (assignees: string[]) => Promise<void>;
+  onSetLabels: (labels: string[]) => Promise<void>;
+}
+
+interface PrMetaBarProps {
+  status: PrStatus;
+  repoOwner?: string | null;
+  actions: PrMetaActions;
+}
+
+const reviewerStyles: Record<Exclude<ReviewState, null>, { icon: string; class: string }> = {
+  APPROVED: { icon: "✓", class: "text-success" },
+  CHANGES_REQUESTED: { icon: "±", class: "text-error" },
+  COMMENTED: { icon: "…", class: "text-text-muted" },
+  DISMISSED: { icon: "–", class: "text-text-faint" },
+  PENDING: { icon: "●", class: "text-accent" },
+};
+
+const reviewerTitle = (reviewer: PrReviewer) => {
+  const state = reviewer.state?.toLowerCase().replace("_", " ");
+  if (reviewer.requested) return state ? `${state}, review requested again` : "Awaiting review";
+  return state ?? "";
+};
+
+// Input that adds one value, with suggestions from a lazily loaded list
+function AddInput(props: {
+  label: string;
+  load: () => Promise<string[]>;
+  exclude: readonly string[];
+  onAdd: (value: string) => Promise<void>;
+}) {
+  const [open, setOpen] = createSignal(false);
+  const [value, setValue] = createSignal("");
+  const [options] = createResource(open, () => props.load());
+  const listId = `pr-meta-${props.label.toLowerCase()}-options`;
+
+  const submit = async () => {
+    const v = value().trim().replace(/^@/, "");
+    if (!v) return;
+    await props.onAdd(v);
+    setValue("");
+    setOpen(false);
+  };
+
+  return (
+    <Show
+      when={open()}
+      fallback={
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          class="px-1 text-text-faint hover:text-text transition-colors"
+          title={`Add ${props.label.toLowerCase()}`}
+        >
+          +
+        </button>
+      }
+    >
+      <input
+        ref={(el) => requestAnimationFrame(() => el.focus())}
+        type="text"
+        list={listId}
+        value={value()}
+        onInput={(e) => setValue(e.currentTarget.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+          if (e.key === "Escape") setOpen(false);
+        }}
+        onBlur={() => !value() && setOpen(false)}
+        placeholder={options.loading ? "Loading…" : props.label}
+        class="w-32 px-1.5 py-0.5 bg-bg border border-border text-xs text-text placeholder:text-text-faint focus:border-accent focus:outline-none"
+      />
+      <datalist id={listId}>
+        <For each={(options() ?? []).filter((o) => !props.exclude.includes(o))}>
+          {(option) => <option value={option} />}
+        </For>
+      </datalist>
+    </Show>
+  );
+}
+
+function Chip(props: {
+  title?: string;
+  style?: JSX.CSSProperties;
+  children: JSX.Element;
+  onRemove?: () => void;
+  removeTitle?: string;
+}) {
+  return (
+    <span
+      class="inline-flex items-center gap-1 px-1.5 py-0.5 border border-border"
+      style={props.style}
+      title={props.title}
+    >
+      {props.children}
+      <Show when={props.onRemove}>
+        <button
+          type="button"
+          onClick={() => props.onRemove?.()}
+          class="text-text-faint hover:text-red-400 transition-colors"
+          title={props.removeTitle ?? "Remove"}
+        >
+          ×
+        </button>
+      </Show>
+    </span>
+  );
+}
+
+/**
+ * Reviewers, assignees and labels of a PR, with controls to change them
+ */
+export function PrMetaBar(props: PrMetaBarProps) {
+  const [busy, setBusy] = createSignal(false);
+
+  const run = async (action: () => Promise<void>) => {
+    if (busy()) return;
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Failed to update PR:", err);
+      alert(err instanceof Error ? err.message : "Failed to update PR");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const teamName = (slug: string) => (props.repoOwner ? `${props.repoOwner}/${slug}` : slug);
+
+  // "org/team" (as suggested) names a team, anything else a user
+  const addReviewer = (value: string) =>
+    run(() => {
+      const slash = value.indexOf("/");
+      return slash === -1
+        ? props.actions.onRequestReviewers([value], [])
+        : props.actions.onRequestReviewers([], [value.slice(slash + 1)]);
+    });
+
+  const removeReviewer = (reviewer: PrReviewer) =>
+    run(() =>
+      reviewer.isTeam
+        ? props.actions.onRemoveReviewers([], [reviewer.name])
+        : props.actions.onRemoveReviewers([reviewer.name], []),
+    );
+
+  const reviewerOptions = async () => {
+    const { users, teams } = await props.actions.loadCandidates();
+    // The author can't review their own PR
+    return [...users.filter((u) => u !== props.status.author), ...teams.map(teamName)];
+  };
+
+  const labelNames = () => props.status.labels.map((l) => l.name);
+
+  return (
+    <div
+      class="flex items-center gap-x-4 gap-y-1 flex-wrap text-xs"
+      classList={{ "opacity-60": busy() }}
+    >
+      {/* Reviewers */}
+      <div class="flex items-center gap-1 flex-wrap">
+        <span class="text-text-faint">Reviewers</span>
+        <For each={props.status.reviewers}>
+          {(reviewer) => {
+            const style = () => (reviewer.state ? reviewerStyles[reviewer.state] : null);
+            return (
+              <Chip
+                title={reviewerTitle(reviewer)}
+                onRemove={reviewer.requested ? () => removeReviewer(reviewer) : undefined}
+                removeTitle="Remove review request"
+              >
+                <span class={style()?.class ?? "text-warning"}>{style()?.icon ?? "○"}</span>
+                <span class="text-text-muted">
+                  {reviewer.isTeam ? teamName(reviewer.name) : reviewer.name}
+                </span>
+                <Show when={!reviewer.requested && !reviewer.isTeam}>
+                  <button
+                    type="button"
+                    onClick={() => run(() => props.actions.onRequestReviewers([reviewer.name], []))}
+                    class="text-text-faint hover:text-accent transition-colors"
+                    title="Re-request review"
+                  >
+                    ↻
+                  </button>
+                </Show>
+              </Chip>
+            );
+          }}
+        </For>
+        <AddInput
+          label="Reviewer"
+          load={reviewerOptions}
+          exclude={props.status.reviewers
+            .filter((r) => r.requested)
+            .map((r) => (r.isTeam ? teamName(r.name) : r.name))}
+          onAdd={addReviewer}
+        />
+      </div>
+
+      {/* Assignees */}
+      <div class="flex items-center gap-1 flex-wrap">
+        <span class="text-text-faint">Assignees</span>
+        <For each={props.status.assignees}>
+          {(assignee) => (
+            <Chip
+              onRemove={() =>
+                run(() =>
+                  props.actions.onSetAssignees(
+                    props.status.assignees.filter((a) => a !== assignee),
+                  ),
+                )
+              }
+            >
+              <span class="text-text-muted">{assignee}</span>
+            </Chip>
+          )}
+        </For>
+        <AddInput
+          label="Assignee"
+          load={async () => (await props.actions.loadCandidates()).users}
+          exclude={props.status.assignees}
+          onAdd={(value) =>
+            run(() => props.actions.onSetAssignees([...props.status.assignees, value]))
+          }
+        />
+      </div>
+
+      {/* Labels */}
+      <div class="flex items-center gap-1 flex-wrap">
+        <span class="text-text-faint">Labels</span>
+        <For each={props.status.labels}>
+          {(label) => (
+            <Chip
+              style={{
+                "border-color": `#${label.color}`,
+                "background-color": `#${label.color}33`,
+              }}
+              onRemove={() =>
+                run(() =>
+                  props.actions.onSetLabels(labelNames().filter((name) => name !== label.name)),
+                )
+              }
+            >
+              <span class="text-text">{label.name}</span>
+            </Chip>
+          )}
+        </For>
+        <AddInput
+          label="Label"
+          load={async () => (await props.actions.loadLabels()).map((l) => l.name)}
+          exclude={labelNames()}
+          onAdd={(value) => run(() => props.actions.onSetLabels([...labelNames(), value]))}
+        />
+      </div>
+    </div>
+  );
+}
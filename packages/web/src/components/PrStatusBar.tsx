@@ -1,6 +1,15 @@
-import { type Component, Show, createMemo, createSignal, createEffect, onCleanup } from "solid-js";
+import {
+  type Component,
+  type ComponentProps,
+  Show,
+  createMemo,
+  createSignal,
+  createEffect,
+  on,
+  onCleanup,
+} from "solid-js";
 
-import type { PrState, PrStatus, CheckRun } from "@better-review/shared";
+import type { PrState, PrStatus, MergeState, MyReview, ReviewState } from "@better-review/shared";
 
 import { useCopyToClipboard } from "../hooks/useCopyToClipboard";
 import { CheckIcon } from "../icons/check-icon";
@@ -8,14 +17,26 @@ import { ChevronDownIcon } from "../icons/chevron-down-icon";
 import { CloseIcon } from "../icons/close-icon";
 import { CopyIcon } from "../icons/copy-icon";
 import { ExternalLinkIcon } from "../icons/external-link-icon";
-import { SpinnerIcon } from "../icons/spinner-icon";
 import { parseMarkdown } from "../lib/markdown";
+import { type CheckActions, ChecksIndicator } from "./ChecksIndicator";
+import { MergeButton } from "./MergeButton";
+import { PrDescriptionEditor } from "./PrDescriptionEditor";
+import { type PrMetaActions, PrMetaBar } from "./PrMetaBar";
 
 interface PrStatusBarProps {
   status: PrStatus | null;
   loading?: boolean;
   repoOwner?: string | null;
   repoName?: string | null;
+  repoHost?: string | null;
+  onDismissReview?: (reviewId: number, message: string) => Promise<void>;
+  mergeState?: MergeState | null;
+  onMerge?: ComponentProps<typeof MergeButton>["onMerge"];
+  onSetAutoMerge?: ComponentProps<typeof MergeButton>["onSetAutoMerge"];
+  metaActions?: PrMetaActions;
+  checkActions?: CheckActions;
+  onSetDraft?: (draft: boolean) => Promise<void>;
+  onUpdate?: (changes: { title?: string; body?: string }) => Promise<void>;
 }
 
 const stateStyles: Record<PrState, { bg: string; text: string; label: string }> = {
@@ -24,54 +45,57 @@ const stateStyles: Record<PrState, { bg: string; text: string; label: string }>
   merged: { bg: "bg-merged/20", text: "text-merged", label: "Merged" },
 };
 
-function ChecksIndicator(props: { checks: readonly CheckRun[] }) {
-  const summary = createMemo(() => {
-    const checks = props.checks;
-    if (checks.length === 0) return null;
-
-    const completed = checks.filter((c) => c.status === "completed");
-    const inProgress = checks.filter((c) => c.status === "in_progress" || c.status === "queued");
-    const failed = completed.filter(
-      (c) => c.conclusion === "failure" || c.conclusion === "timed_out",
-    );
-    const passed = completed.filter(
-      (c) => c.conclusion === "success" || c.conclusion === "skipped" || c.conclusion === "neutral",
-    );
-
-    return {
-      total: checks.length,
-      completed: completed.length,
-      inProgress: inProgress.length,
-      failed: failed.length,
-      passed: passed.length,
-    };
-  });
+const reviewStateStyles: Record<Exclude<ReviewState, null>, { class: string; label: string }> = {
+  APPROVED: { class: "border-success/50 text-success", label: "You approved" },
+  CHANGES_REQUESTED: { class: "border-error/50 text-error", label: "You requested changes" },
+  COMMENTED: { class: "border-border text-text-muted", label: "You commented" },
+  DISMISSED: { class: "border-border text-text-faint", label: "Your review was dismissed" },
+  PENDING: { class: "border-accent/50 text-accent", label: "Your review is pending" },
+};
 
-  const status = createMemo(() => {
-    const s = summary();
-    if (!s) return null;
-    if (s.failed > 0) return "failed";
-    if (s.inProgress > 0) return "pending";
-    if (s.passed === s.total) return "passed";
-    return "pending";
-  });
+// Only approvals and change requests block/unblock merging, so only those can be dismissed
+const DISMISSABLE_STATES = new Set<ReviewState>(["APPROVED", "CHANGES_REQUESTED"]);
+
+function MyReviewIndicator(props: {
+  review: MyReview;
+  onDismiss?: (reviewId: number, message: string) => Promise<void>;
+}) {
+  const [dismissing, setDismissing] = createSignal(false);
+  const style = () => (props.review.state ? reviewStateStyles[props.review.state] : null);
+  const canDismiss = () => !!props.onDismiss && DISMISSABLE_STATES.has(props.review.state);
+
+  const handleDismiss = async () => {
+    if (!props.onDismiss || dismissing()) return;
+    const message = prompt("Why are you dismissing your review?");
+    if (!message?.trim()) return;
+
+    setDismissing(true);
+    try {
+      await props.onDismiss(props.review.id, message.trim());
+    } catch (err) {
+      console.error("Failed to dismiss review:", err);
+      alert(err instanceof Error ? err.message : "Failed to dismiss review");
+    } finally {
+      setDismissing(false);
+    }
+  };
 
   return (
-    <Show when={summary()}>
+    <Show when={style()}>
       {(s) => (
         <div class="flex items-center gap-1.5">
-          <Show when={status() === "passed"}>
-            <CheckIcon size={12} class="text-success" />
+          <span class={`px-1.5 py-0.5 text-xs border ${s().class}`}>{s().label}</span>
+          <Show when={canDismiss()}>
+            <button
+              type="button"
+              onClick={handleDismiss}
+              disabled={dismissing()}
+              class="text-xs text-text-faint hover:text-red-400 transition-colors disabled:opacity-50"
+              title="Dismiss your review"
+            >
+              {dismissing() ? "Dismissing..." : "Dismiss"}
+            </button>
           </Show>
-          <Show when={status() === "failed"}>
-            <CloseIcon size={12} class="text-error" />
-          </Show>
-          <Show when={status() === "pending"}>
-            <SpinnerIcon size={12} class="text-yellow-500 animate-spin" />
-          </Show>
-          <span class="text-sm text-text-muted">
-            {s().passed}/{s().total} checks
-          </span>
         </div>
       )}
     </Show>
@@ -80,21 +104,73 @@ function ChecksIndicator(props: { checks: readonly CheckRun[] }) {
 
 export const PrStatusBar: Component<PrStatusBarProps> = (props) => {
   const [showDescription, setShowDescription] = createSignal(false);
+  const [editingDescription, setEditingDescription] = createSignal(false);
+  const [editingTitle, setEditingTitle] = createSignal(false);
+  const [titleDraft, setTitleDraft] = createSignal("");
+  const [updating, setUpdating] = createSignal(false);
   const { copied, copy } = useCopyToClipboard();
 
   const githubContext = createMemo(() => {
     if (props.repoOwner && props.repoName) {
-      return { owner: props.repoOwner, repo: props.repoName };
+      return { host: props.repoHost ?? undefined, owner: props.repoOwner, repo: props.repoName };
     }
     return null;
   });
 
-  // Close description panel on Escape key
+  const closeDescription = () => {
+    setShowDescription(false);
+    setEditingDescription(false);
+  };
+
+  // Title and draft changes report failures with an alert; the description editor shows its own
+  const runUpdate = async (action: () => Promise<void>) => {
+    if (updating()) return;
+    setUpdating(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Failed to update PR:", err);
+      alert(err instanceof Error ? err.message : "Failed to update PR");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const startEditingTitle = (title: string) => {
+    setTitleDraft(title);
+    setEditingTitle(true);
+  };
+
+  const saveTitle = (current: string) => {
+    const title = titleDraft().trim();
+    if (!title || title === current || !props.onUpdate) {
+      setEditingTitle(false);
+      return;
+    }
+    runUpdate(async () => {
+      await props.onUpdate!({ title });
+      setEditingTitle(false);
+    });
+  };
+
+  // Edits in progress belong to the PR they were started on
+  createEffect(
+    on(
+      () => props.status?.url,
+      () => {
+        setEditingTitle(false);
+        setEditingDescription(false);
+      },
+      { defer: true },
+    ),
+  );
+
+  // Close description panel on Escape key (unless there's an edit in progress)
   createEffect(() => {
-    if (showDescription()) {
+    if (showDescription() && !editingDescription()) {
       const handleKeyDown = (e: KeyboardEvent) => {
         if (e.key === "Escape") {
-          setShowDescription(false);
+          closeDescription();
         }
       };
       document.addEventListener("keydown", handleKeyDown);
@@ -129,18 +205,63 @@ export const PrStatusBar: Component<PrStatusBarProps> = (props) => {
               <Show when={prNumber()}>
                 <span class="text-text-faint text-sm font-mono flex-shrink-0">#{prNumber()}</span>
               </Show>
-              <a
-                href={status().url}
-                target="_blank"
-                rel="noopener noreferrer"
-                class="text-sm font-medium text-text hover:text-accent inline-flex items-baseline gap-1.5 group leading-snug"
-                title="Open in GitHub"
+              <Show
+                when={!editingTitle()}
+                fallback={
+                  <div class="flex-1 flex items-center gap-2">
+                    <input
+                      ref={(el) => requestAnimationFrame(() => el.focus())}
+                      type="text"
+                      value={titleDraft()}
+                      onInput={(e) => setTitleDraft(e.currentTarget.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") saveTitle(status().title);
+                        if (e.key === "Escape") setEditingTitle(false);
+                      }}
+                      disabled={updating()}
+                      class="flex-1 min-w-0 px-1.5 py-0.5 bg-bg border border-border text-sm text-text focus:border-accent focus:outline-none disabled:opacity-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => saveTitle(status().title)}
+                      disabled={updating() || !titleDraft().trim()}
+                      class="px-2 py-0.5 text-xs bg-accent text-black hover:opacity-90 disabled:opacity-50 transition-colors"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingTitle(false)}
+                      class="text-xs text-text-faint hover:text-text transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                }
               >
-                <span class="break-words">{status().title}</span>
-                <span class="opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
-                  <ExternalLinkIcon size={10} />
-                </span>
-              </a>
+                <a
+                  href={status().url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  class="text-sm font-medium text-text hover:text-accent inline-flex items-baseline gap-1.5 group leading-snug"
+                  title="Open in GitHub"
+                >
+                  <span class="break-words">{status().title}</span>
+                  <span class="opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                    <ExternalLinkIcon size={10} />
+                  </span>
+                </a>
+                <Show when={props.onUpdate}>
+                  <button
+                    type="button"
+                    onClick={() => startEditingTitle(status().title)}
+                    class="text-xs text-text-faint hover:text-text transition-colors flex-shrink-0"
+                    title="Edit title"
+                  >
+                    ✎
+                  </button>
+                </Show>
+              </Show>
             </div>
 
             {/* Line 2: State badge, author, branch, CI checks, mergeable, description toggle */}
@@ -152,6 +273,18 @@ export const PrStatusBar: Component<PrStatusBarProps> = (props) => {
                 </span>
               </div>
 
+              {/* Draft <-> ready for review */}
+              <Show when={status().state === "open" && props.onSetDraft}>
+                <button
+                  type="button"
+                  onClick={() => runUpdate(() => props.onSetDraft!(!status().draft))}
+                  disabled={updating()}
+                  class="text-xs px-1.5 py-0.5 border border-border text-text-muted hover:text-text hover:border-text-faint transition-colors disabled:opacity-50"
+                >
+                  {status().draft ? "Ready for review" : "Convert to draft"}
+                </button>
+              </Show>
+
               {/* Author */}
               <span class="text-xs text-text-faint">by {status().author}</span>
 
@@ -176,25 +309,54 @@ export const PrStatusBar: Component<PrStatusBarProps> = (props) => {
               </div>
 
               {/* CI Checks */}
-              <ChecksIndicator checks={status().checks} />
-
-              {/* Mergeable status */}
-              <Show when={status().state === "open" && status().mergeable !== null}>
-                <div class="flex items-center gap-1">
-                  <Show
-                    when={status().mergeable}
-                    fallback={<span class="text-xs text-error">Conflicts</span>}
-                  >
-                    <span class="text-xs text-success">Mergeable</span>
-                  </Show>
-                </div>
+              <ChecksIndicator
+                checks={status().checks}
+                rateLimited={status().checksRateLimited}
+                actions={props.checkActions}
+                githubContext={githubContext()}
+              />
+
+              {/* Current user's review */}
+              <Show when={status().myReview}>
+                {(review) => (
+                  <MyReviewIndicator review={review()} onDismiss={props.onDismissReview} />
+                )}
+              </Show>
+
+              {/* Merge controls, or the plain mergeable status until they load */}
+              <Show when={status().state === "open"}>
+                <Show
+                  when={props.mergeState && props.onMerge && props.onSetAutoMerge}
+                  fallback={
+                    <Show when={status().mergeable !== null}>
+                      <div class="flex items-center gap-1">
+                        <Show
+                          when={status().mergeable}
+                          fallback={<span class="text-xs text-error">Conflicts</span>}
+                        >
+                          <span class="text-xs text-success">Mergeable</span>
+                        </Show>
+                      </div>
+                    </Show>
+                  }
+                >
+                  <MergeButton
+                    state={props.mergeState!}
+                    onMerge={props.onMerge!}
+                    onSetAutoMerge={props.onSetAutoMerge!}
+                  />
+                </Show>
               </Show>
 
               {/* Description toggle */}
-              <Show when={hasDescription()}>
+              <Show when={hasDescription() || props.onUpdate}>
                 <button
                   type="button"
-                  onClick={() => setShowDescription(!showDescription())}
+                  onClick={() => {
+                    if (showDescription()) return closeDescription();
+                    setShowDescription(true);
+                    setEditingDescription(!hasDescription());
+                  }}
                   class={`flex items-center gap-1 text-xs px-1.5 py-0.5 rounded transition-colors ${
                     showDescription()
                       ? "text-text bg-bg-elevated"
@@ -207,21 +369,35 @@ export const PrStatusBar: Component<PrStatusBarProps> = (props) => {
                   >
                     <ChevronDownIcon size={12} />
                   </span>
-                  <span>Description</span>
+                  <span>{hasDescription() ? "Description" : "Add description"}</span>
                 </button>
               </Show>
             </div>
 
+            {/* Line 3: Reviewers, assignees and labels */}
+            <Show when={props.metaActions}>
+              {(actions) => (
+                <div class="mt-1">
+                  <PrMetaBar status={status()} repoOwner={props.repoOwner} actions={actions()} />
+                </div>
+              )}
+            </Show>
+
             {/* Description panel - positioned absolutely to overlay without pushing controls */}
-            <Show when={showDescription() && hasDescription()}>
-              {/* Backdrop for click-outside-to-close */}
-              <div class="fixed inset-0 z-40" onClick={() => setShowDescription(false)} />
+            <Show when={showDescription() && (hasDescription() || props.onUpdate)}>
+              {/* Backdrop for click-outside-to-close; an edit in progress stays open */}
+              <div
+                class="fixed inset-0 z-40"
+                onClick={() => !editingDescription() && closeDescription()}
+              />
               {/* Panel */}
               <div
                 class="absolute left-0 top-full mt-2 z-50 bg-bg-elevated border border-border shadow-xl rounded overflow-hidden"
                 style={{
-                  width: "min(600px, calc(100vw - 32px))",
-                  "max-height": "min(400px, 50vh)",
+                  width: editingDescription()
+                    ? "min(1000px, calc(100vw - 32px))"
+                    : "min(600px, calc(100vw - 32px))",
+                  "max-height": editingDescription() ? undefined : "min(400px, 50vh)",
                 }}
               >
                 <div class="flex items-center justify-between px-4 py-2 border-b border-border bg-bg sticky top-0">
@@ -233,21 +409,49 @@ export const PrStatusBar: Component<PrStatusBarProps> = (props) => {
                       <span class="text-xs text-text-faint/60">#{prNumber()}</span>
                     </Show>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => setShowDescription(false)}
-                    class="flex items-center gap-1.5 px-2 py-1 text-xs text-text-faint hover:text-text hover:bg-bg-elevated rounded transition-colors"
-                    title="Close (Esc)"
-                  >
-                    <span class="hidden sm:inline">Close</span>
-                    <CloseIcon size={14} />
-                  </button>
+                  <div class="flex items-center gap-1">
+                    <Show when={props.onUpdate && !editingDescription()}>
+                      <button
+                        type="button"
+                        onClick={() => setEditingDescription(true)}
+                        class="px-2 py-1 text-xs text-text-faint hover:text-text hover:bg-bg-elevated rounded transition-colors"
+                      >
+                        Edit
+                      </button>
+                    </Show>
+                    <button
+                      type="button"
+                      onClick={closeDescription}
+                      class="flex items-center gap-1.5 px-2 py-1 text-xs text-text-faint hover:text-text hover:bg-bg-elevated rounded transition-colors"
+                      title="Close (Esc)"
+                    >
+                      <span class="hidden sm:inline">Close</span>
+                      <CloseIcon size={14} />
+                    </button>
+                  </div>
                 </div>
-                <div
-                  class="text-sm text-text-muted p-4 leading-relaxed overflow-y-auto markdown-content"
-                  style={{ "max-height": "calc(min(400px, 50vh) - 48px)" }}
-                  innerHTML={parseMarkdown(status().body, githubContext())}
-                />
+                <Show
+                  when={editingDescription()}
+                  fallback={
+                    <div
+                      class="text-sm text-text-muted p-4 leading-relaxed overflow-y-auto markdown-content"
+                      style={{ "max-height": "calc(min(400px, 50vh) - 48px)" }}
+                      innerHTML={parseMarkdown(status().body, githubContext())}
+                    />
+                  }
+                >
+                  <PrDescriptionEditor
+                    initialValue={status().body}
+                    githubContext={githubContext()}
+                    onSave={async (body) => {
+                      await props.onUpdate!({ body });
+                      setEditingDescription(false);
+                    }}
+                    onCancel={() =>
+                      hasDescription() ? setEditingDescription(false) : closeDescription()
+                    }
+                  />
+                </Show>
               </div>
             </Show>
           </div>
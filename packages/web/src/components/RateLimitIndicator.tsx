@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/solid-query";
+import { Show, type Component } from "solid-js";
+
+import type { RateLimitResource } from "@better-review/shared";
+
+import { api, queryKeys } from "../lib/query";
+
+interface RateLimitIndicatorProps {
+  /** Host to show quota for (defaults to the server's default host) */
+  host?: string;
+}
+
+const formatReset = (epochSeconds: number) =>
+  new Date(epochSeconds * 1000).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export const RateLimitIndicator: Component<RateLimitIndicatorProps> = (props) => {
+  const query = useQuery(() => ({
+    queryKey: queryKeys.user.rateLimit(props.host),
+    queryFn: ({ signal }) => api.fetchRateLimit(props.host, signal),
+    staleTime: 0,
+    refetchInterval: 60 * 1000,
+    retry: false,
+  }));
+
+  // The resource closest to running out is the one worth showing
+  const tightest = () =>
+    query.data?.resources.reduce<RateLimitResource | null>(
+      (min, r) => (!min || r.remaining / r.limit < min.remaining / min.limit ? r : min),
+      null,
+    ) ?? null;
+
+  const color = () => {
+    const r = tightest();
+    if (query.data?.throttledUntil || (r && r.remaining === 0)) return "text-error";
+    if (r && r.remaining / r.limit < 0.1) return "text-yellow-500";
+    return "text-text-faint";
+  };
+
+  const title = () =>
+    (query.data?.resources ?? [])
+      .map((r) => `${r.resource}: ${r.remaining}/${r.limit}, resets ${formatReset(r.reset)}`)
+      .join("\n");
+
+  return (
+    <Show when={tightest()}>
+      {(r) => (
+        <span class={`text-sm font-mono ${color()}`} title={title()}>
+          <Show
+            when={query.data?.throttledUntil}
+            fallback={
+              <>
+                API {r().remaining}/{r().limit}
+              </>
+            }
+          >
+            {(until) => <>Rate limited until {formatReset(until())}</>}
+          </Show>
+        </span>
+      )}
+    </Show>
+  );
+};
@@ -0,0 +1,215 @@
+import { For, Show, createSignal } from "solid-js";
+
+import type { ReviewDraft } from "../diff/types";
+import { ChevronDownIcon } from "../icons/chevron-down-icon";
+import { CommentIcon } from "../icons/comment-icon";
+
+interface ReviewDraftsPanelProps {
+  drafts: ReviewDraft[];
+  onEdit: (draftId: string, body: string) => void;
+  onDiscard: (draftId: string) => void;
+  onMove: (draftId: string, offset: -1 | 1) => void;
+  onSelect: (draft: ReviewDraft) => void;
+}
+
+function DraftItem(props: {
+  draft: ReviewDraft;
+  isFirst: boolean;
+  isLast: boolean;
+  onEdit: (body: string) => void;
+  onDiscard: () => void;
+  onMove: (offset: -1 | 1) => void;
+  onSelect: () => void;
+}) {
+  const [isEditing, setIsEditing] = createSignal(false);
+  const [editBody, setEditBody] = createSignal("");
+
+  const startEditing = () => {
+    setEditBody(props.draft.body);
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    const text = editBody().trim();
+    if (!text) return;
+    props.onEdit(text);
+    setIsEditing(false);
+  };
+
+  return (
+    <div class="px-3 py-2 border-b border-border last:border-b-0">
+      <div class="flex items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={props.onSelect}
+          class="flex-1 min-w-0 truncate text-left text-text-muted hover:text-accent transition-colors"
+          title="Go to line"
+        >
+          {props.draft.filePath}:
+          {props.draft.startLine !== undefined
+            ? `${props.draft.startLine}-${props.draft.line}`
+            : props.draft.line}
+        </button>
+        <button
+          type="button"
+          onClick={() => props.onMove(-1)}
+          disabled={props.isFirst}
+          class="text-text-faint hover:text-text disabled:opacity-30 disabled:cursor-not-allowed rotate-180"
+          title="Move up"
+        >
+          <ChevronDownIcon size={12} />
+        </button>
+        <button
+          type="button"
+          onClick={() => props.onMove(1)}
+          disabled={props.isLast}
+          class="text-text-faint hover:text-text disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Move down"
+        >
+          <ChevronDownIcon size={12} />
+        </button>
+        <Show when={!isEditing()}>
+          <button
+            type="button"
+            onClick={startEditing}
+            class="text-text-faint hover:text-accent transition-colors"
+          >
+            Edit
+          </button>
+        </Show>
+        <button
+          type="button"
+          onClick={props.onDiscard}
+          class="text-text-faint hover:text-red-400 transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+      <Show
+        when={isEditing()}
+        fallback={
+          <div class="mt-1 text-sm text-text-muted whitespace-pre-wrap line-clamp-3">
+            {props.draft.body}
+          </div>
+        }
+      >
+        <textarea
+          value={editBody()}
+          onInput={(e) => setEditBody(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && e.metaKey) {
+              e.preventDefault();
+              save();
+            }
+            if (e.key === "Escape") {
+              setIsEditing(false);
+            }
+          }}
+          class="w-full mt-1 px-2 py-1.5 bg-bg border border-accent text-sm text-text resize-y min-h-[60px] focus:outline-none"
+          autofocus
+        />
+        <div class="flex gap-2 mt-1">
+          <button
+            type="button"
+            onClick={save}
+            disabled={!editBody().trim()}
+            class="px-2 py-0.5 bg-accent text-black text-xs hover:bg-accent-bright disabled:opacity-50 transition-colors"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            class="px-2 py-0.5 text-text-faint text-xs hover:text-text transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </Show>
+    </div>
+  );
+}
+
+/**
+ * Pending review: lists queued inline comments so they can be edited, reordered or discarded
+ * before being submitted together as a single GitHub review.
+ */
+export function ReviewDraftsPanel(props: ReviewDraftsPanelProps) {
+  const [open, setOpen] = createSignal(false);
+
+  return (
+    <div class="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open())}
+        class="flex items-center gap-1.5 px-2.5 py-1 text-sm border transition-colors"
+        classList={{
+          "border-accent/50 text-accent hover:bg-accent/10": props.drafts.length > 0,
+          "border-border text-text-muted hover:text-text": props.drafts.length === 0,
+        }}
+        title="Pending review"
+      >
+        <CommentIcon size={12} />
+        <span>Pending</span>
+        <Show when={props.drafts.length > 0}>
+          <span class="px-1.5 text-xs bg-accent/20 text-accent rounded-full">
+            {props.drafts.length}
+          </span>
+        </Show>
+      </button>
+
+      <Show when={open()}>
+        {/* Backdrop */}
+        <div class="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+        {/* Popover */}
+        <div class="absolute top-full right-0 mt-1 z-50 w-100 border border-border bg-bg-surface shadow-lg shadow-black/50">
+          {/* Header */}
+          <div class="px-3 py-2 border-b border-border flex items-center justify-between">
+            <span class="text-sm text-text">
+              Pending review
+              <span class="text-text-faint ml-1">
+                ({props.drafts.length} comment{props.drafts.length !== 1 ? "s" : ""})
+              </span>
+            </span>
+            <button
+              onClick={() => setOpen(false)}
+              class="text-text-faint hover:text-text text-base leading-none"
+            >
+              ×
+            </button>
+          </div>
+
+          {/* Drafts */}
+          <div class="max-h-64 overflow-y-auto">
+            <Show
+              when={props.drafts.length > 0}
+              fallback={
+                <div class="px-3 py-2 text-sm text-text-faint">
+                  Select lines in the diff and choose "Add to review" to queue comments.
+                </div>
+              }
+            >
+              <For each={props.drafts}>
+                {(draft, index) => (
+                  <DraftItem
+                    draft={draft}
+                    isFirst={index() === 0}
+                    isLast={index() === props.drafts.length - 1}
+                    onEdit={(text) => props.onEdit(draft.id, text)}
+                    onDiscard={() => props.onDiscard(draft.id)}
+                    onMove={(offset) => props.onMove(draft.id, offset)}
+                    onSelect={() => {
+                      setOpen(false);
+                      props.onSelect(draft);
+                    }}
+                  />
+                )}
+              </For>
+            </Show>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+}
@@ -36,6 +36,19 @@ export const ReviewModeToggle: Component<ReviewModeToggleProps> = (props) => {
       >
         By Commit ({props.commitCount})
       </button>
+      <button
+        type="button"
+        onClick={() => props.onModeChange("since-review")}
+        disabled={props.disabled}
+        class="px-2 py-1 transition-colors border border-border border-l-0 disabled:opacity-50"
+        classList={{
+          "bg-accent text-black border-accent": props.mode === "since-review",
+          "text-text-muted hover:text-text hover:bg-bg-surface": props.mode !== "since-review",
+        }}
+        title="Changes since your last review (or last chat session)"
+      >
+        Since Review
+      </button>
     </div>
   );
 };
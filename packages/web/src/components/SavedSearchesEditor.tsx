@@ -0,0 +1,116 @@
+import { For, Show, createSignal, type Component } from "solid-js";
+
+import { DEFAULT_SAVED_SEARCHES, type SavedSearch } from "@better-review/shared";
+
+interface SavedSearchesEditorProps {
+  searches: SavedSearch[];
+  onSave: (searches: SavedSearch[]) => Promise<void>;
+  onClose: () => void;
+}
+
+export const SavedSearchesEditor: Component<SavedSearchesEditorProps> = (props) => {
+  const [rows, setRows] = createSignal(props.searches.map((s) => ({ ...s })));
+  const [saving, setSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const update = (index: number, patch: Partial<SavedSearch>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const addRow = () =>
+    setRows((prev) => [...prev, { id: crypto.randomUUID(), name: "", query: "is:pr is:open " }]);
+
+  const removeRow = (index: number) => setRows((prev) => prev.filter((_, i) => i !== index));
+
+  const canSave = () =>
+    !saving() && rows().length > 0 && rows().every((r) => r.name.trim() && r.query.trim());
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await props.onSave(rows().map((r) => ({ ...r, name: r.name.trim(), query: r.query.trim() })));
+      props.onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save searches");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "px-2 py-1 bg-bg border border-border text-sm text-text placeholder:text-text-faint focus:border-accent";
+
+  return (
+    <div class="border border-border bg-bg-surface p-3 mb-6 text-sm">
+      <div class="flex items-center justify-between mb-3">
+        <span class="text-text">Saved searches</span>
+        <span class="text-text-faint">Any GitHub search qualifiers, e.g. mentions:@me</span>
+      </div>
+      <div class="space-y-2">
+        <For each={rows()}>
+          {(row, i) => (
+            <div class="flex items-center gap-2">
+              <input
+                type="text"
+                value={row.name}
+                onInput={(e) => update(i(), { name: e.currentTarget.value })}
+                placeholder="Name"
+                class={`${inputClass} w-36`}
+              />
+              <input
+                type="text"
+                value={row.query}
+                onInput={(e) => update(i(), { query: e.currentTarget.value })}
+                placeholder="is:pr is:open assignee:@me"
+                class={`${inputClass} flex-1 font-mono`}
+              />
+              <button
+                type="button"
+                onClick={() => removeRow(i())}
+                class="px-2 text-text-faint hover:text-error transition-colors"
+                title="Remove search"
+              >
+                ×
+              </button>
+            </div>
+          )}
+        </For>
+      </div>
+      <Show when={error()}>
+        <div class="mt-2 text-error">{error()}</div>
+      </Show>
+      <div class="flex items-center gap-2 mt-3">
+        <button
+          type="button"
+          onClick={addRow}
+          class="px-2 py-1 border border-border text-text-muted hover:text-text transition-colors"
+        >
+          Add search
+        </button>
+        <button
+          type="button"
+          onClick={() => setRows(DEFAULT_SAVED_SEARCHES.map((s) => ({ ...s })))}
+          class="px-2 py-1 text-text-faint hover:text-text transition-colors"
+        >
+          Reset to defaults
+        </button>
+        <div class="flex-1" />
+        <button
+          type="button"
+          onClick={() => props.onClose()}
+          class="px-2 py-1 text-text-faint hover:text-text transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={!canSave()}
+          class="px-3 py-1 bg-accent text-black hover:bg-accent-bright disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          {saving() ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { Show, type Component } from "solid-js";
+
+import type { SinceReviewDiff } from "@better-review/shared";
+
+interface SinceReviewBarProps {
+  data: SinceReviewDiff | null;
+  loading?: boolean;
+}
+
+export const SinceReviewBar: Component<SinceReviewBarProps> = (props) => {
+  const sourceLabel = () =>
+    props.data?.source === "session" ? "your last chat session" : "your last review";
+
+  return (
+    <div class="flex items-center gap-2 px-3 py-2 border-b border-border bg-bg-surface text-sm">
+      <Show
+        when={!props.loading}
+        fallback={<span class="text-text-faint">Loading changes since last review...</span>}
+      >
+        <Show
+          when={props.data?.baseSha}
+          fallback={
+            <span class="text-text-muted">
+              No previous review or session on this PR. Use Full PR to review everything.
+            </span>
+          }
+        >
+          {(baseSha) => (
+            <>
+              <span class="text-text-muted">Changes since {sourceLabel()}</span>
+              <span class="font-mono text-text-faint">
+                {baseSha().slice(0, 7)}..{props.data!.headSha.slice(0, 7)}
+              </span>
+              <Show when={props.data!.rebased}>
+                <span
+                  class="text-yellow-500"
+                  title="Only files whose changes differ from the reviewed version are shown. They can also include changes from the new base."
+                >
+                  Rebased since then
+                </span>
+              </Show>
+              <Show when={props.data!.diff === ""}>
+                <span class="text-success">Nothing new to review</span>
+              </Show>
+            </>
+          )}
+        </Show>
+      </Show>
+    </div>
+  );
+};
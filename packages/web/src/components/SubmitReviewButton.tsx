@@ -0,0 +1,169 @@
+import { For, Show, createSignal } from "solid-js";
+
+import type { ReviewEvent } from "../diff/types";
+import { CheckIcon } from "../icons/check-icon";
+import { SpinnerIcon } from "../icons/spinner-icon";
+
+interface SubmitReviewButtonProps {
+  /** Number of pending drafts that will be submitted with the review */
+  pendingCount: number;
+  disabled?: boolean;
+  onSubmit: (event: ReviewEvent, body: string) => Promise<void>;
+}
+
+const EVENT_OPTIONS: { value: ReviewEvent; label: string; description: string }[] = [
+  { value: "COMMENT", label: "Comment", description: "Submit general feedback" },
+  { value: "APPROVE", label: "Approve", description: "Approve merging these changes" },
+  {
+    value: "REQUEST_CHANGES",
+    label: "Request changes",
+    description: "Feedback that must be addressed before merging",
+  },
+];
+
+const SUBMIT_LABELS: Record<ReviewEvent, { idle: string; busy: string; class: string }> = {
+  COMMENT: { idle: "Comment", busy: "Submitting...", class: "bg-accent text-black" },
+  APPROVE: { idle: "Approve", busy: "Approving...", class: "bg-green-600 text-white" },
+  REQUEST_CHANGES: {
+    idle: "Request changes",
+    busy: "Requesting...",
+    class: "bg-red-600 text-white",
+  },
+};
+
+export function SubmitReviewButton(props: SubmitReviewButtonProps) {
+  const [open, setOpen] = createSignal(false);
+  const [comment, setComment] = createSignal("");
+  const [event, setEvent] = createSignal<ReviewEvent>("APPROVE");
+  const [submitting, setSubmitting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // GitHub rejects comment/request-changes reviews without any content
+  const canSubmit = () =>
+    !submitting() && (event() === "APPROVE" || props.pendingCount > 0 || !!comment().trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit()) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await props.onSubmit(event(), comment().trim());
+
+      setOpen(false);
+      setComment("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit review");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div class="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open())}
+        disabled={props.disabled}
+        class="flex items-center gap-1.5 px-2.5 py-1 text-sm bg-green-600 text-white hover:bg-green-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Submit a review"
+      >
+        <CheckIcon size={12} />
+        <span>Submit review</span>
+        <Show when={props.pendingCount > 0}>
+          <span class="px-1.5 text-xs bg-black/20 rounded-full">{props.pendingCount}</span>
+        </Show>
+      </button>
+
+      <Show when={open()}>
+        {/* Backdrop */}
+        <div class="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+
+        {/* Popover */}
+        <div class="absolute top-full right-0 mt-1 z-50 w-75 border border-border bg-bg-surface shadow-lg shadow-black/50">
+          {/* Header */}
+          <div class="px-3 py-2 border-b border-border flex items-center justify-between">
+            <span class="text-sm text-text">Submit review</span>
+            <button
+              onClick={() => setOpen(false)}
+              class="text-text-faint hover:text-text text-base leading-none"
+            >
+              ×
+            </button>
+          </div>
+
+          <div class="p-3">
+            <textarea
+              value={comment()}
+              onInput={(e) => setComment(e.currentTarget.value)}
+              onKeyDown={(e) => {
+                if ((e.metaKey || e.ctrlKey) && e.key === "Enter" && !submitting()) {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              placeholder="Leave a comment (optional)..."
+              class="w-full px-2 py-1.5 bg-bg border border-border text-sm text-text placeholder:text-text-faint resize-y min-h-20 focus:border-accent focus:outline-none"
+            />
+
+            <div class="mt-2 space-y-1">
+              <For each={EVENT_OPTIONS}>
+                {(option) => (
+                  <label class="flex items-start gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      name="review-event"
+                      value={option.value}
+                      checked={event() === option.value}
+                      onChange={() => setEvent(option.value)}
+                      class="mt-1 accent-accent"
+                    />
+                    <span>
+                      <span class="text-text">{option.label}</span>
+                      <span class="block text-xs text-text-faint">{option.description}</span>
+                    </span>
+                  </label>
+                )}
+              </For>
+            </div>
+
+            <Show when={props.pendingCount > 0}>
+              <div class="mt-2 text-xs text-accent">
+                {props.pendingCount} pending comment{props.pendingCount !== 1 ? "s" : ""} will be
+                included
+              </div>
+            </Show>
+
+            <Show when={error()}>
+              <div class="mt-2 px-2 py-1.5 border border-red-500/50 bg-red-500/10 text-red-400 text-base">
+                {error()}
+              </div>
+            </Show>
+
+            <div class="flex gap-2 mt-3">
+              <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={!canSubmit()}
+                class={`flex-1 px-3 py-1.5 text-sm hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5 ${SUBMIT_LABELS[event()].class}`}
+              >
+                <Show when={submitting()}>
+                  <SpinnerIcon size={12} class="animate-spin" />
+                </Show>
+                {submitting() ? SUBMIT_LABELS[event()].busy : SUBMIT_LABELS[event()].idle}
+              </button>
+              <button
+                type="button"
+                onClick={() => setOpen(false)}
+                class="px-3 py-1.5 text-text-faint text-sm hover:text-text transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+}
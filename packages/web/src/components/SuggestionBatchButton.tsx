@@ -0,0 +1,56 @@
+import { Show, createSignal } from "solid-js";
+
+import type { SuggestionEdit } from "../diff/types";
+
+interface SuggestionBatchButtonProps {
+  batch: SuggestionEdit[];
+  onCommit: (edits: SuggestionEdit[]) => Promise<void>;
+  onClear: () => void;
+}
+
+/**
+ * Commits all batched suggestions at once. Hidden while the batch is empty.
+ */
+export function SuggestionBatchButton(props: SuggestionBatchButtonProps) {
+  const [isCommitting, setIsCommitting] = createSignal(false);
+
+  const commit = async () => {
+    if (isCommitting()) return;
+    setIsCommitting(true);
+    try {
+      await props.onCommit(props.batch);
+    } catch (err) {
+      console.error("Failed to apply suggestions:", err);
+      alert(err instanceof Error ? err.message : "Failed to apply suggestions");
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <Show when={props.batch.length > 0}>
+      <div class="flex items-center border border-accent/50 text-sm">
+        <button
+          type="button"
+          onClick={commit}
+          disabled={isCommitting()}
+          class="px-2.5 py-1 text-accent hover:bg-accent/10 disabled:opacity-50 transition-colors"
+          title="Commit all batched suggestions to the PR branch"
+        >
+          {isCommitting()
+            ? "Committing..."
+            : `Commit ${props.batch.length} suggestion${props.batch.length !== 1 ? "s" : ""}`}
+        </button>
+        <button
+          type="button"
+          onClick={props.onClear}
+          disabled={isCommitting()}
+          class="px-1.5 py-1 text-text-faint hover:text-text border-l border-accent/50 transition-colors"
+          title="Clear batch"
+        >
+          ×
+        </button>
+      </div>
+    </Show>
+  );
+}
@@ -0,0 +1,88 @@
+import { type Component, For, Show, createSignal } from "solid-js";
+
+export interface SuggestionActions {
+  /** Current lines the suggestion would replace (omitted when they can't be resolved) */
+  baseLines?: string[];
+  onApply?: () => Promise<void>;
+  isBatched?: () => boolean;
+  onToggleBatch?: () => void;
+}
+
+interface SuggestionBlockProps extends SuggestionActions {
+  lines: string[];
+}
+
+/**
+ * A GitHub suggested change rendered as a mini diff against the current file.
+ */
+export const SuggestionBlock: Component<SuggestionBlockProps> = (props) => {
+  const [isApplying, setIsApplying] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const apply = async () => {
+    if (!props.onApply || isApplying()) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await props.onApply();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply suggestion");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div class="my-2 border border-border text-xs">
+      <div class="flex items-center gap-2 px-2 py-1 border-b border-border bg-bg-surface">
+        <span class="text-text-faint">Suggested change</span>
+        <Show when={props.onApply || props.onToggleBatch}>
+          <div class="flex items-center gap-2 ml-auto">
+            <Show when={props.onToggleBatch}>
+              <button
+                type="button"
+                onClick={() => props.onToggleBatch?.()}
+                class="text-text-faint hover:text-accent transition-colors"
+              >
+                {props.isBatched?.() ? "Remove from batch" : "Add to batch"}
+              </button>
+            </Show>
+            <Show when={props.onApply}>
+              <button
+                type="button"
+                onClick={apply}
+                disabled={isApplying()}
+                class="px-2 py-0.5 bg-accent text-black hover:bg-accent-bright disabled:opacity-50 transition-colors"
+              >
+                {isApplying() ? "Committing..." : "Commit suggestion"}
+              </button>
+            </Show>
+          </div>
+        </Show>
+      </div>
+      <pre class="font-mono leading-relaxed overflow-x-auto">
+        <For each={props.baseLines ?? []}>
+          {(line) => (
+            <div class="px-2 bg-diff-remove-bg text-diff-remove-text">
+              <span class="select-none opacity-60">- </span>
+              {line}
+            </div>
+          )}
+        </For>
+        <For each={props.lines}>
+          {(line) => (
+            <div class="px-2 bg-diff-add-bg text-diff-add-text">
+              <span class="select-none opacity-60">+ </span>
+              {line}
+            </div>
+          )}
+        </For>
+      </pre>
+      <Show when={error()}>
+        <div class="px-2 py-1.5 border-t border-red-500/50 bg-red-500/10 text-red-400">
+          {error()}
+        </div>
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { For, Match, Switch } from "solid-js";
+
+import type { TimelineEvent } from "@better-review/shared";
+
+type RowEvent = Exclude<TimelineEvent, { type: "review" } | { type: "commit" }>;
+type CommitEvent = Extract<TimelineEvent, { type: "commit" }>;
+
+const shortSha = (sha: string | null) => sha?.slice(0, 7) ?? "unknown";
+
+export const formatEventDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+function Actor(props: { login: string | null }) {
+  return <span class="text-text-muted">{props.login ?? "ghost"}</span>;
+}
+
+/**
+ * One-line timeline entry for anything that isn't a comment, review or commit
+ */
+export function TimelineEventRow(props: { event: RowEvent }) {
+  return (
+    <div class="flex items-baseline gap-1.5 px-1 text-xs text-text-faint">
+      <span class="flex-1 min-w-0">
+        <Actor login={props.event.actor} />{" "}
+        <Switch>
+          <Match when={props.event.type === "force-push" && props.event}>
+            {(e) => (
+              <>
+                force-pushed <code class="font-mono">{shortSha(e().beforeSha)}</code> →{" "}
+                <code class="font-mono">{shortSha(e().afterSha)}</code>
+              </>
+            )}
+          </Match>
+          <Match
+            when={
+              (props.event.type === "review-requested" ||
+                props.event.type === "review-request-removed") &&
+              props.event
+            }
+          >
+            {(e) => (
+              <>
+                {e().type === "review-requested"
+                  ? "requested a review from"
+                  : "removed the review request for"}{" "}
+                <span class="text-text-muted">
+                  {e().isTeam ? `team ${e().reviewer}` : e().reviewer}
+                </span>
+              </>
+            )}
+          </Match>
+          <Match
+            when={
+              (props.event.type === "labeled" || props.event.type === "unlabeled") && props.event
+            }
+          >
+            {(e) => (
+              <>
+                {e().type === "labeled" ? "added" : "removed"} the{" "}
+                <span
+                  class="px-1 border text-text"
+                  style={{
+                    "border-color": `#${e().label.color}`,
+                    "background-color": `#${e().label.color}33`,
+                  }}
+                >
+                  {e().label.name}
+                </span>{" "}
+                label
+              </>
+            )}
+          </Match>
+          <Match when={props.event.type === "merged" && props.event}>
+            {(e) => (
+              <span class="text-merged">
+                merged commit <code class="font-mono">{shortSha(e().sha)}</code> into{" "}
+                <code class="font-mono">{e().baseRef}</code>
+              </span>
+            )}
+          </Match>
+          <Match when={props.event.type === "closed"}>
+            <span class="text-error">closed this</span>
+          </Match>
+          <Match when={props.event.type === "reopened"}>
+            <span class="text-success">reopened this</span>
+          </Match>
+          <Match when={props.event.type === "ready-for-review"}>
+            marked this as ready for review
+          </Match>
+          <Match when={props.event.type === "converted-to-draft"}>converted this to a draft</Match>
+        </Switch>
+      </span>
+      <span class="flex-shrink-0">{formatEventDate(props.event.createdAt)}</span>
+    </div>
+  );
+}
+
+/**
+ * Consecutive commits, collapsed into one entry like GitHub's "added N commits"
+ */
+export function TimelineCommits(props: { commits: CommitEvent[] }) {
+  const authors = () => [...new Set(props.commits.map((c) => c.actor ?? "ghost"))];
+
+  return (
+    <div class="px-1 text-xs text-text-faint">
+      <div class="flex items-baseline gap-1.5">
+        <span class="flex-1 min-w-0">
+          <span class="text-text-muted">{authors().join(", ")}</span> added{" "}
+          {props.commits.length === 1 ? "a commit" : `${props.commits.length} commits`}
+        </span>
+        <span class="flex-shrink-0">{formatEventDate(props.commits[0].createdAt)}</span>
+      </div>
+      <ul class="mt-0.5 pl-3 border-l border-border">
+        <For each={props.commits}>
+          {(commit) => (
+            <li class="flex items-baseline gap-2">
+              <code class="font-mono flex-shrink-0">{shortSha(commit.sha)}</code>
+              <span class="text-text-muted truncate">{commit.message}</span>
+            </li>
+          )}
+        </For>
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { createResource, createSignal, For, Match, Show, Switch, type JSX } from "solid-js";
+
+import { type BinaryBlob, type BinaryVersions, getImageMimeType } from "@better-review/shared";
+
+type ImageMode = "2-up" | "swipe" | "onion";
+
+const IMAGE_MODES: { mode: ImageMode; label: string }[] = [
+  { mode: "2-up", label: "2-up" },
+  { mode: "swipe", label: "Swipe" },
+  { mode: "onion", label: "Onion skin" },
+];
+
+// Checkerboard behind images so transparent areas are visible
+const CHECKERBOARD: JSX.CSSProperties = {
+  "background-image": "repeating-conic-gradient(#80808033 0% 25%, transparent 0% 50%)",
+  "background-size": "16px 16px",
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+interface BinaryFileViewProps {
+  path: string;
+  load: (content: boolean) => Promise<BinaryVersions>;
+}
+
+/**
+ * Compares the two revisions of a binary file: images side by side, swiped or
+ * overlaid, and other files by size and blob hash
+ */
+export function BinaryFileView(props: BinaryFileViewProps) {
+  const mimeType = () => getImageMimeType(props.path);
+  const [versions] = createResource(() => props.load(mimeType() !== null));
+  const [mode, setMode] = createSignal<ImageMode>("2-up");
+  const [position, setPosition] = createSignal(50);
+
+  const dataUrl = (blob: BinaryBlob | null) =>
+    blob?.content ? `data:${mimeType()};base64,${blob.content}` : null;
+
+  const images = () => {
+    const v = versions();
+    if (!v || !mimeType()) return null;
+    const before = dataUrl(v.old);
+    const after = dataUrl(v.new);
+    // Previews need the bytes of every side that exists (large blobs come without them)
+    if ((v.old && !before) || (v.new && !after)) return null;
+    return { before, after };
+  };
+
+  const bothImages = () => {
+    const i = images();
+    return i?.before && i.after ? { before: i.before, after: i.after } : null;
+  };
+
+  return (
+    <div class="p-3 text-sm">
+      <Show when={!versions.loading} fallback={<div class="text-text-faint">Loading…</div>}>
+        <Show when={!versions.error} fallback={<div class="text-error">Failed to load file</div>}>
+          <Show when={images()}>
+            {(i) => (
+              <div class="flex flex-col gap-3">
+                <Show when={bothImages()}>
+                  <div class="flex items-center">
+                    <For each={IMAGE_MODES}>
+                      {(m, index) => (
+                        <button
+                          type="button"
+                          onClick={() => setMode(m.mode)}
+                          class="px-2 py-0.5 transition-colors border border-border"
+                          classList={{
+                            "border-l-0": index() > 0,
+                            "bg-accent text-black border-accent": mode() === m.mode,
+                            "text-text-muted hover:text-text hover:bg-bg-surface":
+                              mode() !== m.mode,
+                          }}
+                        >
+                          {m.label}
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                </Show>
+
+                <Switch>
+                  <Match when={mode() === "swipe" && bothImages()}>
+                    {(both) => (
+                      <div class="flex flex-col gap-2 items-start">
+                        <div class="relative inline-block" style={CHECKERBOARD}>
+                          <img src={both().after} alt="After" class="block max-w-full" />
+                          <img
+                            src={both().before}
+                            alt="Before"
+                            class="absolute inset-0 max-w-full"
+                            style={{ "clip-path": `inset(0 ${100 - position()}% 0 0)` }}
+                          />
+                          <div
+                            class="absolute top-0 bottom-0 w-px bg-accent"
+                            style={{ left: `${position()}%` }}
+                          />
+                        </div>
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={position()}
+                          onInput={(e) => setPosition(Number(e.currentTarget.value))}
+                          class="w-64"
+                        />
+                      </div>
+                    )}
+                  </Match>
+                  <Match when={mode() === "onion" && bothImages()}>
+                    {(both) => (
+                      <div class="flex flex-col gap-2 items-start">
+                        <div class="relative inline-block" style={CHECKERBOARD}>
+                          <img src={both().before} alt="Before" class="block max-w-full" />
+                          <img
+                            src={both().after}
+                            alt="After"
+                            class="absolute inset-0 max-w-full"
+                            style={{ opacity: position() / 100 }}
+                          />
+                        </div>
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={position()}
+                          onInput={(e) => setPosition(Number(e.currentTarget.value))}
+                          class="w-64"
+                        />
+                      </div>
+                    )}
+                  </Match>
+                  <Match when={true}>
+                    <div class="flex gap-4 flex-wrap">
+                      <ImagePanel label="Before" src={i().before} blob={versions()!.old} />
+                      <ImagePanel label="After" src={i().after} blob={versions()!.new} />
+                    </div>
+                  </Match>
+                </Switch>
+              </div>
+            )}
+          </Show>
+
+          <Show when={!images() && versions()}>
+            {(v) => (
+              <table class="text-text-muted">
+                <tbody>
+                  <BlobRow label="Before" blob={v().old} />
+                  <BlobRow label="After" blob={v().new} />
+                </tbody>
+              </table>
+            )}
+          </Show>
+        </Show>
+      </Show>
+    </div>
+  );
+}
+
+// One side of a 2-up comparison, with its pixel dimensions once the image loads
+function ImagePanel(props: { label: string; src: string | null; blob: BinaryBlob | null }) {
+  const [size, setSize] = createSignal<string | null>(null);
+
+  return (
+    <Show when={props.src && props.blob}>
+      <div class="flex flex-col gap-1 min-w-0">
+        <span class="text-text-faint">
+          {props.label} · {formatBytes(props.blob!.size)}
+          {size() && ` · ${size()}`}
+        </span>
+        <div class="border border-border inline-block" style={CHECKERBOARD}>
+          <img
+            src={props.src!}
+            alt={props.label}
+            class="block max-w-full"
+            onLoad={(e) =>
+              setSize(`${e.currentTarget.naturalWidth}×${e.currentTarget.naturalHeight}`)
+            }
+          />
+        </div>
+      </div>
+    </Show>
+  );
+}
+
+function BlobRow(props: { label: string; blob: BinaryBlob | null }) {
+  return (
+    <tr>
+      <td class="pr-4 text-text-faint">{props.label}</td>
+      <Show when={props.blob} fallback={<td class="text-text-faint">(none)</td>}>
+        {(blob) => (
+          <>
+            <td class="pr-4">{formatBytes(blob().size)}</td>
+            <td class="font-mono" title={blob().oid}>
+              {blob().oid.slice(0, 7)}
+            </td>
+          </>
+        )}
+      </Show>
+    </tr>
+  );
+}
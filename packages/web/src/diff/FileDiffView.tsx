@@ -6,16 +6,34 @@ import {
 } from "@pierre/diffs";
 import { createSignal, Show, createEffect, on, onCleanup, createMemo } from "solid-js";
 
+import {
+  type BinaryVersions,
+  type CheckAnnotation,
+  type FileVersions,
+  getImageMimeType,
+} from "@better-review/shared";
+
 import { renderAiAnnotation } from "../components/AiAnnotationInline";
-import { renderCommentThread, renderPendingCommentForm } from "../components/CommentView";
+import { renderCheckAnnotation } from "../components/CheckAnnotationInline";
+import {
+  renderCommentThread,
+  renderDraftComment,
+  renderPendingCommentForm,
+} from "../components/CommentView";
 import { CheckIcon } from "../icons/check-icon";
 import { ChevronDownIcon } from "../icons/chevron-down-icon";
 import { CircleIcon } from "../icons/circle-icon";
 import type { Annotation } from "../utils/parseReviewTokens";
+import { getNewFileLines, getSuggestion } from "../utils/suggestions";
+import { groupCommentsIntoThreads } from "../utils/threads";
+import { BinaryFileView } from "./BinaryFileView";
 import {
   type DiffSettings,
   type PRComment,
   type AnnotationMetadata,
+  type CommentLineRange,
+  type ReviewDraft,
+  type SuggestionEdit,
   FONT_FAMILY_MAP,
   THEME_SELECTION_COLORS,
 } from "./types";
@@ -39,48 +57,77 @@ interface FileDiffViewProps {
   file: FileDiffMetadata;
   comments: PRComment[];
   aiAnnotations?: Annotation[];
-  onAddComment: (line: number, side: "LEFT" | "RIGHT", body: string) => Promise<unknown>;
+  checkAnnotations?: CheckAnnotation[];
+  onAddComment: (range: CommentLineRange, body: string) => Promise<unknown>;
   onReplyToComment: (commentId: number, body: string) => Promise<unknown>;
   onEditComment: (commentId: number, body: string) => Promise<unknown>;
   onDeleteComment: (commentId: number) => Promise<unknown>;
+  onResolveThread?: (threadId: string, resolved: boolean) => Promise<unknown>;
   onDismissAiAnnotation?: (annotationId: string) => void;
+  drafts?: ReviewDraft[];
+  onAddDraft?: (range: CommentLineRange, body: string) => void;
+  onEditDraft?: (draftId: string, body: string) => void;
+  onDiscardDraft?: (draftId: string) => void;
+  suggestionBatch?: SuggestionEdit[];
+  onApplySuggestions?: (edits: SuggestionEdit[]) => Promise<unknown>;
+  onToggleSuggestionBatch?: (edit: SuggestionEdit) => void;
+  /** Disallow comments on deleted lines */
+  newSideOnly?: boolean;
   settings: DiffSettings;
   highlightedLine?: number;
   repoOwner?: string | null;
   repoName?: string | null;
+  repoHost?: string | null;
   isRead?: boolean;
+  /** Viewed on GitHub, but changed by a later push */
+  isDismissed?: boolean;
   onToggleRead?: () => void;
+  /** Load both sides of the file, for expanding context and full file mode */
+  loadFileVersions?: () => Promise<FileVersions>;
+  /** Binary files have no hunks; they're compared by their blobs instead */
+  binary?: boolean;
+  loadBinaryVersions?: (content: boolean) => Promise<BinaryVersions>;
 }
 
-// Group comments into threads by their root comment
-function groupCommentsIntoThreads(comments: PRComment[]) {
-  const threads = new Map<number, { root: PRComment; replies: PRComment[] }>();
-
-  // First pass: identify root comments (no in_reply_to_id)
-  for (const comment of comments) {
-    if (!comment.in_reply_to_id) {
-      threads.set(comment.id, { root: comment, replies: [] });
-    }
-  }
-
-  // Second pass: group replies under their root
-  for (const comment of comments) {
-    if (comment.in_reply_to_id) {
-      const thread = threads.get(comment.in_reply_to_id);
-      if (thread) {
-        thread.replies.push(comment);
-      }
-    }
+// Same split the diff library uses: every line keeps its trailing newline
+const SPLIT_LINES = /(?<=\n)/;
+
+// Whether full file contents line up with a diff's hunks. The unchanged stretches around
+// the hunks must be the same length on both sides, or the renderer can't fill them in.
+function contentsFitDiff(file: FileDiffMetadata, oldLines: string[], newLines: string[]) {
+  let oldEnd = 0;
+  let newEnd = 0;
+  for (const hunk of file.hunks) {
+    // An empty side's start is the line before the hunk (`@@ -5,0 +6,2 @@`)
+    const oldStart = hunk.deletionCount === 0 ? hunk.deletionStart + 1 : hunk.deletionStart;
+    const newStart = hunk.additionCount === 0 ? hunk.additionStart + 1 : hunk.additionStart;
+    if (oldStart - 1 - oldEnd !== newStart - 1 - newEnd) return false;
+    oldEnd = oldStart + hunk.deletionCount - 1;
+    newEnd = newStart + hunk.additionCount - 1;
   }
+  return (
+    oldEnd <= oldLines.length &&
+    newEnd <= newLines.length &&
+    oldLines.length - oldEnd === newLines.length - newEnd
+  );
+}
 
-  // Sort replies by created_at
-  Array.from(threads.values()).forEach((thread) => {
-    thread.replies.sort(
-      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
-    );
+// GitHub only accepts comments on lines inside the diff's hunks, not on expanded context
+function isInHunks(file: FileDiffMetadata, side: "LEFT" | "RIGHT", start: number, end: number) {
+  return file.hunks.some((hunk) => {
+    const first = side === "LEFT" ? hunk.deletionStart : hunk.additionStart;
+    const count = side === "LEFT" ? hunk.deletionCount : hunk.additionCount;
+    return start >= first && end < first + count;
   });
+}
 
-  return threads;
+// Line range covered by a thread, or null for single-line comments. Outdated comments
+// only carry the original_* positions.
+function threadLineRange(root: PRComment) {
+  const endLine = root.line ?? root.original_line;
+  const startLine = (root.line !== null ? root.start_line : root.original_start_line) ?? null;
+  if (endLine === null || startLine === null || startLine >= endLine) return null;
+  return { startLine, endLine, startSide: root.start_side ?? root.side, side: root.side };
 }
 
 export function FileDiffView(props: FileDiffViewProps) {
@@ -103,16 +150,80 @@ export function FileDiffView(props: FileDiffViewProps) {
   const shouldAutoCollapse = createMemo(() => isLargeFile() || isGeneratedFile());
 
   const [collapsed, setCollapsed] = createSignal(shouldAutoCollapse());
-  const [pendingComment, setPendingComment] = createSignal<{
-    startLine: number;
-    endLine: number;
-    side: "LEFT" | "RIGHT";
+  const [pendingComment, setPendingComment] = createSignal<CommentLineRange | null>(null);
+
+  // Full file contents, once loaded. Attaching them to the diff makes the collapsed
+  // regions between hunks expandable, and "full file" expands all of them.
+  const [fileLines, setFileLines] = createSignal<{
+    oldLines: string[];
+    newLines: string[];
   } | null>(null);
+  const [fullFile, setFullFile] = createSignal(false);
+  const [loadingContext, setLoadingContext] = createSignal(false);
+  const [contextError, setContextError] = createSignal<string | null>(null);
+
+  // Binary files always show the blob comparison. Text images (SVG) can switch to it.
+  const isImage = () => getImageMimeType(props.file.name) !== null;
+  const [imageView, setImageView] = createSignal(false);
+  const showBlobs = () => !!props.loadBinaryVersions && (!!props.binary || imageView());
+
+  const handleToggleImageView = (e: MouseEvent) => {
+    e.stopPropagation();
+    setImageView(!imageView());
+  };
+
+  // Added and deleted files already show every line, and pure renames have no hunks
+  const canExpand = () =>
+    !!props.loadFileVersions &&
+    !showBlobs() &&
+    (props.file.type === "change" || props.file.type === "rename-changed");
+
+  const fileDiff = createMemo(() => {
+    const lines = fileLines();
+    return lines ? { ...props.file, ...lines } : props.file;
+  });
+
+  const loadContext = async () => {
+    if (fileLines() || loadingContext() || !props.loadFileVersions) return !!fileLines();
+    setLoadingContext(true);
+    setContextError(null);
+    try {
+      const { oldContents, newContents } = await props.loadFileVersions();
+      const oldLines = oldContents?.split(SPLIT_LINES) ?? [];
+      const newLines = newContents?.split(SPLIT_LINES) ?? [];
+      if (!contentsFitDiff(props.file, oldLines, newLines)) {
+        setContextError("File contents don't match this diff");
+        return false;
+      }
+      setFileLines({ oldLines, newLines });
+      return true;
+    } catch (err) {
+      console.error("Failed to load file contents:", err);
+      setContextError(err instanceof Error ? err.message : "Failed to load file contents");
+      return false;
+    } finally {
+      setLoadingContext(false);
+    }
+  };
+
+  const handleExpandContext = (e: MouseEvent) => {
+    e.stopPropagation();
+    loadContext();
+  };
+
+  const handleToggleFullFile = async (e: MouseEvent) => {
+    e.stopPropagation();
+    if (fullFile()) {
+      setFullFile(false);
+    } else if (await loadContext()) {
+      setFullFile(true);
+    }
+  };
 
   // GitHub context for markdown link resolution
   const githubContext = () => {
     if (props.repoOwner && props.repoName) {
-      return { owner: props.repoOwner, repo: props.repoName };
+      return { host: props.repoHost ?? undefined, owner: props.repoOwner, repo: props.repoName };
     }
     return null;
   };
@@ -128,6 +239,25 @@ export function FileDiffView(props: FileDiffViewProps) {
     `;
   };
 
+  // A root comment's suggestion as an edit against the current head, if it still applies.
+  // Outdated comments, suggestions on removed lines and lines outside the diff can't be committed.
+  const suggestionEdit = (root: PRComment): SuggestionEdit | null => {
+    if (root.line === null || root.side !== "RIGHT") return null;
+    const lines = getSuggestion(root.body);
+    if (!lines) return null;
+    const startLine = root.start_line ?? root.line;
+    const baseLines = getNewFileLines(props.file, startLine, root.line);
+    if (!baseLines) return null;
+    return {
+      commentId: root.id,
+      filePath: props.file.name,
+      startLine,
+      endLine: root.line,
+      baseLines,
+      replacement: lines.join("\n"),
+    };
+  };
+
   const annotations = () => {
     const result: {
       side: AnnotationSide;
@@ -137,7 +267,7 @@ export function FileDiffView(props: FileDiffViewProps) {
     const threads = groupCommentsIntoThreads(props.comments);
 
     // Add threads as annotations
-    Array.from(threads.values()).forEach(({ root, replies }) => {
+    threads.forEach(({ root, replies }) => {
       // Use line if available, otherwise fall back to original_line for outdated comments
       const lineNumber = root.line ?? root.original_line;
       // Skip comments without any line information
@@ -162,6 +292,28 @@ export function FileDiffView(props: FileDiffViewProps) {
       }
     }
 
+    // Add CI check annotations, which point at lines of the head commit
+    if (props.checkAnnotations) {
+      for (const annotation of props.checkAnnotations) {
+        result.push({
+          side: "additions" as AnnotationSide,
+          lineNumber: annotation.endLine,
+          metadata: { type: "check-annotation", annotation },
+        });
+      }
+    }
+
+    // Add pending review drafts
+    if (props.drafts) {
+      for (const draft of props.drafts) {
+        result.push({
+          side: (draft.side === "LEFT" ? "deletions" : "additions") as AnnotationSide,
+          lineNumber: draft.line,
+          metadata: { type: "draft", draft },
+        });
+      }
+    }
+
     // Add pending new comment form
     const pending = pendingComment();
     if (pending) {
@@ -183,7 +335,7 @@ export function FileDiffView(props: FileDiffViewProps) {
   const rerender = () => {
     if (instance && _containerRef) {
       instance.render({
-        fileDiff: props.file,
+        fileDiff: fileDiff(),
         lineAnnotations: annotations(),
         forceRender: true,
       });
@@ -193,7 +345,7 @@ export function FileDiffView(props: FileDiffViewProps) {
   // Re-render when comments change (length or content)
   createEffect(
     on(
-      () => props.comments.map((c) => `${c.id}:${c.body}`).join("|"),
+      () => props.comments.map((c) => `${c.id}:${c.body}:${c.thread?.isResolved}`).join("|"),
       () => {
         setTimeout(rerender, 0);
       },
@@ -212,6 +364,43 @@ export function FileDiffView(props: FileDiffViewProps) {
     ),
   );
 
+  // Re-render when check annotations change
+  createEffect(
+    on(
+      () =>
+        props.checkAnnotations?.map((a) => `${a.checkName}:${a.endLine}:${a.message}`).join("|") ??
+        "",
+      () => {
+        setTimeout(rerender, 0);
+      },
+      { defer: true },
+    ),
+  );
+
+  // Re-render when review drafts change
+  createEffect(
+    on(
+      () => props.drafts?.map((d) => `${d.id}:${d.body}`).join("|") ?? "",
+      () => {
+        setTimeout(rerender, 0);
+      },
+      { defer: true },
+    ),
+  );
+
+  // Re-render when file contents load or full file mode is toggled
+  createEffect(
+    on(
+      [fileLines, fullFile],
+      ([, full]) => {
+        if (!instance) return;
+        instance.setOptions({ ...instance.options, expandUnchanged: full });
+        setTimeout(rerender, 0);
+      },
+      { defer: true },
+    ),
+  );
+
   // Re-render when settings change
   createEffect(
     on(
@@ -289,6 +478,7 @@ export function FileDiffView(props: FileDiffViewProps) {
       theme: props.settings.theme,
       lineDiffType: props.settings.lineDiffType,
       hunkSeparators: "line-info",
+      expandUnchanged: fullFile(),
       disableFileHeader: true,
       enableLineSelection: true,
       unsafeCSS: getCustomCSS(),
@@ -298,8 +488,10 @@ export function FileDiffView(props: FileDiffViewProps) {
           window.getSelection()?.removeAllRanges();
 
           const side = range.side === "deletions" ? "LEFT" : "RIGHT";
+          if (side === "LEFT" && props.newSideOnly) return;
           const startLine = Math.min(range.start, range.end);
           const endLine = Math.max(range.start, range.end);
+          if (!isInHunks(props.file, side, startLine, endLine)) return;
           setPendingComment({ startLine, endLine, side });
           // Re-render to show the pending comment form
           setTimeout(rerender, 0);
@@ -313,10 +505,45 @@ export function FileDiffView(props: FileDiffViewProps) {
           const { rootComment, replies } = metadata;
           div.className = "p-2.5 my-1 mx-2 bg-bg-elevated border border-border";
 
+          // Highlight the full range of multi-line threads while hovering them
+          const range = threadLineRange(rootComment);
+          if (range) {
+            div.addEventListener("mouseenter", () => {
+              if (pendingComment()) return;
+              instance?.setSelectedLines({
+                start: range.startLine,
+                side: range.startSide === "LEFT" ? "deletions" : "additions",
+                end: range.endLine,
+                endSide: range.side === "LEFT" ? "deletions" : "additions",
+              });
+            });
+            div.addEventListener("mouseleave", () => {
+              if (!pendingComment()) instance?.setSelectedLines(null);
+            });
+          }
+
+          const edit = suggestionEdit(rootComment);
+
           // Render the CommentThread component into the div
           const dispose = renderCommentThread(div, {
             rootComment,
             replies,
+            lineRange: range,
+            suggestion: edit
+              ? {
+                  baseLines: edit.baseLines,
+                  onApply: props.onApplySuggestions
+                    ? async () => {
+                        await props.onApplySuggestions!([edit]);
+                      }
+                    : undefined,
+                  isBatched: () =>
+                    !!props.suggestionBatch?.some((s) => s.commentId === edit.commentId),
+                  onToggleBatch: props.onToggleSuggestionBatch
+                    ? () => props.onToggleSuggestionBatch!(edit)
+                    : undefined,
+                }
+              : undefined,
             githubContext: githubContext(),
             onEdit: async (commentId, body) => {
               await props.onEditComment(commentId, body);
@@ -327,6 +554,13 @@ export function FileDiffView(props: FileDiffViewProps) {
             onReply: async (body) => {
               await props.onReplyToComment(rootComment.id, body);
             },
+            threadState: rootComment.thread,
+            onResolve:
+              rootComment.thread && props.onResolveThread
+                ? async (resolved) => {
+                    await props.onResolveThread!(rootComment.thread!.id, resolved);
+                  }
+                : undefined,
           });
           disposeList.push(dispose);
         } else if (metadata.type === "ai-annotation") {
@@ -338,6 +572,26 @@ export function FileDiffView(props: FileDiffViewProps) {
             onDismiss: props.onDismissAiAnnotation,
           });
           disposeList.push(dispose);
+        } else if (metadata.type === "check-annotation") {
+          div.className = "my-1 mx-2";
+
+          const dispose = renderCheckAnnotation(div, { annotation: metadata.annotation });
+          disposeList.push(dispose);
+        } else if (metadata.type === "draft") {
+          div.className = "p-2.5 my-1 mx-2 bg-bg-elevated border border-dashed border-accent/50";
+
+          const { draft } = metadata;
+          const dispose = renderDraftComment(div, {
+            lineRange:
+              draft.startLine !== undefined
+                ? { startLine: draft.startLine, endLine: draft.line }
+                : null,
+            body: draft.body,
+            githubContext: githubContext(),
+            onEdit: (body) => props.onEditDraft?.(draft.id, body),
+            onDiscard: () => props.onDiscardDraft?.(draft.id),
+          });
+          disposeList.push(dispose);
         } else if (metadata.type === "pending") {
           div.className = "p-2.5 my-1 mx-2 bg-bg-surface border border-accent";
 
@@ -345,11 +599,23 @@ export function FileDiffView(props: FileDiffViewProps) {
           const dispose = renderPendingCommentForm(div, {
             startLine: metadata.startLine,
             endLine: metadata.endLine,
+            // GitHub only accepts suggestions on the new side of the diff
+            suggestionLines:
+              metadata.side === "RIGHT"
+                ? getNewFileLines(props.file, metadata.startLine, metadata.endLine)
+                : null,
             onSubmit: async (body) => {
-              await props.onAddComment(metadata.endLine, metadata.side, body);
+              await props.onAddComment(metadata, body);
               setPendingComment(null);
               window.getSelection()?.removeAllRanges();
             },
+            onAddToReview: props.onAddDraft
+              ? (body) => {
+                  props.onAddDraft!(metadata, body);
+                  setPendingComment(null);
+                  window.getSelection()?.removeAllRanges();
+                }
+              : undefined,
             onCancel: () => {
               setPendingComment(null);
               setTimeout(rerender, 0);
@@ -363,7 +629,7 @@ export function FileDiffView(props: FileDiffViewProps) {
     });
 
     instance.render({
-      fileDiff: props.file,
+      fileDiff: fileDiff(),
       containerWrapper: el,
       lineAnnotations: annotations(),
     });
@@ -433,6 +699,58 @@ export function FileDiffView(props: FileDiffViewProps) {
           <span class="text-sm text-accent">{props.comments.length}</span>
         </Show>
 
+        <Show when={props.binary}>
+          <span class="text-sm text-text-faint">{isImage() ? "image" : "binary"}</span>
+        </Show>
+        <Show when={!props.binary && isImage() && props.loadBinaryVersions}>
+          <span
+            onClick={handleToggleImageView}
+            class="text-sm px-1.5 rounded hover:bg-bg transition-colors"
+            classList={{
+              "text-accent": imageView(),
+              "text-text-faint hover:text-text-muted": !imageView(),
+            }}
+            title={imageView() ? "Show the source diff" : "Compare the rendered images"}
+          >
+            image
+          </span>
+        </Show>
+
+        {/* Context expansion */}
+        <Show when={canExpand()}>
+          <Show when={contextError()}>
+            <span class="text-sm text-error truncate max-w-60" title={contextError()!}>
+              {contextError()}
+            </span>
+          </Show>
+          <Show when={!fileLines() && !fullFile()}>
+            <span
+              onClick={handleExpandContext}
+              class="text-sm px-1.5 rounded text-text-faint hover:text-text-muted hover:bg-bg transition-colors"
+              title="Load the surrounding code so collapsed regions can be expanded"
+            >
+              {loadingContext() ? "loading…" : "expand"}
+            </span>
+          </Show>
+          <span
+            onClick={handleToggleFullFile}
+            class="text-sm px-1.5 rounded hover:bg-bg transition-colors"
+            classList={{
+              "text-accent": fullFile(),
+              "text-text-faint hover:text-text-muted": !fullFile(),
+            }}
+            title={fullFile() ? "Show only the changed regions" : "Show the whole file"}
+          >
+            full file
+          </span>
+        </Show>
+
+        <Show when={props.isDismissed && !props.isRead}>
+          <span class="text-sm text-warning" title="Changed since you viewed it">
+            changed
+          </span>
+        </Show>
+
         {/* Mark as read button */}
         <Show when={props.onToggleRead}>
           <span
@@ -453,10 +771,19 @@ export function FileDiffView(props: FileDiffViewProps) {
 
       {/* Diff content */}
       <Show when={!collapsed()}>
-        <div
-          class="border border-t-0 border-border rounded-b-sm overflow-hidden"
-          ref={renderDiff}
-        />
+        <Show
+          when={showBlobs()}
+          fallback={
+            <div
+              class="border border-t-0 border-border rounded-b-sm overflow-hidden"
+              ref={renderDiff}
+            />
+          }
+        >
+          <div class="border border-t-0 border-border rounded-b-sm overflow-hidden">
+            <BinaryFileView path={props.file.name} load={props.loadBinaryVersions!} />
+          </div>
+        </Show>
       </Show>
     </div>
   );
@@ -1,7 +1,13 @@
-import type { PRComment, PrCommit } from "@better-review/shared";
+import type {
+  CheckAnnotation,
+  ForcePush,
+  PRComment,
+  PrCommit,
+  ReviewEvent,
+} from "@better-review/shared";
 
 // Re-export shared types for convenience
-export type { PRComment, PrCommit };
+export type { ForcePush, PRComment, PrCommit, ReviewEvent };
 
 // ============ Settings Types ============
 
@@ -104,21 +110,67 @@ export const LINE_DIFF_LABELS: Record<LineDiffType, string> = {
   none: "None",
 };
 
+// ============ Review Draft Types ============
+
+/** Lines a new inline comment is anchored to (`startLine === endLine` for a single line) */
+export interface CommentLineRange {
+  startLine: number;
+  endLine: number;
+  side: "LEFT" | "RIGHT";
+}
+
+/** An inline comment held locally until the pending review is submitted */
+export interface ReviewDraft {
+  id: string;
+  filePath: string;
+  /** First line of a multi-line draft; `line` is the last */
+  startLine?: number;
+  line: number;
+  side: "LEFT" | "RIGHT";
+  body: string;
+  createdAt: number;
+}
+
+// ============ Suggestion Types ============
+
+/** A ```suggestion from a review comment, ready to be committed to the head branch */
+export interface SuggestionEdit {
+  commentId: number;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  /** Lines startLine..endLine as shown in the diff, so the server can tell if the branch moved */
+  baseLines: string[];
+  replacement: string;
+}
+
 // ============ Annotation Metadata Types ============
 
 import type { Annotation } from "../utils/parseReviewTokens";
 
 export type AnnotationMetadata =
   | { type: "thread"; rootComment: PRComment; replies: PRComment[] }
-  | { type: "pending"; startLine: number; endLine: number; side: "LEFT" | "RIGHT" }
+  | ({ type: "pending" } & CommentLineRange)
   | {
       type: "pending-reply";
       rootCommentId: number;
       line: number | null;
       side: "LEFT" | "RIGHT";
     }
-  | { type: "ai-annotation"; annotation: Annotation };
+  | { type: "draft"; draft: ReviewDraft }
+  | { type: "ai-annotation"; annotation: Annotation }
+  | { type: "check-annotation"; annotation: CheckAnnotation };
 
 // ============ Review Mode Types ============
 
-export type ReviewMode = "full" | "commit";
+// "since-review" diffs the head the user last reviewed against the current head
+export type ReviewMode = "full" | "commit" | "since-review";
+
+/**
+ * Two points in the PR's history to diff in commit mode, instead of a single commit
+ */
+export interface CommitRange {
+  base: string;
+  head: string;
+  label: string;
+}
@@ -1,6 +1,7 @@
 import hljs from "highlight.js";
 import { marked } from "marked";
 import "highlight.js/styles/monokai.css";
+import { getHostBaseUrl } from "@better-review/shared";
 
 // Configure marked with syntax highlighting for fenced code blocks
 marked.setOptions({
@@ -32,14 +33,15 @@ const GITHUB_USER_MENTION = /@([a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)/g;
 const GITHUB_ISSUE_REF = /#(\d+)/g;
 const GITHUB_CROSS_REPO_REF = /([a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+)#(\d+)/g;
 
-interface GitHubContext {
+export interface GitHubContext {
+  host?: string;
   owner: string;
   repo: string;
 }
 
 // Process GitHub-specific references in text
 function processGitHubRefs(html: string, ctx: GitHubContext | null): string {
-  const baseUrl = "https://github.com";
+  const baseUrl = getHostBaseUrl(ctx?.host);
 
   // Process cross-repo references first (before simple #123 refs)
   html = html.replace(GITHUB_CROSS_REPO_REF, (match, repo, number) => {
@@ -1,16 +1,36 @@
 import { persistQueryClient } from "@tanstack/query-persist-client-core";
-import { QueryClient } from "@tanstack/solid-query";
+import { QueryClient, defaultShouldDehydrateQuery } from "@tanstack/solid-query";
 import { get, set, del, createStore } from "idb-keyval";
 
 import type {
   PrCommit,
   PRComment,
   PrStatus,
+  CheckAnnotation,
+  CheckRunLog,
   CiStatus,
+  CompareDiff,
   SearchedPr,
+  PrSearchResults,
   IssueComment,
+  SinceReviewDiff,
+  ForcePush,
+  PrInfo,
+  RateLimitStatus,
+  SavedSearch,
+  ViewedFile,
+  DiffRefs,
+  FileVersions,
+  BinaryVersions,
+  CodeOwnership,
+  MergeMethod,
+  MergeState,
+  PrLabel,
+  ReviewCandidates,
+  TimelineEvent,
 } from "@better-review/shared";
 
+import type { ReviewDraft } from "../diff/types";
 import type { Annotation } from "../utils/parseReviewTokens";
 import { trpc } from "./trpc";
 
@@ -18,6 +38,11 @@ import { trpc } from "./trpc";
 const queryStore = createStore("better-review-query", "cache");
 const CACHE_KEY = "tanstack-query-cache";
 
+// Server query keys start with this; bump it when a cached response changes shape. Entries
+// persisted under an older version are restored unused and left out of the next save, while
+// the client-only `local` state is kept (a buster would throw that away too)
+const SERVER_CACHE_VERSION = "v1";
+
 // Create QueryClient with sensible defaults
 export const queryClient = new QueryClient({
   defaultOptions: {
@@ -50,6 +75,11 @@ export function restoreCache(): void {
       },
     },
     maxAge: 24 * 60 * 60 * 1000, // 24 hours
+    dehydrateOptions: {
+      shouldDehydrateQuery: (query) =>
+        defaultShouldDehydrateQuery(query) &&
+        (query.queryKey[0] === SERVER_CACHE_VERSION || query.queryKey[0] === "local"),
+    },
   });
 }
 
@@ -59,25 +89,45 @@ export type { IssueComment };
 // Query key factories for type-safe keys
 export const queryKeys = {
   pr: {
-    all: ["pr"] as const,
-    batch: (url: string) => ["pr", "batch", url] as const,
-    diff: (url: string) => ["pr", "diff", url] as const,
-    info: (url: string) => ["pr", "info", url] as const,
-    commits: (url: string) => ["pr", "commits", url] as const,
-    commitDiff: (url: string, sha: string) => ["pr", "commitDiff", url, sha] as const,
-    commitDiffsBatch: (url: string) => ["pr", "commitDiffsBatch", url] as const,
-    comments: (url: string) => ["pr", "comments", url] as const,
-    issueComments: (url: string) => ["pr", "issueComments", url] as const,
-    status: (url: string) => ["pr", "status", url] as const,
-    ciStatus: (url: string) => ["pr", "ci-status", url] as const,
+    all: [SERVER_CACHE_VERSION, "pr"] as const,
+    batch: (url: string) => [SERVER_CACHE_VERSION, "pr", "batch", url] as const,
+    diff: (url: string) => [SERVER_CACHE_VERSION, "pr", "diff", url] as const,
+    info: (url: string) => [SERVER_CACHE_VERSION, "pr", "info", url] as const,
+    commits: (url: string) => [SERVER_CACHE_VERSION, "pr", "commits", url] as const,
+    commitDiff: (url: string, sha: string) =>
+      [SERVER_CACHE_VERSION, "pr", "commitDiff", url, sha] as const,
+    commitDiffsBatch: (url: string) =>
+      [SERVER_CACHE_VERSION, "pr", "commitDiffsBatch", url] as const,
+    compareDiff: (url: string, base: string, head: string) =>
+      [SERVER_CACHE_VERSION, "pr", "compareDiff", url, base, head] as const,
+    forcePushes: (url: string) => [SERVER_CACHE_VERSION, "pr", "forcePushes", url] as const,
+    diffRefs: (url: string) => [SERVER_CACHE_VERSION, "pr", "diffRefs", url] as const,
+    reviewCandidates: (url: string) =>
+      [SERVER_CACHE_VERSION, "pr", "reviewCandidates", url] as const,
+    labels: (url: string) => [SERVER_CACHE_VERSION, "pr", "labels", url] as const,
+    fileVersions: (url: string, path: string, base: string, head: string) =>
+      [SERVER_CACHE_VERSION, "pr", "fileVersions", url, path, base, head] as const,
+    binaryVersions: (url: string, path: string, base: string, head: string, content: boolean) =>
+      [SERVER_CACHE_VERSION, "pr", "binaryVersions", url, path, base, head, content] as const,
+    sinceLastReviewDiff: (url: string) =>
+      [SERVER_CACHE_VERSION, "pr", "sinceLastReviewDiff", url] as const,
+    comments: (url: string) => [SERVER_CACHE_VERSION, "pr", "comments", url] as const,
+    issueComments: (url: string) => [SERVER_CACHE_VERSION, "pr", "issueComments", url] as const,
+    status: (url: string) => [SERVER_CACHE_VERSION, "pr", "status", url] as const,
+    checkRunLog: (url: string, checkRunId: number) =>
+      [SERVER_CACHE_VERSION, "pr", "checkRunLog", url, checkRunId] as const,
+    ciStatus: (url: string) => [SERVER_CACHE_VERSION, "pr", "ci-status", url] as const,
     ciStatusBatch: (urls: string[]) =>
-      ["pr", "ci-status-batch", urls.toSorted().join(",")] as const,
+      [SERVER_CACHE_VERSION, "pr", "ci-status-batch", urls.toSorted().join(",")] as const,
   },
   prs: {
-    list: ["prs", "list"] as const,
+    list: [SERVER_CACHE_VERSION, "prs", "list"] as const,
+    searches: [SERVER_CACHE_VERSION, "prs", "searches"] as const,
   },
   user: {
-    current: ["user", "current"] as const,
+    current: [SERVER_CACHE_VERSION, "user", "current"] as const,
+    rateLimit: (host?: string) =>
+      [SERVER_CACHE_VERSION, "user", "rateLimit", host ?? "default"] as const,
   },
   // Local client-only state (persisted via IndexedDB with rest of query cache)
   local: {
@@ -94,13 +144,10 @@ export const api = {
     return result.diff;
   },
 
-  async fetchInfo(
-    url: string,
-    _signal?: AbortSignal,
-  ): Promise<{ owner: string; repo: string; number: string } | null> {
+  async fetchInfo(url: string, _signal?: AbortSignal): Promise<PrInfo | null> {
     const result = await trpc.pr.info.query({ url });
     if (result.owner && result.repo && result.number) {
-      return { owner: result.owner, repo: result.repo, number: result.number };
+      return { host: result.host, owner: result.owner, repo: result.repo, number: result.number };
     }
     return null;
   },
@@ -115,6 +162,50 @@ export const api = {
     return result.diff;
   },
 
+  async fetchCompareDiff(
+    url: string,
+    base: string,
+    head: string,
+    _signal?: AbortSignal,
+  ): Promise<CompareDiff> {
+    const { diff, rebased } = await trpc.pr.compareDiff.query({ url, base, head });
+    return { diff, rebased };
+  },
+
+  async fetchForcePushes(url: string, _signal?: AbortSignal): Promise<ForcePush[]> {
+    const result = await trpc.pr.forcePushes.query({ url });
+    return [...result.forcePushes];
+  },
+
+  async fetchDiffRefs(url: string, _signal?: AbortSignal): Promise<DiffRefs> {
+    return await trpc.pr.diffRefs.query({ url });
+  },
+
+  async fetchFileVersions(
+    url: string,
+    path: string,
+    prevPath: string | undefined,
+    refs: DiffRefs,
+    _signal?: AbortSignal,
+  ): Promise<FileVersions> {
+    return await trpc.pr.fileVersions.query({ url, path, prevPath, ...refs });
+  },
+
+  async fetchBinaryVersions(
+    url: string,
+    path: string,
+    prevPath: string | undefined,
+    refs: DiffRefs,
+    content: boolean,
+    _signal?: AbortSignal,
+  ): Promise<BinaryVersions> {
+    return await trpc.pr.binaryVersions.query({ url, path, prevPath, ...refs, content });
+  },
+
+  async fetchSinceLastReviewDiff(url: string, _signal?: AbortSignal): Promise<SinceReviewDiff> {
+    return await trpc.pr.sinceLastReviewDiff.query({ url });
+  },
+
   async fetchComments(url: string, _signal?: AbortSignal): Promise<PRComment[]> {
     const result = await trpc.pr.comments.query({ url });
     return [...(result.comments ?? [])];
@@ -130,14 +221,110 @@ export const api = {
     return result.comment as IssueComment;
   },
 
+  async fetchViewedFiles(url: string, _signal?: AbortSignal): Promise<ViewedFile[]> {
+    const result = await trpc.pr.viewedFiles.query({ url });
+    return [...result.files];
+  },
+
+  async fetchCodeOwners(url: string, _signal?: AbortSignal): Promise<CodeOwnership> {
+    return await trpc.pr.codeOwners.query({ url });
+  },
+
+  async setFileViewed(prUrl: string, path: string, viewed: boolean): Promise<void> {
+    await trpc.pr.setFileViewed.mutate({ prUrl, path, viewed });
+  },
+
+  async fetchReviewCandidates(url: string, _signal?: AbortSignal): Promise<ReviewCandidates> {
+    return await trpc.pr.reviewCandidates.query({ url });
+  },
+
+  async fetchLabels(url: string, _signal?: AbortSignal): Promise<PrLabel[]> {
+    const result = await trpc.pr.labels.query({ url });
+    return [...result.labels];
+  },
+
+  async requestReviewers(prUrl: string, users: string[], teams: string[]): Promise<void> {
+    await trpc.pr.requestReviewers.mutate({ prUrl, users, teams });
+  },
+
+  async removeReviewers(prUrl: string, users: string[], teams: string[]): Promise<void> {
+    await trpc.pr.removeReviewers.mutate({ prUrl, users, teams });
+  },
+
+  async setAssignees(prUrl: string, assignees: string[]): Promise<void> {
+    await trpc.pr.setAssignees.mutate({ prUrl, assignees });
+  },
+
+  async setLabels(prUrl: string, labels: string[]): Promise<void> {
+    await trpc.pr.setLabels.mutate({ prUrl, labels });
+  },
+
+  async fetchTimeline(url: string, _signal?: AbortSignal): Promise<TimelineEvent[]> {
+    return await trpc.pr.timeline.query({ url });
+  },
+
+  async fetchCheckAnnotations(url: string, _signal?: AbortSignal): Promise<CheckAnnotation[]> {
+    return await trpc.pr.checkAnnotations.query({ url });
+  },
+
+  async fetchCheckRunLog(url: string, checkRunId: number): Promise<CheckRunLog | null> {
+    return await trpc.pr.checkRunLog.query({ url, checkRunId });
+  },
+
+  async rerunCheckSuites(prUrl: string, checkSuiteIds: number[]): Promise<void> {
+    await trpc.pr.rerunCheckSuites.mutate({ prUrl, checkSuiteIds });
+  },
+
+  async setDraft(prUrl: string, draft: boolean): Promise<void> {
+    await trpc.pr.setDraft.mutate({ prUrl, draft });
+  },
+
+  async updatePr(prUrl: string, changes: { title?: string; body?: string }): Promise<void> {
+    await trpc.pr.update.mutate({ prUrl, ...changes });
+  },
+
+  async fetchMergeState(url: string, _signal?: AbortSignal): Promise<MergeState> {
+    return await trpc.pr.mergeState.query({ url });
+  },
+
+  async mergePr(
+    prUrl: string,
+    options: {
+      method: MergeMethod;
+      title?: string;
+      body?: string;
+      sha?: string;
+      deleteBranch?: boolean;
+    },
+  ): Promise<{ branchDeleted: boolean }> {
+    return await trpc.pr.merge.mutate({ prUrl, ...options });
+  },
+
+  async setAutoMerge(
+    prUrl: string,
+    options: { enabled: boolean; method?: MergeMethod; title?: string; body?: string },
+  ): Promise<void> {
+    await trpc.pr.setAutoMerge.mutate({ prUrl, ...options });
+  },
+
   async fetchStatus(url: string, _signal?: AbortSignal): Promise<PrStatus> {
     const result = await trpc.pr.status.query({ url });
     return result;
   },
 
-  async fetchPrList(_signal?: AbortSignal): Promise<SearchedPr[]> {
+  async fetchPrList(_signal?: AbortSignal): Promise<PrSearchResults> {
     const result = await trpc.prs.list.query();
-    return [...(result.prs ?? [])];
+    return { prs: [...result.prs], truncatedSearches: [...result.truncatedSearches] };
+  },
+
+  async fetchSavedSearches(_signal?: AbortSignal): Promise<SavedSearch[]> {
+    const result = await trpc.prs.searches.query();
+    return [...result.searches];
+  },
+
+  async saveSearches(searches: SavedSearch[]): Promise<SavedSearch[]> {
+    const result = await trpc.prs.saveSearches.mutate({ searches });
+    return [...result.searches];
   },
 
   async fetchPrCiStatus(prUrl: string, _signal?: AbortSignal): Promise<CiStatus | null> {
@@ -148,17 +335,21 @@ export const api = {
   async fetchCiStatusBatch(
     urls: string[],
     _signal?: AbortSignal,
-  ): Promise<Record<string, CiStatus | null>> {
+  ): Promise<{ statuses: Record<string, CiStatus | null>; rateLimited: string[] }> {
     const result = await trpc.prs.ciStatusBatch.query({ urls });
-    return result.statuses ?? {};
+    return { statuses: result.statuses ?? {}, rateLimited: [...result.rateLimited] };
   },
 
   async fetchCommitDiffsBatch(
     url: string,
     _signal?: AbortSignal,
-  ): Promise<Record<string, string | null>> {
+  ): Promise<{ diffs: Record<string, string | null>; rateLimited: boolean }> {
     const result = await trpc.pr.commitDiffsBatch.query({ url });
-    return result.diffs ?? {};
+    return { diffs: result.diffs ?? {}, rateLimited: result.rateLimited };
+  },
+
+  async fetchRateLimit(host?: string, _signal?: AbortSignal): Promise<RateLimitStatus> {
+    return await trpc.user.rateLimit.query({ host });
   },
 
   async fetchCurrentUser(_signal?: AbortSignal): Promise<string | null> {
@@ -171,7 +362,7 @@ export const api = {
     _signal?: AbortSignal,
   ): Promise<{
     diff: string;
-    info: { owner: string; repo: string; number: string };
+    info: PrInfo;
     commits: PrCommit[];
     comments: PRComment[];
     issueComments: IssueComment[];
@@ -234,7 +425,7 @@ export async function prefetchCommitDiffs(url: string, commits: PrCommit[]): Pro
   if (existingBatch) return;
 
   try {
-    const diffs = await api.fetchCommitDiffsBatch(url);
+    const { diffs, rateLimited } = await api.fetchCommitDiffsBatch(url);
 
     // Populate individual query caches
     for (const [sha, diff] of Object.entries(diffs)) {
@@ -243,31 +434,36 @@ export async function prefetchCommitDiffs(url: string, commits: PrCommit[]): Pro
       }
     }
 
-    // Mark batch as complete
-    queryClient.setQueryData(queryKeys.pr.commitDiffsBatch(url), diffs);
+    // Mark batch as complete, unless rate limiting cut it short (the next prefetch retries)
+    if (!rateLimited) {
+      queryClient.setQueryData(queryKeys.pr.commitDiffsBatch(url), diffs);
+    }
   } catch (e) {
     console.error("Failed to prefetch commit diffs:", e);
   }
 }
 
-// Prefetch CI statuses for multiple PRs using batch endpoint
-export async function prefetchCiStatuses(urls: string[]): Promise<void> {
-  if (urls.length === 0) return;
+// Prefetch CI statuses for multiple PRs using batch endpoint.
+// Returns the URLs GitHub rate limited, which stay uncached so a later call retries them.
+export async function prefetchCiStatuses(urls: string[]): Promise<string[]> {
+  if (urls.length === 0) return [];
 
   // Filter out already cached URLs
   const uncachedUrls = urls.filter((url) => !queryClient.getQueryData(queryKeys.pr.ciStatus(url)));
 
-  if (uncachedUrls.length === 0) return;
+  if (uncachedUrls.length === 0) return [];
 
   try {
-    const statuses = await api.fetchCiStatusBatch(uncachedUrls);
+    const { statuses, rateLimited } = await api.fetchCiStatusBatch(uncachedUrls);
 
     // Populate individual query caches
     for (const [url, status] of Object.entries(statuses)) {
       queryClient.setQueryData(queryKeys.pr.ciStatus(url), status);
     }
+    return rateLimited;
   } catch (e) {
     console.error("Failed to prefetch CI statuses:", e);
+    return [];
   }
 }
 
@@ -307,6 +503,15 @@ export function toggleFileRead(prUrl: string, fileName: string): Set<string> {
   return current;
 }
 
+/**
+ * Replace the read files for a PR with the files GitHub reports as viewed, and return them
+ */
+export function syncViewedFiles(prUrl: string, files: ViewedFile[]): Set<string> {
+  const viewed = new Set(files.filter((f) => f.state === "VIEWED").map((f) => f.path));
+  setReadFiles(prUrl, viewed);
+  return viewed;
+}
+
 /**
  * Get the review order for a PR
  */
@@ -363,3 +568,93 @@ export function removeAnnotation(prUrl: string, annotationId: string): Annotatio
 export function getAnnotationsForFile(prUrl: string, fileName: string): Annotation[] {
   return getAnnotations(prUrl).filter((a) => a.file === fileName);
 }
+
+// Drafts are unsent work, so they live in localStorage rather than the query cache,
+// whose entries are garbage collected and expire from IndexedDB after a day
+const reviewDraftsStorageKey = (prUrl: string) => `review-drafts:${prUrl}`;
+
+const isReviewDraft = (value: unknown): value is ReviewDraft => {
+  if (typeof value !== "object" || value === null) return false;
+  const d = value as Record<string, unknown>;
+  return (
+    typeof d.id === "string" &&
+    typeof d.filePath === "string" &&
+    (d.startLine === undefined || typeof d.startLine === "number") &&
+    typeof d.line === "number" &&
+    (d.side === "LEFT" || d.side === "RIGHT") &&
+    typeof d.body === "string" &&
+    typeof d.createdAt === "number"
+  );
+};
+
+/**
+ * Get the pending review drafts for a PR (in submission order)
+ */
+export function getReviewDrafts(prUrl: string): ReviewDraft[] {
+  try {
+    const stored = localStorage.getItem(reviewDraftsStorageKey(prUrl));
+    if (!stored) return [];
+    const drafts: unknown = JSON.parse(stored);
+    if (Array.isArray(drafts) && drafts.every(isReviewDraft)) return drafts;
+  } catch {
+    // Ignore parse errors
+  }
+  return [];
+}
+
+/**
+ * Set the pending review drafts for a PR. Throws when localStorage refuses the write
+ * (full or blocked), so the caller can keep the edit around and tell the user.
+ */
+export function setReviewDrafts(prUrl: string, drafts: ReviewDraft[]): void {
+  try {
+    if (drafts.length === 0) localStorage.removeItem(reviewDraftsStorageKey(prUrl));
+    else localStorage.setItem(reviewDraftsStorageKey(prUrl), JSON.stringify(drafts));
+  } catch (err) {
+    throw new Error("Failed to save review drafts (browser storage is full or blocked)", {
+      cause: err,
+    });
+  }
+}
+
+/**
+ * Append a draft to the pending review
+ */
+export function addReviewDraft(prUrl: string, draft: ReviewDraft): ReviewDraft[] {
+  const updated = [...getReviewDrafts(prUrl), draft];
+  setReviewDrafts(prUrl, updated);
+  return updated;
+}
+
+/**
+ * Update the body of a pending draft
+ */
+export function updateReviewDraft(prUrl: string, draftId: string, body: string): ReviewDraft[] {
+  const updated = getReviewDrafts(prUrl).map((d) => (d.id === draftId ? { ...d, body } : d));
+  setReviewDrafts(prUrl, updated);
+  return updated;
+}
+
+/**
+ * Discard a pending draft
+ */
+export function removeReviewDraft(prUrl: string, draftId: string): ReviewDraft[] {
+  const updated = getReviewDrafts(prUrl).filter((d) => d.id !== draftId);
+  setReviewDrafts(prUrl, updated);
+  return updated;
+}
+
+/**
+ * Move a draft up (-1) or down (+1) in the submission order
+ */
+export function moveReviewDraft(prUrl: string, draftId: string, offset: -1 | 1): ReviewDraft[] {
+  const drafts = getReviewDrafts(prUrl);
+  const from = drafts.findIndex((d) => d.id === draftId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= drafts.length) return drafts;
+
+  const updated = [...drafts];
+  [updated[from], updated[to]] = [updated[to], updated[from]];
+  setReviewDrafts(prUrl, updated);
+  return updated;
+}
@@ -2,6 +2,10 @@ import { A, useSearchParams } from "@solidjs/router";
 import { useQuery } from "@tanstack/solid-query";
 import { Component, For, Show, createEffect, createSignal, onCleanup } from "solid-js";
 
+import type { SavedSearch } from "@better-review/shared";
+
+import { RateLimitIndicator } from "../components/RateLimitIndicator";
+import { SavedSearchesEditor } from "../components/SavedSearchesEditor";
 import { SpinnerIcon } from "../icons/spinner-icon";
 import {
   queryKeys,
@@ -44,14 +48,32 @@ const CiStatusBadgeInner: Component<{ status: CiStatus }> = (props) => {
 };
 
 // CI status badge - reads from cache (populated by batch fetch)
-const CiStatusBadge: Component<{ prUrl: string; ciStatuses: Record<string, CiStatus | null> }> = (
-  props,
-) => {
+const CiStatusBadge: Component<{
+  prUrl: string;
+  ciStatuses: Record<string, CiStatus | null>;
+  rateLimited: boolean;
+}> = (props) => {
   const status = () => props.ciStatuses[props.prUrl];
 
-  return <Show when={status()}>{(s) => <CiStatusBadgeInner status={s()} />}</Show>;
+  return (
+    <Show
+      when={status()}
+      fallback={
+        <Show when={props.rateLimited}>
+          <span class="text-text-faint" title="CI status paused by GitHub rate limiting">
+            ◷ …
+          </span>
+        </Show>
+      }
+    >
+      {(s) => <CiStatusBadgeInner status={s()} />}
+    </Show>
+  );
 };
 
+// How long to wait before asking again for CI statuses GitHub rate limited
+const CI_RATE_LIMIT_RETRY_MS = 60 * 1000;
+
 // Lines changed indicator
 const LinesChanged: Component<{ additions: number; deletions: number }> = (props) => {
   const format = (n: number) => {
@@ -101,8 +123,21 @@ const PrListPage: Component = () => {
     refetchIntervalInBackground: true,
   }));
 
+  const searchesQuery = useQuery(() => ({
+    queryKey: queryKeys.prs.searches,
+    queryFn: ({ signal }) => api.fetchSavedSearches(signal),
+  }));
+  const [editingSearches, setEditingSearches] = createSignal(false);
+
+  const saveSearches = async (searches: SavedSearch[]) => {
+    queryClient.setQueryData(queryKeys.prs.searches, await api.saveSearches(searches));
+    await prsQuery.refetch();
+  };
+
   // CI statuses fetched via batch
   const [ciStatuses, setCiStatuses] = createSignal<Record<string, CiStatus | null>>({});
+  // PRs whose CI status is waiting out a rate limit (shown as paused, not missing)
+  const [rateLimitedUrls, setRateLimitedUrls] = createSignal<Set<string>>(new Set());
 
   // Prefetch on mousedown (user intent to click)
   const handleMouseDown = (prUrl: string) => {
@@ -115,16 +150,35 @@ const PrListPage: Component = () => {
   const showDrafts = () => searchParams.drafts === "1";
   const showNeedsReview = () => searchParams.needsReview !== "0";
   const repoFilter = () => searchParams.repo ?? "";
+  // Saved search tab (empty for all PRs)
+  const activeTab = () => (typeof searchParams.tab === "string" ? searchParams.tab : "");
+
+  const prs = () => prsQuery.data?.prs ?? [];
+  // PRs cached before saved searches existed have no matches
+  const matches = (pr: SearchedPr) => pr.matchedSearches ?? [];
+  const tabCount = (id: string) =>
+    prs().filter((pr: SearchedPr) => matches(pr).includes(id)).length;
+  // Saved searches that matched more PRs than the inbox loads, shown on the current tab
+  const truncatedSearches = () =>
+    (searchesQuery.data ?? []).filter(
+      (search) =>
+        prsQuery.data?.truncatedSearches.includes(search.id) &&
+        (!activeTab() || activeTab() === search.id),
+    );
 
   // Get unique repos from PR list
   const uniqueRepos = () => {
-    const repos = (prsQuery.data ?? []).map((pr: SearchedPr) => pr.repository.nameWithOwner);
+    const repos = prs().map((pr: SearchedPr) => pr.repository.nameWithOwner);
     return [...new Set(repos)].sort();
   };
 
   // Filtered PR list
   const filteredPrs = () => {
-    let result = prsQuery.data ?? [];
+    let result = prs();
+
+    if (activeTab()) {
+      result = result.filter((pr: SearchedPr) => matches(pr).includes(activeTab()));
+    }
 
     if (showMyPrs()) {
       result = result.filter((pr: SearchedPr) => pr.isAuthor);
@@ -134,7 +188,8 @@ const PrListPage: Component = () => {
       result = result.filter((pr: SearchedPr) => !pr.isDraft);
     }
 
-    if (showNeedsReview()) {
+    // A saved search tab already says what to show
+    if (showNeedsReview() && !activeTab()) {
       result = result.filter(
         (pr: SearchedPr) =>
           pr.reviewRequested &&
@@ -163,12 +218,14 @@ const PrListPage: Component = () => {
     if (prs.length > 0) {
       const urls = prs.map((pr) => pr.url);
 
-      // Debounce to avoid rapid requests when filters change quickly
-      clearTimeout(ciStatusTimeout);
-      ciStatusTimeout = setTimeout(async () => {
+      const fetchStatuses = async () => {
         try {
           // Use prefetchCiStatuses which has caching logic to skip already-cached URLs
-          await prefetchCiStatuses(urls);
+          const rateLimited = await prefetchCiStatuses(urls);
+          setRateLimitedUrls(new Set(rateLimited));
+          if (rateLimited.length > 0) {
+            ciStatusTimeout = setTimeout(fetchStatuses, CI_RATE_LIMIT_RETRY_MS);
+          }
 
           // Read from query cache and update local signal
           const statuses: Record<string, CiStatus | null> = {};
@@ -182,7 +239,11 @@ const PrListPage: Component = () => {
         } catch (e) {
           console.error("Failed to fetch CI statuses:", e);
         }
-      }, 100);
+      };
+
+      // Debounce to avoid rapid requests when filters change quickly
+      clearTimeout(ciStatusTimeout);
+      ciStatusTimeout = setTimeout(fetchStatuses, 100);
     }
 
     onCleanup(() => clearTimeout(ciStatusTimeout));
@@ -198,9 +259,12 @@ const PrListPage: Component = () => {
               <span class="text-accent text-base">●</span>
               <h1 class="text-base text-text">better-review</h1>
             </A>
-            <A href="/review" class="text-base text-text-faint hover:text-text transition-colors">
-              Enter PR URL manually
-            </A>
+            <div class="flex items-center gap-4">
+              <RateLimitIndicator />
+              <A href="/review" class="text-base text-text-faint hover:text-text transition-colors">
+                Enter PR URL manually
+              </A>
+            </div>
           </div>
         </div>
       </header>
@@ -211,20 +275,69 @@ const PrListPage: Component = () => {
           <div class="flex items-center justify-between mb-6">
             <div>
               <h2 class="text-lg font-medium text-text">Review Requests</h2>
-              <p class="text-base text-text-faint mt-1">
-                PRs where you're requested as a reviewer or have already reviewed
-              </p>
+              <p class="text-base text-text-faint mt-1">PRs from your saved searches</p>
+            </div>
+            <div class="flex items-center gap-2">
+              <button
+                onClick={() => setEditingSearches(!editingSearches())}
+                class="px-3 py-1.5 text-base border border-border hover:border-text-faint transition-colors"
+              >
+                Edit searches
+              </button>
+              <button
+                onClick={() => prsQuery.refetch()}
+                disabled={prsQuery.isFetching}
+                class="px-3 py-1.5 text-base border border-border hover:border-text-faint transition-colors disabled:opacity-50 flex items-center gap-1.5"
+              >
+                <Show when={prsQuery.isFetching}>
+                  <SpinnerIcon size={12} class="animate-spin" />
+                </Show>
+                {prsQuery.isFetching ? "Refreshing" : "Refresh"}
+              </button>
             </div>
+          </div>
+
+          <Show when={editingSearches() && searchesQuery.data}>
+            {(searches) => (
+              <SavedSearchesEditor
+                searches={searches()}
+                onSave={saveSearches}
+                onClose={() => setEditingSearches(false)}
+              />
+            )}
+          </Show>
+
+          {/* Saved search tabs */}
+          <div class="flex items-center gap-1 mb-4 border-b border-border text-sm">
             <button
-              onClick={() => prsQuery.refetch()}
-              disabled={prsQuery.isFetching}
-              class="px-3 py-1.5 text-base border border-border hover:border-text-faint transition-colors disabled:opacity-50 flex items-center gap-1.5"
+              onClick={() => setSearchParams({ tab: undefined })}
+              class={`px-3 py-1.5 -mb-px border-b-2 transition-colors ${
+                !activeTab()
+                  ? "border-accent text-accent"
+                  : "border-transparent text-text-faint hover:text-text"
+              }`}
             >
-              <Show when={prsQuery.isFetching}>
-                <SpinnerIcon size={12} class="animate-spin" />
-              </Show>
-              {prsQuery.isFetching ? "Refreshing" : "Refresh"}
+              All
             </button>
+            <For each={searchesQuery.data ?? []}>
+              {(search) => (
+                <button
+                  onClick={() => setSearchParams({ tab: search.id })}
+                  title={search.query}
+                  class={`px-3 py-1.5 -mb-px border-b-2 transition-colors ${
+                    activeTab() === search.id
+                      ? "border-accent text-accent"
+                      : "border-transparent text-text-faint hover:text-text"
+                  }`}
+                >
+                  {search.name}{" "}
+                  <span class="text-text-faint">
+                    {tabCount(search.id)}
+                    {prsQuery.data?.truncatedSearches.includes(search.id) ? "+" : ""}
+                  </span>
+                </button>
+              )}
+            </For>
           </div>
 
           {/* Filter chips */}
@@ -250,20 +363,22 @@ const PrListPage: Component = () => {
             >
               Drafts
             </button>
-            <button
-              onClick={() =>
-                setSearchParams({
-                  needsReview: showNeedsReview() ? "0" : undefined,
-                })
-              }
-              class={`px-3 py-1 border transition-colors ${
-                showNeedsReview()
-                  ? "border-accent bg-accent/10 text-accent"
-                  : "border-border text-text-faint hover:border-text-faint"
-              }`}
-            >
-              Needs Review
-            </button>
+            <Show when={!activeTab()}>
+              <button
+                onClick={() =>
+                  setSearchParams({
+                    needsReview: showNeedsReview() ? "0" : undefined,
+                  })
+                }
+                class={`px-3 py-1 border transition-colors ${
+                  showNeedsReview()
+                    ? "border-accent bg-accent/10 text-accent"
+                    : "border-border text-text-faint hover:border-text-faint"
+                }`}
+              >
+                Needs Review
+              </button>
+            </Show>
             <select
               id="repo-filter"
               value={repoFilter()}
@@ -293,6 +408,17 @@ const PrListPage: Component = () => {
             </div>
           </Show>
 
+          {/* Truncated searches */}
+          <Show when={truncatedSearches().length > 0}>
+            <div class="mb-4 px-4 py-2 border border-border text-sm text-text-faint">
+              {truncatedSearches()
+                .map((s) => s.name)
+                .join(", ")}{" "}
+              matched more PRs than the inbox loads; narrow{" "}
+              {truncatedSearches().length === 1 ? "its query" : "their queries"} to see them all.
+            </div>
+          </Show>
+
           {/* Empty state */}
           <Show when={prsQuery.isSuccess && filteredPrs().length === 0}>
             <div class="text-center py-12 border border-border">
@@ -342,7 +468,11 @@ const PrListPage: Component = () => {
                             </span>
                             <span class="flex items-center gap-3 text-sm">
                               <LinesChanged additions={pr.additions} deletions={pr.deletions} />
-                              <CiStatusBadge prUrl={pr.url} ciStatuses={ciStatuses()} />
+                              <CiStatusBadge
+                                prUrl={pr.url}
+                                ciStatuses={ciStatuses()}
+                                rateLimited={rateLimitedUrls().has(pr.url)}
+                              />
                             </span>
                           </div>
                         </div>
@@ -0,0 +1,82 @@
+/**
+ * Helpers for GitHub suggested changes (```suggestion fenced blocks in review comments).
+ */
+
+import type { FileDiffMetadata } from "@pierre/diffs";
+
+export type CommentSegment =
+  | { type: "markdown"; content: string }
+  | { type: "suggestion"; lines: string[] };
+
+// A suggestion fence may be longer than three backticks so it can contain code fences itself
+const SUGGESTION_PATTERN = /^(`{3,})suggestion[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm;
+
+/**
+ * Split a comment body into markdown and suggestion segments.
+ */
+export function parseCommentSegments(body: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of body.matchAll(SUGGESTION_PATTERN)) {
+    const before = body.slice(lastIndex, match.index);
+    if (before.trim()) segments.push({ type: "markdown", content: before });
+
+    // An empty suggestion means "delete these lines"
+    const content = match[2].replace(/\r?\n$/, "");
+    segments.push({ type: "suggestion", lines: content === "" ? [] : content.split(/\r?\n/) });
+    lastIndex = match.index + match[0].length;
+  }
+
+  const rest = body.slice(lastIndex);
+  if (rest.trim()) segments.push({ type: "markdown", content: rest });
+  return segments;
+}
+
+/**
+ * The first suggestion in a comment body (GitHub only applies one per comment).
+ */
+export function getSuggestion(body: string): string[] | null {
+  const segment = parseCommentSegments(body).find((s) => s.type === "suggestion");
+  return segment?.type === "suggestion" ? segment.lines : null;
+}
+
+/**
+ * Build a suggestion block pre-filled with the given lines.
+ */
+export function buildSuggestionBlock(lines: string[]): string {
+  // Use a longer fence if the suggested code contains one
+  const longestFence = Math.max(2, ...lines.map((l) => l.match(/^`{3,}/)?.[0].length ?? 0));
+  const fence = "`".repeat(longestFence + 1);
+  return `${fence}suggestion\n${lines.join("\n")}\n${fence}`;
+}
+
+/**
+ * Lines startLine..endLine (inclusive) of the new file version, or null if any of
+ * them fall outside the diff hunks.
+ */
+export function getNewFileLines(
+  file: FileDiffMetadata,
+  startLine: number,
+  endLine: number,
+): string[] | null {
+  const byLineNumber = new Map<number, string>();
+
+  for (const hunk of file.hunks) {
+    let lineNumber = hunk.additionStart;
+    for (const content of hunk.hunkContent) {
+      const lines = content.type === "context" ? content.lines : content.additions;
+      for (const line of lines) {
+        byLineNumber.set(lineNumber++, line.replace(/\r?\n$/, ""));
+      }
+    }
+  }
+
+  const result: string[] = [];
+  for (let line = startLine; line <= endLine; line++) {
+    const text = byLineNumber.get(line);
+    if (text === undefined) return null;
+    result.push(text);
+  }
+  return result;
+}
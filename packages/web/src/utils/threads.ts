@@ -0,0 +1,44 @@
+/**
+ * Grouping of REST review comments into threads.
+ */
+
+import type { PRComment } from "@better-review/shared";
+
+export interface ReviewCommentThread {
+  root: PRComment;
+  replies: PRComment[];
+}
+
+/**
+ * Group comments into threads by their root comment (REST replies point at the root
+ * via in_reply_to_id). Replies are sorted oldest first.
+ */
+export function groupCommentsIntoThreads(comments: PRComment[]): ReviewCommentThread[] {
+  const threads = new Map<number, ReviewCommentThread>();
+
+  // First pass: identify root comments (no in_reply_to_id)
+  for (const comment of comments) {
+    if (!comment.in_reply_to_id) {
+      threads.set(comment.id, { root: comment, replies: [] });
+    }
+  }
+
+  // Second pass: group replies under their root
+  for (const comment of comments) {
+    if (comment.in_reply_to_id) {
+      const thread = threads.get(comment.in_reply_to_id);
+      if (thread) {
+        thread.replies.push(comment);
+      }
+    }
+  }
+
+  // Sort replies by created_at
+  for (const thread of threads.values()) {
+    thread.replies.sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+    );
+  }
+
+  return Array.from(threads.values());
+}